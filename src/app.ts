@@ -0,0 +1,108 @@
+import express from 'express';
+import type { Express, Request, Response } from 'express';
+
+// Import routes
+import paymentRoutes from './routes/payment.routes.js';
+import webhookRoutes from './routes/webhook.routes.js';
+import walletRoutes from './routes/wallet.routes.js';
+import deliveryRoutes from './routes/delivery.routes.js';
+import subscriptionRoutes from './routes/subscription.routes.js';
+import paymentLinkRoutes from './routes/payment-link.routes.js';
+import payRoutes from './routes/pay.routes.js';
+import paymentRedirectRoutes from './routes/payment-redirect.routes.js';
+import reconciliationRoutes from './routes/reconciliation.routes.js';
+import reportRoutes from './routes/report.routes.js';
+import adminRoutes from './routes/admin.routes.js';
+
+import { authMiddleware, requireAreaScope } from './middleware/auth.middleware.js';
+import { rateLimit } from './middleware/rate-limit.middleware.js';
+import { adminAuthMiddleware } from './middleware/admin-auth.middleware.js';
+import { getEnvNumber } from './config/env.config.js';
+
+/**
+ * Build the Express application (routes and middleware only).
+ * Loading merchants, background jobs and listening are done by index.ts,
+ * so tests can boot the app in-process.
+ */
+export function createApp(): Express {
+  const app = express();
+
+  // Behind a reverse proxy, take the client IP (payment link limits) from X-Forwarded-For
+  const proxyHops = getEnvNumber('TRUST_PROXY_HOPS', 0);
+  if (proxyHops > 0) {
+    app.set('trust proxy', proxyHops);
+  }
+
+  // Middleware
+  app.use(express.json({
+    // Keep the exact bytes of incoming webhooks: signatures are computed over them
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith('/api/webhooks/')) {
+        (req as Request).rawBody = Buffer.from(buf);
+      }
+    },
+  }));
+  app.use(express.urlencoded({ extended: true }));
+
+  // Request logging middleware
+  app.use((req, res, next) => {
+    console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
+    next();
+  });
+
+  // Health check endpoint
+  app.get('/', (req: Request, res: Response) => {
+    res.json({
+      name: 'Viva Wallet Payment Platform',
+      version: '1.0.0',
+      status: 'running',
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Health check
+  app.get('/health', (req: Request, res: Response) => {
+    res.json({ status: 'ok' });
+  });
+
+  // API Routes — require X-Api-Key auth, a key scoped for the route (403 otherwise)
+  // and the merchant staying within its rate limits (429 otherwise)
+  app.use('/api/payments', authMiddleware, paymentRoutes);
+  app.use('/api/wallets', authMiddleware, walletRoutes);
+  app.use('/api/webhook-deliveries', authMiddleware, requireAreaScope('webhook_deliveries'), rateLimit(), deliveryRoutes);
+  app.use('/api/subscriptions', authMiddleware, requireAreaScope('subscriptions'), rateLimit(), subscriptionRoutes);
+  app.use('/api/payment-links', authMiddleware, requireAreaScope('payment_links'), rateLimit(), paymentLinkRoutes);
+  app.use('/api/reconciliation', authMiddleware, requireAreaScope('reconciliation'), rateLimit(), reconciliationRoutes);
+  app.use('/api/reports', authMiddleware, requireAreaScope('reports'), rateLimit(), reportRoutes);
+
+  // Admin API — requires the X-Admin-Key header (ADMIN_API_KEY)
+  app.use('/api/admin', adminAuthMiddleware, adminRoutes);
+
+  // Webhook routes use :merchantKey path param instead of X-Api-Key
+  app.use('/api/webhooks', webhookRoutes);
+
+  // Public payment links: each visitor gets a checkout, within the merchant's rate limits
+  app.use('/pay', payRoutes);
+
+  // Payment redirect endpoints (after Viva checkout)
+  app.use('/payment', paymentRedirectRoutes);
+
+  // 404 handler
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({
+      error: 'Not Found',
+      path: req.path,
+    });
+  });
+
+  // Error handler
+  app.use((err: Error, req: Request, res: Response, next: Function) => {
+    console.error('Unhandled error:', err);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: process.env.NODE_ENV === 'development' ? err.message : undefined,
+    });
+  });
+
+  return app;
+}
@@ -0,0 +1,19 @@
+// Environment variable helpers
+// Always call these lazily (inside functions) so values are read after dotenv.config()
+
+/**
+ * Read a positive number from an env var, falling back to a default
+ */
+export function getEnvNumber(name: string, defaultValue: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * Read a boolean flag from an env var ("true"/"1" enable it)
+ */
+export function getEnvFlag(name: string, defaultValue = false): boolean {
+  const value = process.env[name];
+  if (value === undefined || value === '') return defaultValue;
+  return value === 'true' || value === '1';
+}
@@ -1,11 +1,29 @@
 import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import YAML from 'yaml';
 import type { VivaConfig } from './viva.config.js';
+import { getEnvFlag, getEnvNumber } from './env.config.js';
+import { parse } from '../validation/schema.js';
+import { merchantRegistrySchema } from '../validation/merchant.schemas.js';
+import { API_KEY_SCOPES } from '../types/api-key.types.js';
+import type { ApiKeyGrant, ConfiguredApiKey, RegisteredApiKey } from '../types/api-key.types.js';
+import type { MerchantRecord, MerchantSettings } from '../types/merchant-admin.types.js';
+import { RATE_LIMIT_GROUPS } from '../types/rate-limit.types.js';
+import type { MerchantRateLimits, RateLimitPolicy } from '../types/rate-limit.types.js';
+
+export type VivaEnvironment = 'demo' | 'production' | 'mock';
 
 export interface MerchantConfig {
   merchantKey: string;
-  apiKey: string; // Separate API key for X-Api-Key header authentication
+  environment: VivaEnvironment;
+  apiKeys: ConfiguredApiKey[]; // X-Api-Keys from env / file, hashed; admin-issued keys live in merchant records
   vivaConfig: VivaConfig;
   webhookSecret: string;
+  webhookStrict: boolean; // Reject unsigned webhooks (and require webhookSecret)
+  redirectSecret: string; // Signs browser redirects for orders without a callback secret
+  rateLimits: MerchantRateLimits; // Overrides of the RATE_LIMIT_* defaults
 }
 
 // Demo environment URLs
@@ -18,19 +36,201 @@ const PROD_AUTH_URL = 'https://accounts.vivapayments.com';
 const PROD_API_URL = 'https://api.vivapayments.com';
 const PROD_CHECKOUT_URL = 'https://www.vivapayments.com';
 
-// Registry: apiKey -> MerchantConfig
-const merchantsByApiKey = new Map<string, MerchantConfig>();
+// Local Viva stand-in (see src/mock/viva-mock.server.ts)
+const DEFAULT_MOCK_URL = 'http://localhost:4000';
+
+/**
+ * Resolve the Viva URLs for an environment
+ */
+function getEnvironmentUrls(environment: VivaEnvironment): Pick<VivaConfig, 'authUrl' | 'apiUrl' | 'checkoutUrl' | 'ordersApiUrl'> {
+  if (environment === 'mock') {
+    const mockUrl = process.env.VIVA_MOCK_URL || DEFAULT_MOCK_URL;
+    return { authUrl: mockUrl, apiUrl: mockUrl, checkoutUrl: mockUrl, ordersApiUrl: mockUrl };
+  }
+
+  const isDemo = environment !== 'production';
+  return {
+    authUrl: isDemo ? DEMO_AUTH_URL : PROD_AUTH_URL,
+    apiUrl: isDemo ? DEMO_API_URL : PROD_API_URL,
+    checkoutUrl: isDemo ? DEMO_CHECKOUT_URL : PROD_CHECKOUT_URL,
+    ordersApiUrl: isDemo ? DEMO_CHECKOUT_URL : PROD_CHECKOUT_URL,
+  };
+}
+
+// Registry: SHA-256 of an API key -> the key's merchant, scopes and expiry
+let merchantsByApiKey = new Map<string, RegisteredApiKey>();
 // Registry: merchantKey -> MerchantConfig
-const merchantsByKey = new Map<string, MerchantConfig>();
+let merchantsByKey = new Map<string, MerchantConfig>();
+
+// Merchants from env vars or MERCHANTS_FILE, before admin API changes
+let configuredMerchants: MerchantConfig[] = [];
+// Admin API changes, applied on top (see merchant-admin.service)
+let merchantRecords: MerchantRecord[] = [];
+
+// Wait for a burst of file events (editors write in several steps) before reloading
+const RELOAD_DEBOUNCE_MS = 100;
+
+let fileWatcher: fs.FSWatcher | null = null;
+let reloadTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Swap in a new set of merchants in one step, so a lookup never sees half a reload.
+ * A merchant whose Viva credentials did not change keeps its VivaConfig object;
+ * merchant.service relies on that to keep (or drop) its cached service.
+ */
+function setMerchants(configs: MerchantConfig[], records: MerchantRecord[]): void {
+  const byApiKey = new Map<string, RegisteredApiKey>();
+  const byKey = new Map<string, MerchantConfig>();
+
+  for (const config of configs) {
+    const current = merchantsByKey.get(config.merchantKey);
+    if (current && isDeepStrictEqual(current.vivaConfig, config.vivaConfig)) {
+      config.vivaConfig = current.vivaConfig;
+    }
+    for (const apiKey of config.apiKeys) {
+      byApiKey.set(apiKey.keyHash, { merchantKey: config.merchantKey, id: apiKey.id, label: apiKey.label, scopes: apiKey.scopes });
+    }
+    byKey.set(config.merchantKey, config);
+  }
+
+  for (const record of records) {
+    if (!byKey.has(record.merchantKey)) continue;
+    for (const apiKey of record.apiKeys) {
+      byApiKey.set(apiKey.keyHash, {
+        merchantKey: record.merchantKey,
+        id: apiKey.id,
+        label: apiKey.label,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt,
+      });
+    }
+  }
+
+  merchantsByApiKey = byApiKey;
+  merchantsByKey = byKey;
+}
+
+/**
+ * Build the registry from the configured merchants and the admin API's records:
+ * a record's settings replace the configured ones, disabled merchants are left out
+ */
+function rebuildRegistry(): void {
+  const configured = new Map(configuredMerchants.map((config) => [config.merchantKey, config]));
+  const records = new Map(merchantRecords.map((record) => [record.merchantKey, record]));
+  const configs: MerchantConfig[] = [];
+
+  for (const merchantKey of new Set([...configured.keys(), ...records.keys()])) {
+    const base = configured.get(merchantKey);
+    const record = records.get(merchantKey);
+    if (record?.disabled) continue;
+
+    if (record?.settings) {
+      configs.push(toMerchantConfig(merchantKey, base?.apiKeys ?? [], record.settings));
+    } else if (base) {
+      configs.push({ ...base });
+    }
+  }
+
+  setMerchants(configs, merchantRecords);
+}
+
+/**
+ * Resolve a merchant's config from its settings
+ */
+function toMerchantConfig(merchantKey: string, apiKeys: ConfiguredApiKey[], settings: MerchantSettings): MerchantConfig {
+  return {
+    merchantKey,
+    environment: settings.environment,
+    apiKeys,
+    webhookSecret: settings.webhookSecret,
+    webhookStrict: settings.webhookStrict,
+    redirectSecret: settings.redirectSecret,
+    rateLimits: settings.rateLimits ?? {},
+    vivaConfig: {
+      clientId: settings.viva.clientId,
+      clientSecret: settings.viva.clientSecret,
+      merchantId: settings.viva.merchantId,
+      apiKey: settings.viva.apiKey,
+      ...getEnvironmentUrls(settings.environment),
+      sourceCode: settings.viva.sourceCode,
+    },
+  };
+}
+
+/**
+ * SHA-256 hex of an API key: how keys are stored and looked up
+ */
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * A configured key, keeping only its hash
+ */
+function toConfiguredApiKey(label: string, keyHash: string, scopes: ApiKeyGrant[] = ['*']): ConfiguredApiKey {
+  return { id: `config_${label}`, label, keyHash, scopes };
+}
+
+/**
+ * Parse a comma-separated scope list (MERCHANT_{key}_API_KEY_SCOPES), dropping unknown scopes
+ */
+function parseScopes(merchantKey: string, value: string): ApiKeyGrant[] {
+  const scopes = value.split(',').map((scope) => scope.trim()).filter(Boolean);
+  const known = new Set<string>([...API_KEY_SCOPES, '*']);
+
+  const unknown = scopes.filter((scope) => !known.has(scope));
+  if (unknown.length > 0) {
+    console.warn(`⚠️  Merchant "${merchantKey}": ignoring unknown API key scopes ${unknown.join(', ')}`);
+  }
+  return scopes.filter((scope): scope is ApiKeyGrant => known.has(scope));
+}
+
+/**
+ * Read a merchant's rate limit overrides from MERCHANT_{key}_RATE_LIMIT_{GROUP}_{PER_MINUTE|BURST|DAILY_QUOTA}
+ */
+function readEnvRateLimits(prefix: string): MerchantRateLimits {
+  const fields: Array<[keyof RateLimitPolicy, string]> = [['perMinute', 'PER_MINUTE'], ['burst', 'BURST'], ['dailyQuota', 'DAILY_QUOTA']];
+  const rateLimits: MerchantRateLimits = {};
+
+  for (const group of RATE_LIMIT_GROUPS) {
+    const policy: Partial<RateLimitPolicy> = {};
+    for (const [field, name] of fields) {
+      const value = getEnvNumber(`${prefix}RATE_LIMIT_${group.toUpperCase()}_${name}`, 0);
+      if (value) policy[field] = value;
+    }
+    if (Object.keys(policy).length > 0) rateLimits[group] = policy;
+  }
+
+  return rateLimits;
+}
+
+/**
+ * A merchant's settings, as stored by the admin API
+ */
+export function toMerchantSettings(config: MerchantConfig): MerchantSettings {
+  return {
+    environment: config.environment,
+    webhookSecret: config.webhookSecret,
+    webhookStrict: config.webhookStrict,
+    redirectSecret: config.redirectSecret,
+    rateLimits: config.rateLimits,
+    viva: {
+      clientId: config.vivaConfig.clientId,
+      clientSecret: config.vivaConfig.clientSecret,
+      merchantId: config.vivaConfig.merchantId,
+      apiKey: config.vivaConfig.apiKey,
+      sourceCode: config.vivaConfig.sourceCode,
+    },
+  };
+}
 
 /**
  * Scan environment variables for MERCHANT_* prefixes and build merchant configs.
  * Pattern: MERCHANT_{key}_VIVA_CLIENT_ID, MERCHANT_{key}_VIVA_CLIENT_SECRET, etc.
  * API key: MERCHANT_{key}_API_KEY (required, used for X-Api-Key header)
  */
-export function loadMerchantConfigs(): void {
-  merchantsByApiKey.clear();
-  merchantsByKey.clear();
+function readEnvMerchants(): MerchantConfig[] {
+  const configs: MerchantConfig[] = [];
 
   // Find all unique merchant keys from env vars
   const merchantKeys = new Set<string>();
@@ -44,53 +244,199 @@ export function loadMerchantConfigs(): void {
   for (const merchantKey of merchantKeys) {
     const prefix = `MERCHANT_${merchantKey}_`;
     const merchantApiKey = process.env[`${prefix}API_KEY`] || '';
+    const apiKeyScopes = process.env[`${prefix}API_KEY_SCOPES`];
     const clientId = process.env[`${prefix}VIVA_CLIENT_ID`] || '';
     const clientSecret = process.env[`${prefix}VIVA_CLIENT_SECRET`] || '';
     const merchantId = process.env[`${prefix}VIVA_MERCHANT_ID`] || '';
     const vivaApiKey = process.env[`${prefix}VIVA_API_KEY`] || '';
     const sourceCode = process.env[`${prefix}VIVA_SOURCE_CODE`];
     const webhookSecret = process.env[`${prefix}VIVA_WEBHOOK_SECRET`] || '';
-    const environment = process.env[`${prefix}VIVA_ENVIRONMENT`] || 'demo';
-    const isDemo = environment !== 'production';
+    const webhookStrict = getEnvFlag(`${prefix}VIVA_WEBHOOK_STRICT`);
+    const redirectSecret = process.env[`${prefix}REDIRECT_SECRET`] || '';
+    const environmentValue = process.env[`${prefix}VIVA_ENVIRONMENT`] || 'demo';
+    const environment: VivaEnvironment =
+      environmentValue === 'production' || environmentValue === 'mock' ? environmentValue : 'demo';
 
     if (!clientId || !clientSecret) {
       console.warn(`⚠️  Merchant "${merchantKey}": missing VIVA_CLIENT_ID or VIVA_CLIENT_SECRET, skipping`);
       continue;
     }
 
+    if (webhookStrict && !webhookSecret) {
+      console.warn(`⚠️  Merchant "${merchantKey}": VIVA_WEBHOOK_STRICT is set without VIVA_WEBHOOK_SECRET, all webhooks will be rejected`);
+    }
+
     if (!merchantApiKey) {
-      console.warn(`⚠️  Merchant "${merchantKey}": missing API_KEY, generating a random one`);
+      console.warn(`⚠️  Merchant "${merchantKey}": missing API_KEY, only keys issued through the admin API will work`);
+    }
+
+    const apiKeys = merchantApiKey
+      ? [toConfiguredApiKey('env', hashApiKey(merchantApiKey), apiKeyScopes ? parseScopes(merchantKey, apiKeyScopes) : undefined)]
+      : [];
+
+    configs.push(toMerchantConfig(merchantKey, apiKeys, {
+      environment,
+      webhookSecret,
+      webhookStrict,
+      redirectSecret,
+      rateLimits: readEnvRateLimits(prefix),
+      viva: { clientId, clientSecret, merchantId, apiKey: vivaApiKey, sourceCode },
+    }));
+  }
+
+  return configs;
+}
+
+/**
+ * Read and validate the merchant registry file (.json, .yaml or .yml).
+ * Throws with every validation issue if the file is not usable.
+ */
+function readMerchantsFile(filePath: string): MerchantConfig[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  let data: unknown;
+  if (extension === '.json') {
+    data = JSON.parse(text);
+  } else if (extension === '.yaml' || extension === '.yml') {
+    data = YAML.parse(text);
+  } else {
+    throw new Error(`Unsupported merchant registry file type "${extension}" (use .json, .yaml or .yml)`);
+  }
+
+  const result = parse(merchantRegistrySchema, data);
+  if (!result.success) {
+    const details = result.issues.map((issue) => `${issue.field} ${issue.message}`).join('; ');
+    throw new Error(`Invalid merchant registry file: ${details}`);
+  }
+
+  return result.data.merchants.map((entry) => {
+    const environment = entry.environment ?? 'demo';
+    const webhookSecret = entry.webhookSecret ?? '';
+    const webhookStrict = entry.webhookStrict ?? false;
+
+    if (webhookStrict && !webhookSecret) {
+      console.warn(`⚠️  Merchant "${entry.merchantKey}": webhookStrict is set without webhookSecret, all webhooks will be rejected`);
     }
 
-    const apiKey = merchantApiKey || crypto.randomBytes(24).toString('hex');
+    const apiKeys = (entry.apiKeys ?? []).map((apiKey) =>
+      toConfiguredApiKey(apiKey.label, apiKey.keyHash ?? hashApiKey(apiKey.key!), apiKey.scopes));
+    if (entry.apiKey) {
+      apiKeys.unshift(toConfiguredApiKey('default', hashApiKey(entry.apiKey)));
+    }
 
-    const config: MerchantConfig = {
-      merchantKey,
-      apiKey,
+    return toMerchantConfig(entry.merchantKey, apiKeys, {
+      environment,
       webhookSecret,
-      vivaConfig: {
-        clientId,
-        clientSecret,
-        merchantId,
-        apiKey: vivaApiKey,
-        authUrl: isDemo ? DEMO_AUTH_URL : PROD_AUTH_URL,
-        apiUrl: isDemo ? DEMO_API_URL : PROD_API_URL,
-        checkoutUrl: isDemo ? DEMO_CHECKOUT_URL : PROD_CHECKOUT_URL,
-        ordersApiUrl: isDemo ? DEMO_CHECKOUT_URL : PROD_CHECKOUT_URL,
-        sourceCode,
+      webhookStrict,
+      redirectSecret: entry.redirectSecret ?? '',
+      rateLimits: entry.rateLimits,
+      viva: {
+        clientId: entry.viva.clientId,
+        clientSecret: entry.viva.clientSecret,
+        merchantId: entry.viva.merchantId ?? '',
+        apiKey: entry.viva.apiKey ?? '',
+        sourceCode: entry.viva.sourceCode,
       },
-    };
+    });
+  });
+}
 
-    merchantsByApiKey.set(apiKey, config);
-    merchantsByKey.set(merchantKey, config);
+/**
+ * Load the merchant registry: from MERCHANTS_FILE when set, otherwise from
+ * MERCHANT_{key}_* env vars. An unusable registry file is logged and the
+ * current merchants are kept (returns false).
+ */
+export function loadMerchantConfigs(): boolean {
+  const filePath = process.env.MERCHANTS_FILE;
+  if (!filePath) {
+    configuredMerchants = readEnvMerchants();
+    rebuildRegistry();
+    return true;
+  }
+
+  try {
+    configuredMerchants = readMerchantsFile(filePath);
+    rebuildRegistry();
+    return true;
+  } catch (error) {
+    console.error(`❌ Could not load merchants from ${filePath}, keeping ${merchantsByKey.size} current merchant(s):`,
+      error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * Reload MERCHANTS_FILE whenever it changes. The directory is watched rather
+ * than the file, so editors that save by renaming a new file over it are seen.
+ */
+export function watchMerchantsFile(): void {
+  const filePath = process.env.MERCHANTS_FILE;
+  if (!filePath || fileWatcher) return;
+
+  const fileName = path.basename(filePath);
+  fileWatcher = fs.watch(path.dirname(path.resolve(filePath)), (_event, changed) => {
+    if (changed && changed.toString() !== fileName) return;
+    if (reloadTimer) clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => {
+      reloadTimer = null;
+      if (!fs.existsSync(filePath)) return; // Mid-rename; the new file triggers another event
+      if (loadMerchantConfigs()) {
+        console.log(`🔄 Merchant registry reloaded from ${filePath}: ${merchantsByKey.size} merchant(s)`);
+      }
+    }, RELOAD_DEBOUNCE_MS);
+  });
+  fileWatcher.unref();
+}
+
+/**
+ * Stop watching MERCHANTS_FILE (used on shutdown and in tests)
+ */
+export function unwatchMerchantsFile(): void {
+  if (reloadTimer) {
+    clearTimeout(reloadTimer);
+    reloadTimer = null;
+  }
+  if (fileWatcher) {
+    fileWatcher.close();
+    fileWatcher = null;
   }
 }
 
 /**
- * Look up a merchant by their API key (X-Api-Key header value)
+ * Apply the admin API's merchant records (on startup and after every change)
  */
-export function getMerchantByApiKey(apiKey: string): MerchantConfig | undefined {
-  return merchantsByApiKey.get(apiKey);
+export function applyMerchantRecords(records: MerchantRecord[]): void {
+  merchantRecords = records;
+  rebuildRegistry();
+}
+
+/**
+ * A merchant as configured in env vars or MERCHANTS_FILE, before admin API changes
+ */
+export function getConfiguredMerchant(merchantKey: string): MerchantConfig | undefined {
+  return configuredMerchants.find((config) => config.merchantKey === merchantKey);
+}
+
+/**
+ * Get all configured merchant keys, including disabled ones
+ */
+export function getConfiguredMerchantKeys(): string[] {
+  return configuredMerchants.map((config) => config.merchantKey);
+}
+
+/**
+ * Look up a merchant and the key's grants by an API key (X-Api-Key header value).
+ * Keys past their expiry (revoked after a grace period) are rejected.
+ */
+export function getMerchantByApiKey(
+  apiKey: string,
+  now: Date = new Date()
+): { config: MerchantConfig; apiKey: RegisteredApiKey } | undefined {
+  const entry = merchantsByApiKey.get(hashApiKey(apiKey));
+  if (!entry || (entry.expiresAt && new Date(entry.expiresAt) <= now)) return undefined;
+
+  const config = merchantsByKey.get(entry.merchantKey);
+  return config ? { config, apiKey: entry } : undefined;
 }
 
 /**
@@ -119,7 +465,7 @@ export function getAllMerchants(): MerchantConfig[] {
  */
 export function validateMerchantConfigs(): boolean {
   if (merchantsByKey.size === 0) {
-    console.error('No merchant configurations found. Add MERCHANT_{key}_VIVA_* env vars.');
+    console.error('No merchant configurations found. Add MERCHANT_{key}_VIVA_* env vars or a MERCHANTS_FILE.');
     return false;
   }
   return true;
@@ -0,0 +1,28 @@
+// Storage Configuration
+
+import { getEnvNumber } from './env.config.js';
+
+export type StorageDriver = 'memory' | 'file';
+
+export interface StorageConfig {
+  // Backend used for all key-value stores ("memory" or "file")
+  driver: StorageDriver;
+
+  // Directory holding one JSON file per store (file driver only)
+  dataDir: string;
+
+  // How often expired entries are swept from every store
+  sweepIntervalMs: number;
+}
+
+// Use a getter function to ensure env vars are read after dotenv.config()
+export function getStorageConfig(): StorageConfig {
+  const driver = process.env.STORAGE_DRIVER === 'file' ? 'file' : 'memory';
+
+  return {
+    driver,
+    dataDir: process.env.STORAGE_DIR || './data',
+    sweepIntervalMs: getEnvNumber('STORAGE_SWEEP_INTERVAL_SECONDS', 60) * 1000,
+  };
+}
+
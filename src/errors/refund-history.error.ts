@@ -0,0 +1,14 @@
+/**
+ * Error raised by RefundService when the refunds a transaction already has
+ * cannot be read from Viva, so its refundable amount is unknown.
+ * Routes answer it with 409 rather than guess.
+ */
+export class RefundHistoryUnavailableError extends Error {
+  readonly transactionId: string;
+
+  constructor(transactionId: string) {
+    super(`Refunds of transaction ${transactionId} could not be read from Viva`);
+    this.name = 'RefundHistoryUnavailableError';
+    this.transactionId = transactionId;
+  }
+}
@@ -0,0 +1,117 @@
+import axios from 'axios';
+import type { Response } from 'express';
+import type { VivaErrorResponse } from '../types/viva.types.js';
+
+// Error fields as they appear in Viva error bodies and failed transaction responses
+type VivaErrorBody = {
+  [K in 'ErrorCode' | 'ErrorText' | 'EventId' | 'CorrelationId']?: VivaErrorResponse[K] | null;
+};
+
+/**
+ * Stable, machine-readable error codes returned to API clients
+ */
+export type VivaApiErrorCode =
+  | 'viva_invalid_request'
+  | 'viva_not_found'
+  | 'viva_conflict'
+  | 'payment_declined'
+  | 'viva_authentication_failed'
+  | 'viva_unavailable';
+
+// Viva reports card/issuer declines with transaction event IDs from 10000 up
+// (e.g. 10051 Insufficient funds, 10054 Expired card)
+const DECLINE_EVENT_ID_MIN = 10000;
+
+/**
+ * Error raised by VivaWalletService for a failed Viva API call.
+ * Carries Viva's error details and the HTTP status the middleware should answer with.
+ */
+export class VivaApiError extends Error {
+  readonly code: VivaApiErrorCode;
+  readonly status: number; // Status returned to our client
+  readonly upstreamStatus: number | undefined; // Status returned by Viva (undefined = no response)
+  readonly vivaErrorCode: number | undefined;
+  readonly vivaErrorText: string | undefined;
+  readonly eventId: number | undefined;
+  readonly correlationId: string | undefined;
+
+  constructor(context: string, upstreamStatus: number | undefined, body?: VivaErrorBody) {
+    const [status, code] = classify(upstreamStatus, body);
+    super(body?.ErrorText ? `${context}: ${body.ErrorText}` : context);
+    this.name = 'VivaApiError';
+    this.code = code;
+    this.status = status;
+    this.upstreamStatus = upstreamStatus;
+    this.vivaErrorCode = body?.ErrorCode ?? undefined;
+    this.vivaErrorText = body?.ErrorText ?? undefined;
+    this.eventId = body?.EventId ?? undefined;
+    this.correlationId = body?.CorrelationId ?? undefined;
+  }
+
+  /**
+   * Build from anything thrown by an axios call
+   */
+  static fromError(error: unknown, context: string): VivaApiError {
+    if (error instanceof VivaApiError) {
+      return error;
+    }
+    if (axios.isAxiosError(error) && error.response) {
+      return new VivaApiError(context, error.response.status, toErrorBody(error.response.data));
+    }
+    // Network error, timeout or non-HTTP failure
+    return new VivaApiError(context, undefined);
+  }
+}
+
+function toErrorBody(data: unknown): VivaErrorBody | undefined {
+  return typeof data === 'object' && data !== null ? data as VivaErrorBody : undefined;
+}
+
+function classify(upstreamStatus: number | undefined, body?: VivaErrorBody): [number, VivaApiErrorCode] {
+  if ((body?.EventId ?? 0) >= DECLINE_EVENT_ID_MIN || (body?.ErrorCode ?? 0) >= DECLINE_EVENT_ID_MIN) {
+    return [402, 'payment_declined'];
+  }
+
+  switch (upstreamStatus) {
+    case 400:
+    case 422:
+      return [400, 'viva_invalid_request'];
+    case 404:
+      return [404, 'viva_not_found'];
+    case 403: // Operation not allowed for the resource (e.g. recurring on a non-recurring transaction)
+    case 409:
+      return [409, 'viva_conflict'];
+    case 401:
+      // Our merchant credentials were rejected; not the client's fault
+      return [502, 'viva_authentication_failed'];
+    default:
+      return [502, 'viva_unavailable'];
+  }
+}
+
+/**
+ * Send the error response for a failed route.
+ * VivaApiErrors keep their mapped status, code and Viva's correlation ID;
+ * anything else is a 500 with the given message.
+ */
+export function sendErrorResponse(res: Response, error: unknown, message: string): void {
+  if (error instanceof VivaApiError) {
+    res.status(error.status).json({
+      error: message,
+      code: error.code,
+      vivaError: {
+        status: error.upstreamStatus,
+        errorCode: error.vivaErrorCode,
+        errorText: error.vivaErrorText,
+        eventId: error.eventId,
+      },
+      correlationId: error.correlationId,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: message,
+    code: 'internal_error',
+  });
+}
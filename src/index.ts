@@ -1,108 +1,38 @@
-import express from 'express';
-import type { Request, Response } from 'express';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-// Import routes
-import paymentRoutes from './routes/payment.routes.js';
-import webhookRoutes from './routes/webhook.routes.js';
-import walletRoutes from './routes/wallet.routes.js';
+import { createApp } from './app.js';
 
 // Import merchant config
-import { loadMerchantConfigs, validateMerchantConfigs, getAllMerchants } from './config/merchant.config.js';
-import { authMiddleware } from './middleware/auth.middleware.js';
-
-const app = express();
+import {
+  loadMerchantConfigs,
+  validateMerchantConfigs,
+  getAllMerchants,
+  watchMerchantsFile,
+} from './config/merchant.config.js';
+import { startStoreSweeper } from './storage/store.factory.js';
+import { webhookDeliveryQueue } from './services/webhook-delivery-queue.service.js';
+import { subscriptionService } from './services/subscription.service.js';
+import { preauthService } from './services/preauth.service.js';
+import { reconciliationService } from './services/reconciliation.service.js';
+import { rateLimitService } from './services/rate-limit.service.js';
+import { merchantAdminService } from './services/merchant-admin.service.js';
+
+const app = createApp();
 const port = process.env.PORT || 3000;
 
-// Middleware
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-// Request logging middleware
-app.use((req, res, next) => {
-  console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
-  next();
-});
-
-// Health check endpoint
-app.get('/', (req: Request, res: Response) => {
-  res.json({
-    name: 'Viva Wallet Payment Platform',
-    version: '1.0.0',
-    status: 'running',
-    timestamp: new Date().toISOString(),
-  });
-});
-
-// Health check
-app.get('/health', (req: Request, res: Response) => {
-  res.json({ status: 'ok' });
-});
-
-// API Routes — payment & wallet routes require X-Api-Key auth
-app.use('/api/payments', authMiddleware, paymentRoutes);
-app.use('/api/wallets', authMiddleware, walletRoutes);
-
-// Webhook routes use :merchantKey path param instead of X-Api-Key
-app.use('/api/webhooks', webhookRoutes);
-
-// Payment redirect endpoints (after Viva checkout)
-app.get('/payment/success', (req: Request, res: Response) => {
-  const { t: transactionId, s: orderCode, lang } = req.query;
-  
-  console.log('Payment successful redirect:', {
-    transactionId,
-    orderCode,
-    lang,
-  });
-
-  res.json({
-    success: true,
-    message: 'Payment completed successfully!',
-    transactionId,
-    orderCode,
-  });
-});
-
-app.get('/payment/failure', (req: Request, res: Response) => {
-  const { t: transactionId, s: orderCode, lang } = req.query;
-  
-  console.log('Payment failed redirect:', {
-    transactionId,
-    orderCode,
-    lang,
-  });
-
-  res.json({
-    success: false,
-    message: 'Payment failed or was cancelled.',
-    transactionId,
-    orderCode,
-  });
-});
-
-// 404 handler
-app.use((req: Request, res: Response) => {
-  res.status(404).json({
-    error: 'Not Found',
-    path: req.path,
-  });
-});
-
-// Error handler
-app.use((err: Error, req: Request, res: Response, next: Function) => {
-  console.error('Unhandled error:', err);
-  res.status(500).json({
-    error: 'Internal Server Error',
-    message: process.env.NODE_ENV === 'development' ? err.message : undefined,
-  });
-});
-
 // Load merchant configurations and start server
 loadMerchantConfigs();
+merchantAdminService.load();
+watchMerchantsFile();
+startStoreSweeper();
+webhookDeliveryQueue.start();
+subscriptionService.start();
+preauthService.start();
+reconciliationService.start();
+rateLimitService.start();
 
 app.listen(port, () => {
 
@@ -123,9 +53,19 @@ app.listen(port, () => {
 ║   • DELETE /api/payments/orders/:code    - Cancel order   ║
 ║   • GET    /api/payments/transactions/:id - Get txn       ║
 ║   • POST   /api/payments/transactions/:id - Recurring/Cap ║
+║   • GET    /api/payments/preauths        - Open holds     ║
 ║   • DELETE /api/payments/transactions/:id - Refund        ║
 ║   • POST   /api/payments/card-tokens     - Save card      ║
+║   • GET    /api/payments/customers/:ref/cards - Cards     ║
 ║   • GET    /api/wallets                  - Get wallets    ║
+║   • GET    /api/webhook-deliveries       - Delivery log   ║
+║   • POST   /api/webhook-deliveries/:id/redeliver          ║
+║   • POST   /api/subscriptions            - Subscribe      ║
+║   • GET    /api/subscriptions/plans      - List plans     ║
+║   • POST   /api/payment-links            - Create link    ║
+║                                                           ║
+║   Payment Links (public):                                 ║
+║   • GET    /pay/:slug                    - Open checkout  ║
 ║                                                           ║
 ║   Webhook Endpoints (per merchant):                       ║
 ║   • GET/POST /api/webhooks/viva/:merchantKey              ║
@@ -135,13 +75,13 @@ app.listen(port, () => {
 
   if (!validateMerchantConfigs()) {
     console.warn('⚠️  No merchant configurations found. Check your .env file.');
-    console.warn('   Add MERCHANT_{key}_VIVA_CLIENT_ID, MERCHANT_{key}_VIVA_CLIENT_SECRET, etc.');
+    console.warn('   Add MERCHANT_{key}_VIVA_CLIENT_ID, MERCHANT_{key}_VIVA_CLIENT_SECRET, etc., or point MERCHANTS_FILE to a registry file.');
   } else {
     const merchants = getAllMerchants();
     console.log(`✅ Loaded ${merchants.length} merchant(s):`);
     for (const m of merchants) {
       console.log(`   📌 ${m.merchantKey}`);
-      console.log(`      API Key:     ${m.apiKey}`);
+      console.log(`      API Keys:    ${m.apiKeys.map((k) => k.label).join(', ') || '(issued through the admin API)'}`);
       console.log(`      Webhook URL: /api/webhooks/viva/${m.merchantKey}`);
     }
   }
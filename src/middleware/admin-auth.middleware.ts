@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+/**
+ * Compare two secrets in constant time (hashing first evens out the lengths)
+ */
+function secretsMatch(provided: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * Middleware that protects the admin API with the X-Admin-Key header.
+ * The admin API is off (404) unless ADMIN_API_KEY is set.
+ */
+export function adminAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(404).json({ error: 'Admin API is not enabled' });
+    return;
+  }
+
+  const provided = req.headers['x-admin-key'] as string | undefined;
+  if (!provided) {
+    res.status(401).json({ error: 'Missing X-Admin-Key header' });
+    return;
+  }
+
+  if (!secretsMatch(provided, adminKey)) {
+    res.status(401).json({ error: 'Invalid admin key' });
+    return;
+  }
+
+  next();
+}
@@ -1,5 +1,8 @@
 import type { Request, Response, NextFunction } from 'express';
 import { getServiceByApiKey } from '../services/merchant.service.js';
+import { merchantAdminService } from '../services/merchant-admin.service.js';
+import { API_KEY_SCOPES } from '../types/api-key.types.js';
+import type { ApiKeyArea, ApiKeyScope } from '../types/api-key.types.js';
 
 /**
  * Middleware that reads X-Api-Key header, resolves merchant config,
@@ -22,6 +25,45 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
   req.merchantKey = result.config.merchantKey;
   req.merchantConfig = result.config;
   req.vivaService = result.service;
+  req.apiKey = result.apiKey;
+
+  merchantAdminService.recordApiKeyUse(result.config.merchantKey, result.apiKey.id);
 
   next();
 }
+
+/**
+ * Middleware that rejects the request with 403 unless its API key has the scope (or "*").
+ * Must run after authMiddleware.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const scopes = req.apiKey?.scopes ?? [];
+
+    if (!scopes.includes('*') && !scopes.includes(scope)) {
+      res.status(403).json({ error: 'Insufficient scope', requiredScope: scope });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware for a whole area of the API: GET and HEAD need `${area}:read`, anything else `${area}:write`.
+ * Areas without that scope (e.g. writes to a read-only area) are left to keys with "*".
+ */
+export function requireAreaScope(area: ApiKeyArea) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const required = `${area}:${req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write'}`;
+    const scope = API_KEY_SCOPES.find((candidate) => candidate === required);
+
+    if (scope) {
+      requireScope(scope)(req, res, next);
+    } else if (req.apiKey?.scopes.includes('*')) {
+      next();
+    } else {
+      res.status(403).json({ error: 'Insufficient scope', requiredScope: required });
+    }
+  };
+}
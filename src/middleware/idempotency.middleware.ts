@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { createStore } from '../storage/store.factory.js';
+import { getEnvNumber } from '../config/env.config.js';
+
+/**
+ * Stored outcome of a request made with an Idempotency-Key
+ */
+interface IdempotencyRecord {
+  requestHash: string; // Hash of method, path and body of the first request
+  statusCode: number;
+  body?: unknown;
+  createdAt: string;
+}
+
+const MAX_KEY_LENGTH = 255;
+
+// Stored responses, keyed by merchantKey + Idempotency-Key
+const idempotencyStore = createStore<IdempotencyRecord>('idempotency-keys');
+
+// Requests still being processed, by the same key, with their request hash.
+// Kept in process memory so a crash never leaves a key blocked.
+const inFlight = new Map<string, string>();
+
+function getRetentionMs(): number {
+  return getEnvNumber('IDEMPOTENCY_KEY_TTL_SECONDS', 24 * 60 * 60) * 1000;
+}
+
+/**
+ * Hash the parts of a request that must match for a replay
+ * (method, path including query string, and body)
+ */
+function hashRequest(req: Request): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Middleware that honors the Idempotency-Key header (per merchant).
+ * The first successful (2xx) response for a key is stored and replayed for
+ * repeats with the same request; a different request with the same key is
+ * rejected with 409, as is a repeat while the first is still processing.
+ * Other responses (validation errors, declines, server errors) are not
+ * stored, so the client can correct or retry the request.
+ * Must run after authMiddleware.
+ */
+export function idempotencyMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const idempotencyKey = req.headers['idempotency-key'] as string | undefined;
+
+  if (!idempotencyKey) {
+    next();
+    return;
+  }
+
+  if (idempotencyKey.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      error: `Idempotency-Key must be ${MAX_KEY_LENGTH} characters or less`,
+    });
+    return;
+  }
+
+  const storeKey = `${req.merchantKey}:${idempotencyKey}`;
+  const requestHash = hashRequest(req);
+  const existing = idempotencyStore.get(storeKey);
+  const processingHash = inFlight.get(storeKey);
+
+  if ((existing?.requestHash ?? processingHash ?? requestHash) !== requestHash) {
+    res.status(409).json({
+      error: 'Idempotency-Key was already used with a different request',
+    });
+    return;
+  }
+
+  if (existing) {
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(existing.statusCode).json(existing.body);
+    return;
+  }
+
+  if (processingHash) {
+    res.status(409).json({
+      error: 'A request with this Idempotency-Key is still being processed',
+    });
+    return;
+  }
+
+  inFlight.set(storeKey, requestHash);
+  const createdAt = new Date().toISOString();
+  let settled = false;
+
+  // Capture the response body as the route sends it
+  const originalJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    settled = true;
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      idempotencyStore.set(storeKey, {
+        requestHash,
+        statusCode: res.statusCode,
+        body,
+        createdAt,
+      }, { ttlMs: getRetentionMs() });
+    }
+    inFlight.delete(storeKey);
+    return originalJson(body);
+  };
+
+  // Release the key if the request ends without a JSON response
+  res.on('close', () => {
+    if (!settled) inFlight.delete(storeKey);
+  });
+
+  next();
+}
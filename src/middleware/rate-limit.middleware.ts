@@ -0,0 +1,90 @@
+import type { Request, Response, NextFunction } from 'express';
+import { rateLimitService } from '../services/rate-limit.service.js';
+import type { RateLimitGroup, RateLimitResult } from '../types/rate-limit.types.js';
+
+/**
+ * Set the RateLimit-* headers for a result, and respond 429 with Retry-After
+ * if it was refused. Returns whether the request may go on.
+ */
+function applyResult(res: Response, result: RateLimitResult, group: string): boolean {
+  const { policy } = result;
+
+  res.set({
+    'RateLimit-Policy': [
+      `${policy.perMinute};w=60;burst=${policy.burst}`,
+      ...(policy.dailyQuota === undefined ? [] : [`${policy.dailyQuota};w=86400`]),
+    ].join(', '),
+    'RateLimit-Limit': String(policy.burst),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+  });
+  if (result.quotaRemaining !== undefined) {
+    res.set('X-Daily-Quota-Remaining', String(result.quotaRemaining));
+  }
+
+  if (!result.allowed) {
+    res.set('Retry-After', String(result.retryAfterSeconds));
+    res.status(429).json({
+      error: result.reason === 'daily_quota' ? 'Daily quota exceeded' : 'Rate limit exceeded',
+      group,
+      retryAfter: result.retryAfterSeconds,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Middleware that limits the merchant's requests to a route group.
+ * Without a group, GET and HEAD count as reads and anything else as orders.
+ * Sets the RateLimit-* headers on every response and rejects requests over
+ * the limit or the daily quota with 429 and Retry-After.
+ * Must run after authMiddleware.
+ */
+export function rateLimit(group?: RateLimitGroup) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.merchantConfig || !rateLimitService.isEnabled()) {
+      next();
+      return;
+    }
+
+    const resolvedGroup = group ?? (req.method === 'GET' || req.method === 'HEAD' ? 'reads' : 'orders');
+    if (applyResult(res, rateLimitService.consume(req.merchantConfig, resolvedGroup), resolvedGroup)) {
+      next();
+    }
+  };
+}
+
+/**
+ * Middleware that limits the checkouts one client IP opens through a payment link (/pay/:slug)
+ */
+export function payLinkRateLimit() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!rateLimitService.isEnabled()) {
+      next();
+      return;
+    }
+
+    const result = rateLimitService.consumePayLinkVisit(req.params['slug'] as string, req.ip ?? 'unknown');
+    if (applyResult(res, result, 'pay_link')) {
+      next();
+    }
+  };
+}
+
+/**
+ * Middleware that limits the returns from Viva checkout (/payment/success, /payment/failure) per client IP
+ */
+export function paymentRedirectRateLimit() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!rateLimitService.isEnabled()) {
+      next();
+      return;
+    }
+
+    const result = rateLimitService.consumePaymentRedirect(req.ip ?? 'unknown');
+    if (applyResult(res, result, 'payment_redirect')) {
+      next();
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from 'express';
+import { parse } from '../validation/schema.js';
+import type { Schema } from '../validation/schema.js';
+
+/**
+ * Validate req.body against a schema, replacing it with the parsed value
+ * (unknown fields stripped). Responds 400 listing every field error.
+ */
+export function validateBody<T>(schema: Schema<T>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = parse(schema, req.body ?? {});
+
+    if (!result.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: result.issues,
+      });
+      return;
+    }
+
+    req.body = result.data;
+    next();
+  };
+}
+
+/**
+ * Validate req.query against a schema, replacing it with the parsed value
+ * (numbers and dates coerced, unknown parameters stripped)
+ */
+export function validateQuery<T>(schema: Schema<T>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = parse(schema, req.query);
+
+    if (!result.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: result.issues,
+      });
+      return;
+    }
+
+    // req.query is a getter in Express 5, so shadow it on the request instance
+    Object.defineProperty(req, 'query', {
+      value: result.data,
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
+    next();
+  };
+}
+
+/**
+ * Validate req.params against a schema, replacing them with the parsed value
+ */
+export function validateParams<T>(schema: Schema<T>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = parse(schema, req.params);
+
+    if (!result.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: result.issues,
+      });
+      return;
+    }
+
+    req.params = result.data as Request['params'];
+    next();
+  };
+}
@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+import { createVivaMockServer } from './viva-mock.server.js';
+import { loadMerchantConfigs, getAllMerchants } from '../config/merchant.config.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Standalone mock Viva Wallet server for local development.
+ * Serves every merchant configured with MERCHANT_{key}_VIVA_ENVIRONMENT=mock,
+ * using the same credentials the middleware will present.
+ */
+loadMerchantConfigs();
+
+const port = Number(process.env.VIVA_MOCK_PORT) || 4000;
+const middlewareUrl = process.env.VIVA_MOCK_WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+const accounts = getAllMerchants()
+  .filter((merchant) => merchant.environment === 'mock')
+  .map((merchant) => ({
+    merchantKey: merchant.merchantKey,
+    clientId: merchant.vivaConfig.clientId,
+    clientSecret: merchant.vivaConfig.clientSecret,
+    merchantId: merchant.vivaConfig.merchantId,
+    apiKey: merchant.vivaConfig.apiKey,
+    webhookSecret: merchant.webhookSecret,
+  }));
+
+const app = createVivaMockServer({
+  accounts,
+  webhookBaseUrl: middlewareUrl,
+  successUrl: `${middlewareUrl}/payment/success`,
+  failureUrl: `${middlewareUrl}/payment/failure`,
+});
+
+app.listen(port, () => {
+  console.log(`🧪 Mock Viva Wallet server running at http://localhost:${port}`);
+  console.log(`   Sending webhooks to ${middlewareUrl}/api/webhooks/viva/:merchantKey`);
+
+  if (accounts.length === 0) {
+    console.warn('⚠️  No merchants with VIVA_ENVIRONMENT=mock found. Set MERCHANT_{key}_VIVA_ENVIRONMENT=mock.');
+  }
+  for (const account of accounts) {
+    console.log(`   📌 ${account.merchantKey}`);
+  }
+});
@@ -0,0 +1,674 @@
+import express from 'express';
+import type { Express, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import axios from 'axios';
+import { OrderState, TransactionStatus, TransactionType, WebhookEventTypeId } from '../types/viva.types.js';
+import type {
+  CreatePaymentOrderRequest,
+  CreateTransactionRequest,
+  LegacyTransaction,
+  ListTransactionsResponse,
+  RetrieveOrderResponse,
+  RetrieveTransactionResponse,
+  UpdateOrderRequest,
+  VivaErrorResponse,
+  VivaWallet,
+  OrderUpdatedEventData,
+  TransactionEventData,
+  WebhookEnvelope,
+} from '../types/viva.types.js';
+
+/**
+ * Merchant account known to the mock server
+ */
+export interface MockVivaAccount {
+  merchantKey: string; // Used to build the middleware webhook URL
+  clientId: string;
+  clientSecret: string;
+  merchantId: string;
+  apiKey: string;
+  webhookSecret?: string | undefined;
+}
+
+export interface MockVivaServerOptions {
+  accounts: MockVivaAccount[];
+  // Base URL of the middleware; webhooks go to {webhookBaseUrl}/api/webhooks/viva/{merchantKey}
+  webhookBaseUrl?: string | undefined;
+  // Browser redirects after checkout (Viva appends ?t=&s=&lang=)
+  successUrl?: string | undefined;
+  failureUrl?: string | undefined;
+  // Send webhooks at all (default true)
+  sendWebhooks?: boolean | undefined;
+}
+
+interface MockOrder {
+  orderCode: number;
+  account: MockVivaAccount;
+  request: CreatePaymentOrderRequest;
+  amount: number; // Cents
+  stateId: OrderState;
+  expirationDate: string;
+  createdAt: string;
+}
+
+interface MockTransaction {
+  transactionId: string;
+  orderCode: number;
+  account: MockVivaAccount;
+  amount: number; // Cents
+  statusId: string;
+  transactionTypeId: TransactionType;
+  parentTransactionId?: string | undefined;
+  email: string;
+  fullName: string;
+  cardNumber: string;
+  cardTypeId: number;
+  insDate: string;
+  merchantTrns: string;
+  customerTrns: string;
+  tags: string[];
+  sourceCode: string;
+  currencyCode: string;
+  recurringSupport: boolean;
+}
+
+// Cards that the hosted checkout page declines
+const DECLINED_CARDS = new Set(['4000000000000002']);
+
+const EUR_NUMERIC = '978';
+
+/**
+ * Create an Express app that imitates the subset of the Viva Wallet APIs used
+ * by VivaWalletService, plus a hosted checkout page that completes payments
+ * and sends signed webhooks back to the middleware.
+ *
+ * A single app serves the auth, API and checkout hosts, so a merchant in the
+ * "mock" environment points all of its Viva URLs at it.
+ */
+export function createVivaMockServer(options: MockVivaServerOptions): Express {
+  const app = express();
+  const tokens = new Map<string, MockVivaAccount>();
+  const orders = new Map<number, MockOrder>();
+  const transactions = new Map<string, MockTransaction>();
+  const cardTokens = new Map<string, string>(); // token -> transactionId
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  // ---- Helpers ----
+
+  function errorBody(errorCode: number, errorText: string): VivaErrorResponse {
+    return {
+      ErrorCode: errorCode,
+      ErrorText: errorText,
+      TimeStamp: new Date().toISOString(),
+      CorrelationId: crypto.randomUUID(),
+      EventId: errorCode,
+      Success: false,
+    };
+  }
+
+  function decodeBasic(req: Request): [string, string] | undefined {
+    const header = req.headers.authorization;
+    if (!header?.startsWith('Basic ')) return undefined;
+    const [user, ...rest] = Buffer.from(header.slice(6), 'base64').toString('utf8').split(':');
+    return user !== undefined ? [user, rest.join(':')] : undefined;
+  }
+
+  // Account resolved by bearerAuth/basicAuth
+  function getAccount(res: Response): MockVivaAccount {
+    return res.locals['account'] as MockVivaAccount;
+  }
+
+  // OAuth2 Bearer auth (modern APIs)
+  function bearerAuth(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers.authorization;
+    const account = header?.startsWith('Bearer ') ? tokens.get(header.slice(7)) : undefined;
+    if (!account) {
+      res.status(401).json(errorBody(401, 'Invalid or expired access token'));
+      return;
+    }
+    res.locals['account'] = account;
+    next();
+  }
+
+  // Basic auth with merchantId:apiKey (legacy APIs)
+  function basicAuth(req: Request, res: Response, next: NextFunction): void {
+    const credentials = decodeBasic(req);
+    const account = credentials
+      ? options.accounts.find((a) => a.merchantId === credentials[0] && a.apiKey === credentials[1])
+      : undefined;
+    if (!account) {
+      res.status(401).json(errorBody(401, 'Invalid merchant credentials'));
+      return;
+    }
+    res.locals['account'] = account;
+    next();
+  }
+
+  function generateOrderCode(): number {
+    // 16 digits, kept below Number.MAX_SAFE_INTEGER
+    return 1000000000000000 + crypto.randomInt(0, 2 ** 47);
+  }
+
+  function findOrder(req: Request, res: Response): MockOrder | undefined {
+    const order = orders.get(Number(req.params['orderCode']));
+    if (!order || order.account !== getAccount(res)) {
+      res.status(404).json(errorBody(404, 'Order not found'));
+      return undefined;
+    }
+    return order;
+  }
+
+  function findTransaction(req: Request, res: Response, transactionId: string): MockTransaction | undefined {
+    const transaction = transactions.get(transactionId);
+    if (!transaction || transaction.account !== getAccount(res)) {
+      res.status(404).json(errorBody(404, 'Transaction not found'));
+      return undefined;
+    }
+    return transaction;
+  }
+
+  // Amount still reversible on a transaction (cents)
+  function getRemainingAmount(transaction: MockTransaction): number {
+    const reversed = Array.from(transactions.values())
+      .filter((t) => t.parentTransactionId === transaction.transactionId && t.statusId === TransactionStatus.Success &&
+        (t.transactionTypeId === TransactionType.Refund || t.transactionTypeId === TransactionType.FastRefund ||
+          t.transactionTypeId === TransactionType.Void || t.transactionTypeId === TransactionType.Capture))
+      .reduce((sum, t) => sum + t.amount, 0);
+    return transaction.amount - reversed;
+  }
+
+  function createMockTransaction(
+    base: Omit<MockTransaction, 'transactionId' | 'insDate'>
+  ): MockTransaction {
+    const transaction: MockTransaction = {
+      ...base,
+      transactionId: crypto.randomUUID(),
+      insDate: new Date().toISOString(),
+    };
+    transactions.set(transaction.transactionId, transaction);
+    return transaction;
+  }
+
+  function transactionResult(transaction: MockTransaction) {
+    return {
+      Emv: null,
+      Amount: transaction.amount / 100,
+      StatusId: transaction.statusId,
+      CurrencyCode: Number(transaction.currencyCode),
+      TransactionId: transaction.transactionId,
+      ReferenceNumber: crypto.randomInt(100000, 999999),
+      AuthorizationId: crypto.randomInt(100000, 999999),
+      RetrievalReferenceNumber: crypto.randomInt(100000000, 999999999),
+      ThreeDSecureStatusId: 2,
+      ErrorCode: 0,
+      ErrorText: null,
+      TimeStamp: transaction.insDate,
+      CorrelationId: null,
+      EventId: 0,
+      Success: transaction.statusId === TransactionStatus.Success,
+    };
+  }
+
+  /**
+   * POST a signed webhook to the middleware
+   */
+  async function postWebhook(account: MockVivaAccount, eventTypeId: number, eventData: object): Promise<void> {
+    if (options.sendWebhooks === false || !options.webhookBaseUrl) return;
+
+    const url = `${options.webhookBaseUrl}/api/webhooks/viva/${account.merchantKey}`;
+    const payload: WebhookEnvelope<number, object> = {
+      Url: url,
+      EventTypeId: eventTypeId,
+      Created: new Date().toISOString(),
+      CorrelationId: crypto.randomUUID(),
+      MessageId: crypto.randomUUID(),
+      MessageTypeId: 512,
+      RecipientId: account.merchantId,
+      EventData: eventData,
+    };
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (account.webhookSecret) {
+      headers['Viva-Signature-256'] = crypto
+        .createHmac('sha256', account.webhookSecret)
+        .update(body)
+        .digest('hex');
+    }
+
+    try {
+      await axios.post(url, body, { headers, timeout: 10000 });
+    } catch (error) {
+      console.error(`Mock Viva: failed to deliver webhook ${eventTypeId}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * POST a signed webhook for a transaction to the middleware
+   */
+  async function sendWebhook(eventTypeId: number, transaction: MockTransaction): Promise<void> {
+    const eventData: TransactionEventData = {
+      TransactionId: transaction.transactionId,
+      OrderCode: transaction.orderCode,
+      ...(transaction.parentTransactionId ? { ParentId: transaction.parentTransactionId } : {}),
+      TransactionTypeId: transaction.transactionTypeId,
+      StatusId: transaction.statusId,
+      Amount: transaction.amount / 100,
+      CurrencyCode: transaction.currencyCode,
+      Email: transaction.email,
+      FullName: transaction.fullName,
+      InsDate: transaction.insDate,
+      CardNumber: transaction.cardNumber,
+      CardTypeId: transaction.cardTypeId,
+      SourceCode: transaction.sourceCode,
+      MerchantTrns: transaction.merchantTrns,
+      CustomerTrns: transaction.customerTrns,
+      Tags: transaction.tags,
+    };
+    await postWebhook(transaction.account, eventTypeId, eventData);
+  }
+
+  /**
+   * POST an Order Updated webhook after an order's state changes
+   */
+  async function sendOrderUpdatedWebhook(order: MockOrder): Promise<void> {
+    const eventData: OrderUpdatedEventData = {
+      OrderCode: order.orderCode,
+      StateId: order.stateId,
+      Amount: order.amount / 100,
+      CurrencyCode: order.request.currencyCode ?? EUR_NUMERIC,
+      ...(order.request.merchantTrns ? { MerchantTrns: order.request.merchantTrns } : {}),
+      ExpirationDate: order.expirationDate,
+    };
+    await postWebhook(order.account, WebhookEventTypeId.OrderUpdated, eventData);
+  }
+
+  // ---- OAuth2 ----
+
+  app.post('/connect/token', (req: Request, res: Response) => {
+    const credentials = decodeBasic(req);
+    const account = credentials
+      ? options.accounts.find((a) => a.clientId === credentials[0] && a.clientSecret === credentials[1])
+      : undefined;
+
+    if (!account || req.body?.grant_type !== 'client_credentials') {
+      res.status(400).json({ error: 'invalid_client' });
+      return;
+    }
+
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    tokens.set(accessToken, account);
+
+    res.json({
+      access_token: accessToken,
+      expires_in: 3600,
+      token_type: 'Bearer',
+      scope: 'urn:viva:payments:core:api:redirectcheckout',
+    });
+  });
+
+  // ---- Orders ----
+
+  app.post('/checkout/v2/orders', bearerAuth, (req: Request, res: Response) => {
+    const request = req.body as CreatePaymentOrderRequest;
+
+    if (typeof request.amount !== 'number' || (request.amount < 30 && !request.isCardVerification)) {
+      res.status(400).json(errorBody(400, 'Invalid amount'));
+      return;
+    }
+
+    const orderCode = generateOrderCode();
+    const timeout = request.paymentTimeout ?? 1800;
+    orders.set(orderCode, {
+      orderCode,
+      account: getAccount(res),
+      request,
+      amount: request.amount,
+      stateId: OrderState.Pending,
+      expirationDate: new Date(Date.now() + timeout * 1000).toISOString(),
+      createdAt: new Date().toISOString(),
+    });
+
+    res.json({ orderCode });
+  });
+
+  app.get('/api/orders/:orderCode', basicAuth, (req: Request, res: Response) => {
+    const order = findOrder(req, res);
+    if (!order) return;
+
+    // Unpaid orders expire at their expiration date
+    if (order.stateId === OrderState.Pending && new Date(order.expirationDate).getTime() <= Date.now()) {
+      order.stateId = OrderState.Expired;
+    }
+
+    const response: RetrieveOrderResponse = {
+      OrderCode: order.orderCode,
+      SourceCode: order.request.sourceCode ?? 'Default',
+      Tags: order.request.tags ?? [],
+      TipAmount: (order.request.tipAmount ?? 0) / 100,
+      RequestLang: order.request.customer?.requestLang ?? 'en-GB',
+      MerchantTrns: order.request.merchantTrns ?? '',
+      CustomerTrns: order.request.customerTrns ?? '',
+      MaxInstallments: order.request.maxInstallments ?? 0,
+      RequestAmount: order.amount / 100,
+      ExpirationDate: order.expirationDate,
+      StateId: order.stateId,
+    };
+    res.json(response);
+  });
+
+  app.patch('/api/orders/:orderCode', basicAuth, async (req: Request, res: Response) => {
+    const order = findOrder(req, res);
+    if (!order) return;
+
+    const update = req.body as UpdateOrderRequest;
+    if (update.amount !== undefined) order.amount = update.amount;
+    if (update.expirationDate !== undefined) order.expirationDate = update.expirationDate;
+    if (update.isCanceled) order.stateId = OrderState.Canceled;
+    await sendOrderUpdatedWebhook(order);
+    res.json({});
+  });
+
+  app.delete('/api/orders/:orderCode', basicAuth, async (req: Request, res: Response) => {
+    const order = findOrder(req, res);
+    if (!order) return;
+
+    order.stateId = OrderState.Canceled;
+    await sendOrderUpdatedWebhook(order);
+    res.json({ OrderCode: order.orderCode, ErrorCode: 0, ErrorText: null, Success: true });
+  });
+
+  // ---- Transactions ----
+
+  app.get('/checkout/v2/transactions/:transactionId', bearerAuth, (req: Request, res: Response) => {
+    const transaction = findTransaction(req, res, req.params['transactionId'] as string);
+    if (!transaction) return;
+
+    const response: RetrieveTransactionResponse = {
+      email: transaction.email,
+      bankId: 'MOCK',
+      amount: transaction.amount / 100,
+      conversionRate: 1,
+      originalAmount: transaction.amount / 100,
+      originalCurrencyCode: transaction.currencyCode,
+      sourceCode: transaction.sourceCode,
+      switching: false,
+      orderCode: transaction.orderCode,
+      statusId: transaction.statusId,
+      fullName: transaction.fullName,
+      insDate: transaction.insDate,
+      cardNumber: transaction.cardNumber,
+      currencyCode: transaction.currencyCode,
+      customerTrns: transaction.customerTrns,
+      merchantTrns: transaction.merchantTrns,
+      transactionTypeId: transaction.transactionTypeId,
+      recurringSupport: transaction.recurringSupport,
+      totalInstallments: 0,
+      cardCountryCode: 'GR',
+      cardUniqueReference: crypto.createHash('sha1').update(transaction.cardNumber).digest('hex'),
+      cardIssuingBank: null,
+      currentInstallment: 0,
+      cardTypeId: transaction.cardTypeId,
+      cardExpirationDate: '2030-12-31T00:00:00',
+      digitalWalletId: 0,
+    };
+    res.json(response);
+  });
+
+  // Legacy transaction list: GET /api/transactions?ordercode= or ?date=YYYY-MM-DD
+  app.get('/api/transactions', basicAuth, (req: Request, res: Response) => {
+    const orderCode = req.query['ordercode'] ? Number(req.query['ordercode']) : undefined;
+    const date = typeof req.query['date'] === 'string' ? req.query['date'] : undefined;
+    if (orderCode === undefined && !date) {
+      res.status(400).json(errorBody(400, 'ordercode or date is required'));
+      return;
+    }
+
+    const account = getAccount(res);
+    const listed: LegacyTransaction[] = Array.from(transactions.values())
+      .filter((t) => t.account === account &&
+        (orderCode === undefined || t.orderCode === orderCode) &&
+        (!date || t.insDate.startsWith(date)))
+      .map((t) => ({
+        TransactionId: t.transactionId,
+        ParentId: t.parentTransactionId ?? null,
+        StatusId: t.statusId,
+        Amount: t.amount / 100,
+        InsDate: t.insDate,
+        CurrencyCode: t.currencyCode,
+        SourceCode: t.sourceCode,
+        MerchantTrns: t.merchantTrns,
+        CustomerTrns: t.customerTrns,
+        Email: t.email,
+        FullName: t.fullName,
+        CreditCard: { Number: t.cardNumber, CardType: { CardTypeId: t.cardTypeId } },
+        TransactionType: { TransactionTypeId: t.transactionTypeId },
+        Order: { OrderCode: t.orderCode, Tags: t.tags },
+      }));
+
+    const response: ListTransactionsResponse = {
+      Transactions: listed,
+      ErrorCode: 0,
+      ErrorText: null,
+      TimeStamp: new Date().toISOString(),
+      CorrelationId: null,
+      EventId: 0,
+      Success: true,
+    };
+    res.json(response);
+  });
+
+  // Recurring charge or pre-auth capture
+  app.post('/api/transactions/:transactionId', basicAuth, async (req: Request, res: Response) => {
+    const original = findTransaction(req, res, req.params['transactionId'] as string);
+    if (!original) return;
+
+    const request = req.body as CreateTransactionRequest;
+    if (typeof request.amount !== 'number' || request.amount <= 0) {
+      res.status(400).json(errorBody(400, 'Invalid amount'));
+      return;
+    }
+
+    const isCapture = original.transactionTypeId === TransactionType.PreAuth;
+    if (!isCapture && !original.recurringSupport) {
+      res.status(403).json(errorBody(403, 'Transaction does not support recurring payments'));
+      return;
+    }
+    if (isCapture && request.amount > getRemainingAmount(original)) {
+      res.status(409).json(errorBody(409, 'Capture amount exceeds authorized amount'));
+      return;
+    }
+
+    const transaction = createMockTransaction({
+      ...original,
+      amount: request.amount,
+      statusId: TransactionStatus.Success,
+      transactionTypeId: isCapture ? TransactionType.Capture : TransactionType.Charge,
+      parentTransactionId: original.transactionId,
+      merchantTrns: request.merchantTrns ?? original.merchantTrns,
+      customerTrns: request.customerTrns ?? original.customerTrns,
+    });
+
+    await sendWebhook(1796, transaction);
+    res.json(transactionResult(transaction));
+  });
+
+  // Cancel / refund
+  app.delete('/api/transactions/:transactionId', basicAuth, async (req: Request, res: Response) => {
+    const original = findTransaction(req, res, req.params['transactionId'] as string);
+    if (!original) return;
+
+    const remaining = getRemainingAmount(original);
+    const amount = req.query['amount'] !== undefined ? Number(req.query['amount']) : remaining;
+
+    if (!(amount > 0) || amount > remaining) {
+      res.status(400).json(errorBody(400, 'Refund amount exceeds the remaining amount'));
+      return;
+    }
+
+    const transaction = createMockTransaction({
+      ...original,
+      amount,
+      statusId: TransactionStatus.Success,
+      transactionTypeId: original.transactionTypeId === TransactionType.PreAuth ? TransactionType.Void : TransactionType.Refund,
+      parentTransactionId: original.transactionId,
+    });
+
+    await sendWebhook(1797, transaction);
+    res.json(transactionResult(transaction));
+  });
+
+  // Fast refund: POST /acquiring/v1/transactions/{id}:fastrefund
+  app.post('/acquiring/v1/transactions/:transactionAction', bearerAuth, async (req: Request, res: Response) => {
+    const [transactionId, action] = (req.params['transactionAction'] as string).split(':');
+    if (action !== 'fastrefund' || !transactionId) {
+      res.status(404).json(errorBody(404, 'Not found'));
+      return;
+    }
+
+    const original = findTransaction(req, res, transactionId);
+    if (!original) return;
+
+    const amount = Number(req.body?.amount);
+    if (!(amount > 0) || amount > getRemainingAmount(original)) {
+      res.status(400).json(errorBody(400, 'Refund amount exceeds the remaining amount'));
+      return;
+    }
+
+    const transaction = createMockTransaction({
+      ...original,
+      amount,
+      statusId: TransactionStatus.Success,
+      transactionTypeId: TransactionType.FastRefund,
+      parentTransactionId: original.transactionId,
+      merchantTrns: req.body?.merchantTrns ?? original.merchantTrns,
+    });
+
+    await sendWebhook(1797, transaction);
+    res.json({ transactionId: transaction.transactionId });
+  });
+
+  // ---- Card tokens ----
+
+  app.post('/acquiring/v1/cards/tokens', bearerAuth, (req: Request, res: Response) => {
+    const transaction = findTransaction(req, res, String(req.body?.transactionId ?? ''));
+    if (!transaction) return;
+
+    const token = crypto.randomBytes(16).toString('hex').toUpperCase();
+    cardTokens.set(token, transaction.transactionId);
+    res.json({ token });
+  });
+
+  // ---- Wallets ----
+
+  app.get('/merchants/v1/wallets', bearerAuth, (req: Request, res: Response) => {
+    const wallet: VivaWallet = {
+      iban: 'GR0000000000000000000000000',
+      walletId: 1,
+      amount: 0,
+      isPrimary: true,
+      available: 0,
+      overdraft: 0,
+      currencyCode: Number(EUR_NUMERIC),
+      friendlyName: `${getAccount(res).merchantKey} (mock)`,
+    };
+    res.json([wallet]);
+  });
+
+  // ---- Webhook verification token ----
+
+  app.get('/api/messages/config/token', basicAuth, (req: Request, res: Response) => {
+    res.json({ Key: crypto.createHash('sha256').update(getAccount(res).merchantId).digest('hex').slice(0, 32).toUpperCase() });
+  });
+
+  // ---- Hosted checkout ----
+
+  app.get('/web/checkout', (req: Request, res: Response) => {
+    const order = orders.get(Number(req.query['ref']));
+    if (!order) {
+      res.status(404).send('<h1>Order not found</h1>');
+      return;
+    }
+
+    const successUrl = typeof req.query['successUrl'] === 'string' ? req.query['successUrl'] : '';
+    const failureUrl = typeof req.query['failureUrl'] === 'string' ? req.query['failureUrl'] : '';
+    const escape = (value: string) =>
+      value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+    // Saved cards offered through the order's cardTokens
+    const savedCards = (order.request.cardTokens ?? [])
+      .map((token) => transactions.get(cardTokens.get(token) ?? ''))
+      .filter((transaction): transaction is MockTransaction => !!transaction)
+      .map((transaction) => `<li class="saved-card">${escape(transaction.cardNumber)}</li>`);
+
+    res.type('html').send(`<!DOCTYPE html>
+<html>
+<head><title>Mock Viva Checkout</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto;">
+  <h1>Mock Viva Checkout</h1>
+  <p>Order <strong>${order.orderCode}</strong></p>
+  <p>${escape(order.request.customerTrns ?? '')}</p>
+  <p>Amount: <strong>${(order.amount / 100).toFixed(2)}</strong></p>
+  ${savedCards.length > 0 ? `<p>Saved cards</p><ul>${savedCards.join('')}</ul>` : ''}
+  <form method="post" action="/web/checkout/pay">
+    <input type="hidden" name="ref" value="${order.orderCode}">
+    <input type="hidden" name="successUrl" value="${escape(successUrl)}">
+    <input type="hidden" name="failureUrl" value="${escape(failureUrl)}">
+    ${order.request.disableExactAmount ? `<label>Amount (cents) <input name="amount" value="${order.amount}"></label><br>` : ''}
+    <label>Card number <input name="cardNumber" value="4111111111111111"></label><br>
+    <button type="submit" name="action" value="pay">Pay</button>
+    <button type="submit" name="action" value="cancel">Cancel</button>
+  </form>
+</body>
+</html>`);
+  });
+
+  app.post('/web/checkout/pay', async (req: Request, res: Response) => {
+    const order = orders.get(Number(req.body?.ref));
+    if (!order || order.stateId !== OrderState.Pending) {
+      res.status(404).send('<h1>Order not found or no longer payable</h1>');
+      return;
+    }
+
+    const cardNumber = String(req.body?.cardNumber ?? '4111111111111111').replace(/\s/g, '');
+    const declined = req.body?.action === 'cancel' || DECLINED_CARDS.has(cardNumber);
+    const amount = order.request.disableExactAmount && req.body?.amount ? Number(req.body.amount) : order.amount;
+
+    const transaction = createMockTransaction({
+      orderCode: order.orderCode,
+      account: order.account,
+      amount,
+      statusId: declined ? TransactionStatus.Error : TransactionStatus.Success,
+      transactionTypeId: order.request.preauth ? TransactionType.PreAuth : TransactionType.Charge,
+      email: order.request.customer?.email ?? 'customer@example.com',
+      fullName: order.request.customer?.fullName ?? 'Mock Customer',
+      cardNumber: `${cardNumber.slice(0, 6)}******${cardNumber.slice(-4)}`,
+      cardTypeId: cardNumber.startsWith('5') ? 1 : 0,
+      merchantTrns: order.request.merchantTrns ?? '',
+      customerTrns: order.request.customerTrns ?? '',
+      tags: order.request.tags ?? [],
+      sourceCode: order.request.sourceCode ?? 'Default',
+      currencyCode: order.request.currencyCode ?? EUR_NUMERIC,
+      recurringSupport: !!order.request.allowRecurring,
+    });
+
+    if (!declined) {
+      order.stateId = OrderState.Paid;
+    }
+
+    await sendWebhook(declined ? 1798 : 1796, transaction);
+
+    const requestedUrl = declined ? req.body?.failureUrl : req.body?.successUrl;
+    const baseUrl = requestedUrl || (declined ? options.failureUrl : options.successUrl);
+    if (!baseUrl) {
+      res.json({ transactionId: transaction.transactionId, orderCode: order.orderCode, statusId: transaction.statusId });
+      return;
+    }
+
+    const separator = baseUrl.includes('?') ? '&' : '?';
+    res.redirect(302, `${baseUrl}${separator}t=${transaction.transactionId}&s=${order.orderCode}&lang=en-GB`);
+  });
+
+  return app;
+}
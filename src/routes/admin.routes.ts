@@ -0,0 +1,203 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { merchantAdminService } from '../services/merchant-admin.service.js';
+import { validateBody, validateQuery } from '../middleware/validation.middleware.js';
+import {
+  createMerchantSchema,
+  issueApiKeySchema,
+  revokeApiKeyQuerySchema,
+  updateMerchantSchema,
+} from '../validation/merchant.schemas.js';
+import type { Infer } from '../validation/schema.js';
+import type { ManagedApiKey, ManagedMerchant, MerchantApiKey } from '../types/merchant-admin.types.js';
+
+const router = Router();
+
+/**
+ * An API key as listed: identified by ID and last four characters, never the key or its hash
+ */
+function toApiKeyResponse(apiKey: ManagedApiKey | MerchantApiKey) {
+  const { keyHash: _keyHash, ...rest } = apiKey as MerchantApiKey;
+  return {
+    ...rest,
+    active: !apiKey.expiresAt || new Date(apiKey.expiresAt) > new Date(),
+  };
+}
+
+/**
+ * A merchant without its secrets (Viva client secret and API key, webhook and redirect secrets)
+ */
+function toMerchantResponse(merchant: ManagedMerchant) {
+  const { settings } = merchant;
+  return {
+    merchantKey: merchant.merchantKey,
+    source: merchant.source,
+    disabled: merchant.disabled,
+    overridden: merchant.overridden,
+    environment: settings.environment,
+    viva: {
+      clientId: settings.viva.clientId,
+      merchantId: settings.viva.merchantId,
+      sourceCode: settings.viva.sourceCode,
+    },
+    webhookUrl: `/api/webhooks/viva/${merchant.merchantKey}`,
+    webhookSecretSet: !!settings.webhookSecret,
+    webhookStrict: settings.webhookStrict,
+    redirectSecretSet: !!settings.redirectSecret,
+    rateLimits: settings.rateLimits ?? {},
+    apiKeys: merchant.apiKeys.map(toApiKeyResponse),
+    createdAt: merchant.createdAt,
+    updatedAt: merchant.updatedAt,
+  };
+}
+
+/**
+ * Load the merchant named in the URL, or respond 404
+ */
+function findMerchant(req: Request, res: Response): ManagedMerchant | undefined {
+  const merchant = merchantAdminService.getMerchant(req.params['merchantKey'] as string);
+
+  if (!merchant) {
+    res.status(404).json({ error: 'Merchant not found' });
+    return undefined;
+  }
+  return merchant;
+}
+
+/**
+ * List all merchants, disabled ones included
+ * GET /api/admin/merchants
+ */
+router.get('/merchants', (_req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    merchants: merchantAdminService.listMerchants().map(toMerchantResponse),
+  });
+});
+
+/**
+ * Get a merchant
+ * GET /api/admin/merchants/:merchantKey
+ */
+router.get('/merchants/:merchantKey', (req: Request, res: Response): void => {
+  const merchant = findMerchant(req, res);
+  if (!merchant) return;
+
+  res.json({
+    success: true,
+    merchant: toMerchantResponse(merchant),
+  });
+});
+
+/**
+ * Onboard a merchant; its first API key is returned once, in the response
+ * POST /api/admin/merchants
+ *
+ * Request Body:
+ * - merchantKey: Letters, digits, "_" and "-"
+ * - environment: demo | production | mock (default: demo)
+ * - viva: { clientId, clientSecret, merchantId?, apiKey?, sourceCode? }
+ * - webhookSecret, webhookStrict, redirectSecret, rateLimits: As in the env / file config
+ * - apiKeyLabel: Label of the first API key
+ * - apiKeyScopes: Scopes of the first API key (default: ["*"], all)
+ */
+router.post('/merchants', validateBody(createMerchantSchema), (req: Request, res: Response): void => {
+  const input = req.body as Infer<typeof createMerchantSchema>;
+
+  const created = merchantAdminService.createMerchant(input);
+  if (!created) {
+    res.status(409).json({ error: 'Merchant key already in use' });
+    return;
+  }
+
+  console.log(`Merchant ${input.merchantKey} created through the admin API`);
+
+  res.status(201).json({
+    success: true,
+    merchant: toMerchantResponse(created.merchant),
+    apiKey: { ...toApiKeyResponse(created.apiKey), key: created.key },
+  });
+});
+
+/**
+ * Update a merchant's settings, or disable / re-enable it. Disabled merchants
+ * are rejected on every API request and webhook until re-enabled.
+ * PATCH /api/admin/merchants/:merchantKey
+ *
+ * Request Body (all optional):
+ * - disabled: boolean
+ * - environment, webhookSecret, webhookStrict, redirectSecret
+ * - rateLimits: { orders?, refunds?, reads? }, replacing the current overrides
+ * - viva: { clientId?, clientSecret?, merchantId?, apiKey?, sourceCode? }
+ */
+router.patch('/merchants/:merchantKey', validateBody(updateMerchantSchema), (req: Request, res: Response): void => {
+  const merchant = findMerchant(req, res);
+  if (!merchant) return;
+
+  const updated = merchantAdminService.updateMerchant(merchant, req.body as Infer<typeof updateMerchantSchema>);
+  console.log(`Merchant ${merchant.merchantKey} updated through the admin API`);
+
+  res.json({
+    success: true,
+    merchant: toMerchantResponse(updated),
+  });
+});
+
+/**
+ * Issue an API key; the merchant's other keys keep working until revoked.
+ * The key is returned once, in the response.
+ * POST /api/admin/merchants/:merchantKey/api-keys
+ *
+ * Request Body:
+ * - label: Free text, e.g. "checkout server"
+ * - scopes: e.g. ["orders:read", "orders:write"] (default: ["*"], all)
+ * - expiresInSeconds: Key stops working after this long (default: never)
+ */
+router.post('/merchants/:merchantKey/api-keys', validateBody(issueApiKeySchema), (req: Request, res: Response): void => {
+  const merchant = findMerchant(req, res);
+  if (!merchant) return;
+
+  const issued = merchantAdminService.issueApiKey(merchant, req.body as Infer<typeof issueApiKeySchema>);
+
+  res.status(201).json({
+    success: true,
+    apiKey: { ...toApiKeyResponse(issued.apiKey), key: issued.key },
+  });
+});
+
+/**
+ * Revoke an API key, optionally after a grace period for clients still switching over.
+ * Keys from env vars or the registry file are removed there instead (409).
+ * DELETE /api/admin/merchants/:merchantKey/api-keys/:keyId
+ *
+ * Query:
+ * - graceSeconds: Keep accepting the key this long (default: 0, max 30 days)
+ */
+router.delete(
+  '/merchants/:merchantKey/api-keys/:keyId',
+  validateQuery(revokeApiKeyQuerySchema),
+  (req: Request, res: Response): void => {
+    const merchant = findMerchant(req, res);
+    if (!merchant) return;
+
+    const keyId = req.params['keyId'] as string;
+    if (merchant.apiKeys.some((apiKey) => apiKey.id === keyId && apiKey.source === 'config')) {
+      res.status(409).json({ error: 'API key is configured in env vars or the registry file; remove it there to revoke it' });
+      return;
+    }
+
+    const { graceSeconds } = req.query as Infer<typeof revokeApiKeyQuerySchema>;
+    const apiKey = merchantAdminService.revokeApiKey(merchant, keyId, graceSeconds);
+    if (!apiKey) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      apiKey: toApiKeyResponse(apiKey),
+    });
+  }
+);
+
+export default router;
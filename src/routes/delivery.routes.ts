@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { webhookDeliveryLog } from '../services/webhook-delivery-log.service.js';
+import { webhookDeliveryQueue } from '../services/webhook-delivery-queue.service.js';
+import type { WebhookDelivery } from '../services/webhook-delivery-queue.service.js';
+
+const router = Router();
+
+const DELIVERY_STATUSES: ReadonlyArray<WebhookDelivery['status']> = ['pending', 'delivered', 'dead_lettered'];
+
+// Helper to safely get query param as string or undefined
+function getQueryParam(query: Record<string, unknown>, key: string): string | undefined {
+  const value = query[key];
+  if (typeof value === 'string') {
+    return value;
+  }
+  return undefined;
+}
+
+/**
+ * Public view of a delivery (never exposes the signing secret)
+ */
+function toDeliveryResponse(delivery: WebhookDelivery) {
+  const { secret, ...rest } = delivery;
+  return {
+    ...rest,
+    signed: !!secret,
+  };
+}
+
+/**
+ * List webhook deliveries for the authenticated merchant
+ * GET /api/webhook-deliveries
+ *
+ * Query:
+ * - orderCode: Only deliveries for this order
+ * - event: Only this event type (e.g. "payment.success")
+ * - status: pending | delivered | dead_lettered
+ * - limit: Max results (default 50, max 500)
+ */
+router.get('/', (req: Request, res: Response): void => {
+  const query = req.query as Record<string, unknown>;
+  const status = getQueryParam(query, 'status');
+  const limit = Math.min(parseInt(getQueryParam(query, 'limit') ?? '50', 10) || 50, 500);
+
+  if (status && !DELIVERY_STATUSES.includes(status as WebhookDelivery['status'])) {
+    res.status(400).json({
+      error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+    });
+    return;
+  }
+
+  const deliveries = webhookDeliveryLog.list({
+    merchantKey: req.merchantKey,
+    orderCode: getQueryParam(query, 'orderCode'),
+    event: getQueryParam(query, 'event'),
+    status: status as WebhookDelivery['status'] | undefined,
+    limit,
+  });
+
+  res.json({
+    success: true,
+    deliveries: deliveries.map(toDeliveryResponse),
+  });
+});
+
+/**
+ * Get a single delivery with its attempt history
+ * GET /api/webhook-deliveries/:deliveryId
+ */
+router.get('/:deliveryId', (req: Request, res: Response): void => {
+  const delivery = webhookDeliveryLog.get(req.params['deliveryId'] as string);
+
+  if (!delivery || delivery.merchantKey !== req.merchantKey) {
+    res.status(404).json({ error: 'Delivery not found' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    delivery: toDeliveryResponse(delivery),
+  });
+});
+
+/**
+ * Send a delivery's payload again to the same URL
+ * POST /api/webhook-deliveries/:deliveryId/redeliver
+ */
+router.post('/:deliveryId/redeliver', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const original = webhookDeliveryLog.get(req.params['deliveryId'] as string);
+
+    if (!original || original.merchantKey !== req.merchantKey) {
+      res.status(404).json({ error: 'Delivery not found' });
+      return;
+    }
+
+    const delivery = await webhookDeliveryQueue.redeliver(original);
+
+    res.status(202).json({
+      success: true,
+      delivered: delivery.status === 'delivered',
+      delivery: toDeliveryResponse(delivery),
+    });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({
+      error: 'Failed to redeliver webhook',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { sendErrorResponse } from '../errors/viva-api.error.js';
+import { paymentLinkService } from '../services/payment-link.service.js';
+import { getServiceByMerchantKey } from '../services/merchant.service.js';
+import { payLinkRateLimit, rateLimit } from '../middleware/rate-limit.middleware.js';
+
+const router = Router();
+
+// Cookie holding the visitor's checkout session, scoped to the link's path
+const SESSION_COOKIE = 'pay_session';
+
+/**
+ * Read the session cookie from the Cookie header
+ */
+function getSessionId(req: Request): string | undefined {
+  for (const cookie of req.headers.cookie?.split(';') ?? []) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) return value.join('=');
+  }
+  return undefined;
+}
+
+/**
+ * Load the link named in the URL, or respond 404 / 410. Sets the link's
+ * merchant on the request, so the visit counts towards its rate limits.
+ */
+function loadActiveLink(req: Request, res: Response, next: NextFunction): void {
+  const link = paymentLinkService.getLink(req.params['slug'] as string);
+
+  if (!link) {
+    res.status(404).json({ error: 'Payment link not found' });
+    return;
+  }
+
+  const status = paymentLinkService.getStatus(link);
+  if (status !== 'active') {
+    res.status(410).json({ error: `Payment link is ${status}`, status });
+    return;
+  }
+
+  req.paymentLink = link;
+  req.merchantConfig = getServiceByMerchantKey(link.merchantKey)?.config;
+  next();
+}
+
+/**
+ * Send a returning visitor back to the checkout they opened, while it can still be paid
+ */
+function reopenCheckout(req: Request, res: Response, next: NextFunction): void {
+  const sessionId = getSessionId(req);
+  const session = sessionId && paymentLinkService.findOpenCheckout(req.paymentLink!, sessionId);
+
+  if (session) {
+    res.redirect(302, session.checkoutUrl);
+    return;
+  }
+  next();
+}
+
+/**
+ * Open a payment link (public, no auth)
+ * GET /pay/:slug
+ *
+ * Creates a new Viva order from the link and redirects the customer to its
+ * checkout page. A visitor coming back (same browser) is sent to the order
+ * they opened while it can still be paid. New orders are limited per client
+ * IP and link, and count towards the merchant's orders rate limit (429).
+ * Responds 404 for unknown links and 410 for links that are inactive,
+ * expired or have reached maxUses. Orders that can still be paid count
+ * towards maxUses; while they take every remaining use, responds 409.
+ */
+router.get(
+  '/:slug',
+  loadActiveLink,
+  reopenCheckout,
+  payLinkRateLimit(),
+  rateLimit('orders'),
+  async (req: Request, res: Response): Promise<void> => {
+    const link = req.paymentLink!;
+
+    try {
+      const checkout = await paymentLinkService.openCheckout(link);
+      if (!checkout) {
+        res.status(409).json({
+          error: 'Every remaining use of this payment link is taken by an open checkout; try again later',
+          status: paymentLinkService.getStatus(link),
+        });
+        return;
+      }
+
+      const { orderCode, checkoutUrl, session } = checkout;
+      console.log(`Payment link ${link.slug} opened order ${orderCode}`);
+
+      if (session) {
+        res.cookie(SESSION_COOKIE, session.id, {
+          path: `/pay/${link.slug}`,
+          maxAge: session.maxAgeMs,
+          httpOnly: true,
+          sameSite: 'lax',
+          secure: req.secure,
+        });
+      }
+      res.redirect(302, checkoutUrl);
+    } catch (error) {
+      console.error('Error opening payment link:', error);
+      sendErrorResponse(res, error, 'Failed to open payment link');
+    }
+  }
+);
+
+export default router;
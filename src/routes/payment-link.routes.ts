@@ -0,0 +1,171 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { paymentLinkService } from '../services/payment-link.service.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware.js';
+import { validateBody, validateQuery } from '../middleware/validation.middleware.js';
+import {
+  createPaymentLinkSchema,
+  updatePaymentLinkSchema,
+  listPaymentLinksQuerySchema,
+} from '../validation/payment-link.schemas.js';
+import type { Infer } from '../validation/schema.js';
+import type { PaymentLink } from '../types/payment-link.types.js';
+
+const router = Router();
+
+/**
+ * Public URL of a link: PUBLIC_BASE_URL if set, else the host the request came to
+ */
+function getLinkUrl(req: Request, slug: string): string {
+  const baseUrl = process.env.PUBLIC_BASE_URL?.replace(/\/+$/, '') || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/pay/${slug}`;
+}
+
+/**
+ * Public view of a link: URL, status and conversion (never exposes the callback secret)
+ */
+function toPaymentLinkResponse(req: Request, link: PaymentLink) {
+  const { merchantKey, callback, openOrders: _openOrders, ...rest } = link;
+  const { stats } = link;
+
+  const response = {
+    ...rest,
+    url: getLinkUrl(req, link.slug),
+    status: paymentLinkService.getStatus(link),
+    stats: {
+      ...stats,
+      conversionRate: stats.visits > 0 ? stats.payments / stats.visits : 0,
+    },
+  };
+  if (!callback) return response;
+
+  const { secret, merchantKey: _callbackMerchantKey, ...publicCallback } = callback;
+  return {
+    ...response,
+    callback: {
+      ...publicCallback,
+      signed: !!secret,
+    },
+  };
+}
+
+/**
+ * Load the authenticated merchant's link, or respond 404
+ */
+function findLink(req: Request, res: Response): PaymentLink | undefined {
+  const link = paymentLinkService.getMerchantLink(req.merchantKey!, req.params['slug'] as string);
+
+  if (!link) {
+    res.status(404).json({ error: 'Payment link not found' });
+    return undefined;
+  }
+  return link;
+}
+
+/**
+ * Create a payment link
+ * POST /api/payment-links
+ * Supports the Idempotency-Key header
+ *
+ * Every visit to the returned url (/pay/:slug) creates a new Viva order
+ * and redirects the customer to its checkout page.
+ *
+ * Request Body:
+ * - amount (required): Amount in cents (minimum 30); prefilled when disableExactAmount
+ * - description (required): Description shown to customer (customerTrns)
+ * - disableExactAmount: Let the customer enter the amount (default: false)
+ * - slug: Custom URL slug, 3-64 of [A-Za-z0-9_-] (default: random)
+ * - currencyCode: ISO 4217 numeric code (default: merchant currency)
+ * - merchantTrns: Merchant reference on every order
+ * - sourceCode: Payment source code
+ * - tags: Transaction tags array
+ * - paymentTimeout: Lifetime of each order in seconds (default: 1800)
+ * - expiresAt: ISO 8601 date after which the link stops opening orders
+ * - maxUses: Payments accepted before the link closes
+ * - callback: Same as for payment orders; registered on every order,
+ *   with metadata.paymentLink set to the slug
+ */
+router.post('/', idempotencyMiddleware, validateBody(createPaymentLinkSchema), (req: Request, res: Response): void => {
+  const { callback, ...input } = req.body as Infer<typeof createPaymentLinkSchema>;
+  const link = paymentLinkService.createLink(req.merchantKey!, {
+    ...input,
+    callback: callback ? { ...callback, merchantKey: req.merchantKey } : undefined,
+  });
+
+  if (!link) {
+    res.status(409).json({ error: 'Slug is already in use' });
+    return;
+  }
+
+  res.status(201).json({
+    success: true,
+    paymentLink: toPaymentLinkResponse(req, link),
+  });
+});
+
+/**
+ * List payment links
+ * GET /api/payment-links
+ *
+ * Query:
+ * - status: active | inactive | expired | exhausted
+ */
+router.get('/', validateQuery(listPaymentLinksQuerySchema), (req: Request, res: Response): void => {
+  const filter = req.query as Infer<typeof listPaymentLinksQuerySchema>;
+
+  res.json({
+    success: true,
+    paymentLinks: paymentLinkService.listLinks(req.merchantKey!, filter).map((link) => toPaymentLinkResponse(req, link)),
+  });
+});
+
+/**
+ * Get a payment link with its usage stats
+ * GET /api/payment-links/:slug
+ */
+router.get('/:slug', (req: Request, res: Response): void => {
+  const link = findLink(req, res);
+  if (!link) return;
+
+  res.json({
+    success: true,
+    paymentLink: toPaymentLinkResponse(req, link),
+  });
+});
+
+/**
+ * Update a payment link (orders already opened are not affected)
+ * PATCH /api/payment-links/:slug
+ *
+ * Request Body:
+ * - amount: New amount in cents
+ * - description: New description
+ * - expiresAt: New expiry date
+ * - maxUses: New payment limit
+ * - active: false to stop opening orders, true to reopen
+ */
+router.patch('/:slug', validateBody(updatePaymentLinkSchema), (req: Request, res: Response): void => {
+  const link = findLink(req, res);
+  if (!link) return;
+
+  res.json({
+    success: true,
+    paymentLink: toPaymentLinkResponse(req, paymentLinkService.updateLink(link, req.body as Infer<typeof updatePaymentLinkSchema>)),
+  });
+});
+
+/**
+ * Deactivate a payment link (its stats are kept)
+ * DELETE /api/payment-links/:slug
+ */
+router.delete('/:slug', (req: Request, res: Response): void => {
+  const link = findLink(req, res);
+  if (!link) return;
+
+  res.json({
+    success: true,
+    paymentLink: toPaymentLinkResponse(req, paymentLinkService.updateLink(link, { active: false })),
+  });
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { sendErrorResponse } from '../errors/viva-api.error.js';
+import { paymentRedirectService } from '../services/payment-redirect.service.js';
+import { validateQuery } from '../middleware/validation.middleware.js';
+import { paymentRedirectRateLimit } from '../middleware/rate-limit.middleware.js';
+import { paymentRedirectQuerySchema } from '../validation/payment.schemas.js';
+import type { Infer } from '../validation/schema.js';
+
+const router = Router();
+
+// Built-in result messages, by verified status
+const RESULT_MESSAGES = {
+  success: 'Payment completed successfully!',
+  pending: 'Payment is being processed.',
+  failed: 'Payment failed or was cancelled.',
+} as const;
+
+/**
+ * Handle the browser's return from Viva checkout.
+ * The page Viva sent the browser to (success or failure) is not trusted:
+ * the outcome is checked with Viva before redirecting.
+ */
+async function handleRedirect(req: Request, res: Response, landing: 'success' | 'failure'): Promise<void> {
+  const { t: transactionId, s: orderCode, lang } = req.query as Infer<typeof paymentRedirectQuerySchema>;
+
+  console.log(`Payment ${landing} redirect:`, {
+    transactionId,
+    orderCode,
+    lang,
+  });
+
+  try {
+    const payment = await paymentRedirectService.verify(orderCode, transactionId);
+    if (!payment) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+
+    const redirectUrl = paymentRedirectService.getRedirectUrl(payment);
+    if (redirectUrl) {
+      res.redirect(302, redirectUrl);
+      return;
+    }
+
+    res.json({
+      success: payment.status === 'success',
+      status: payment.status,
+      message: RESULT_MESSAGES[payment.status],
+      transactionId: payment.transactionId,
+      orderCode: payment.orderCode,
+    });
+  } catch (error) {
+    console.error('Error verifying payment redirect:', error);
+    sendErrorResponse(res, error, 'Failed to verify payment');
+  }
+}
+
+/**
+ * Viva redirects here after a successful checkout
+ * GET /payment/success?t={transactionId}&s={orderCode}&lang={lang}
+ *
+ * Redirects to the order's redirectSuccessUrl (or redirectFailureUrl if Viva
+ * does not confirm the payment) with a signed query string:
+ * orderCode, transactionId, status (success | pending | failed), amount (cents),
+ * timestamp and signature. Without a redirect URL, PAYMENT_RESULT_PAGE_URL is
+ * used, else the verified result is returned as JSON.
+ * Limited per client IP (429).
+ */
+router.get('/success', paymentRedirectRateLimit(), validateQuery(paymentRedirectQuerySchema), async (req: Request, res: Response): Promise<void> => {
+  await handleRedirect(req, res, 'success');
+});
+
+/**
+ * Viva redirects here after a failed or cancelled checkout
+ * GET /payment/failure?t={transactionId}&s={orderCode}&lang={lang}
+ *
+ * Same as /payment/success; the verified status decides the target page.
+ */
+router.get('/failure', paymentRedirectRateLimit(), validateQuery(paymentRedirectQuerySchema), async (req: Request, res: Response): Promise<void> => {
+  await handleRedirect(req, res, 'failure');
+});
+
+export default router;
@@ -1,9 +1,42 @@
 import { Router } from 'express';
-import type { Request, Response } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { sendErrorResponse } from '../errors/viva-api.error.js';
+import { RefundHistoryUnavailableError } from '../errors/refund-history.error.js';
 import { webhookForwarderService } from '../services/webhook-forwarder.service.js';
+import { requireScope } from '../middleware/auth.middleware.js';
+import { rateLimit } from '../middleware/rate-limit.middleware.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware.js';
+import { ledgerService } from '../services/ledger.service.js';
+import { cardVaultService, MAX_ORDER_CARD_TOKENS } from '../services/card-vault.service.js';
+import { preauthService } from '../services/preauth.service.js';
+import { refundService } from '../services/refund.service.js';
+import { orderStatusService } from '../services/order-status.service.js';
+import {
+  createOrderSchema,
+  updateOrderSchema,
+  createTransactionSchema,
+  cancelTransactionQuerySchema,
+  fastRefundSchema,
+  createCardTokenSchema,
+  customerParamsSchema,
+  savedCardParamsSchema,
+  checkoutUrlQuerySchema,
+  listOrdersQuerySchema,
+  listTransactionsQuerySchema,
+  listPreauthsQuerySchema,
+  orderStatusQuerySchema,
+} from '../validation/payment.schemas.js';
+import type { Infer } from '../validation/schema.js';
+import type { LedgerListFilter } from '../types/ledger.types.js';
+import type { PreauthHold } from '../types/preauth.types.js';
+import type { TransactionRefunds } from '../types/refund.types.js';
 import type { CallbackConfig } from '../services/webhook-forwarder.service.js';
 import type {
+  CancelTransactionResponse,
   CreatePaymentOrderRequest,
+  CreateTransactionRequest,
+  CreateCardTokenRequest,
   UpdateOrderRequest,
 } from '../types/viva.types.js';
 
@@ -21,18 +54,114 @@ function getParam(params: Record<string, string | string[] | undefined>, key: st
   return '';
 }
 
-// Helper to safely get query param as string or undefined
-function getQueryParam(query: Record<string, unknown>, key: string): string | undefined {
-  const value = query[key];
-  if (typeof value === 'string') {
-    return value;
+/**
+ * Public view of a pre-auth hold (never exposes the callback secret)
+ */
+function toPreauthResponse(hold: PreauthHold) {
+  const { callback, ...rest } = hold;
+  return {
+    ...rest,
+    remainingAmount: preauthService.getRemainingAmount(hold),
+  };
+}
+
+/**
+ * Refund history with the amount still refundable
+ */
+function toRefundsResponse(history: TransactionRefunds) {
+  return {
+    ...history,
+    refundableAmount: refundService.getRefundableAmount(history),
+  };
+}
+
+/**
+ * Load the transaction's refund history,
+ * or respond 409 if its earlier refunds cannot be read from Viva
+ */
+async function loadRefunds(req: Request, res: Response, transactionId: string): Promise<TransactionRefunds | undefined> {
+  try {
+    return await refundService.load(req.merchantKey!, transactionId);
+  } catch (error) {
+    if (!(error instanceof RefundHistoryUnavailableError)) throw error;
+
+    res.status(409).json({ error: 'Earlier refunds of the transaction could not be read from Viva; try again later' });
+    return undefined;
+  }
+}
+
+/**
+ * Reserve a refund against the transaction's refund history,
+ * or respond 409 if it exceeds the refundable amount
+ */
+async function reserveRefund(
+  req: Request,
+  res: Response,
+  transactionId: string,
+  amount: number | undefined
+): Promise<{ amount: number; release: () => void } | undefined> {
+  const history = await loadRefunds(req, res, transactionId);
+  if (!history) return undefined;
+
+  const refundableAmount = refundService.getRefundableAmount(history);
+  // No amount = refund everything that is left
+  const requested = amount ?? refundableAmount;
+  const release = refundService.reserve(history, requested);
+
+  if (!release) {
+    res.status(409).json({
+      error: refundableAmount === 0
+        ? 'Transaction has been fully refunded'
+        : 'Refund amount exceeds the refundable amount',
+      chargedAmount: history.chargedAmount,
+      refundedAmount: history.refundedAmount,
+      refundableAmount,
+    });
+    return undefined;
+  }
+  return { amount: requested, release };
+}
+
+/**
+ * Reserve a capture against the hold while it is sent to Viva,
+ * or respond 409 if it exceeds the amount left to capture
+ */
+function reserveCapture(res: Response, hold: PreauthHold, amount: number): (() => void) | undefined {
+  const release = preauthService.reserve(hold, amount);
+
+  if (!release) {
+    const remainingAmount = preauthService.getCapturableAmount(hold);
+    res.status(409).json({
+      error: preauthService.getRemainingAmount(hold) === 0
+        ? `Pre-authorization is ${hold.status}`
+        : 'Capture amount exceeds the remaining authorized amount',
+      status: hold.status,
+      remainingAmount,
+    });
+    return undefined;
   }
-  return undefined;
+  return release;
+}
+
+/**
+ * Respond 409 unless the hold can be voided now
+ */
+function checkVoidable(res: Response, hold: PreauthHold): boolean {
+  if (preauthService.isVoidable(hold)) return true;
+
+  res.status(409).json({
+    error: preauthService.getRemainingAmount(hold) === 0
+      ? `Pre-authorization is ${hold.status}`
+      : 'A capture of this pre-authorization is in progress',
+    status: hold.status,
+  });
+  return false;
 }
 
 /**
  * Create a new payment order
  * POST /api/payments/orders
+ * Supports the Idempotency-Key header
  * 
  * Request Body:
  * - amount (required): Amount in cents (minimum 30)
@@ -60,6 +189,7 @@ function getQueryParam(query: Record<string, unknown>, key: string): string | un
  * - isCardVerification: Verify card without charging
  * - nbgLoanOrderOptions: { Code, ReceiptType }
  * - klarnaOrderOptions: { billingAddress, shippingAddress, orderLines }
+ * - customerRef: Your customer ID; their saved cards are added to cardTokens
  * 
  * Callback Configuration (for webhook forwarding):
  * - callback: {
@@ -69,74 +199,36 @@ function getQueryParam(query: Record<string, unknown>, key: string): string | un
  *     secret: Secret for signing webhook payloads
  *     includeRawPayload: Include original Viva payload
  *     metadata: Custom data to include in callbacks
- *     redirectSuccessUrl: Browser redirect URL after successful payment
- *     redirectFailureUrl: Browser redirect URL after failed payment
+ *     redirectSuccessUrl: Browser redirect URL after a verified successful payment
+ *     redirectFailureUrl: Browser redirect URL after a failed or unconfirmed payment
  *   }
  */
-router.post('/orders', async (req: Request, res: Response): Promise<void> => {
+router.post('/orders', requireScope('orders:write'), rateLimit('orders'), idempotencyMiddleware, validateBody(createOrderSchema), async (req: Request, res: Response): Promise<void> => {
   try {
     // Extract callback config from request
-    const { callback, ...orderData } = req.body as CreatePaymentOrderRequest & { callback?: CallbackConfig };
+    const { callback, customerRef, ...orderData } = req.body as Infer<typeof createOrderSchema>;
     const orderRequest: CreatePaymentOrderRequest = orderData;
 
-    // Validate required fields
-    if (orderRequest.isCardVerification) {
-      // Card verification requires amount to be 0
-      if (orderRequest.amount !== 0) {
-        res.status(400).json({
-          error: 'For card verification, amount must be 0',
-        });
-        return;
+    // Offer the customer's saved cards on the checkout page
+    if (customerRef) {
+      const savedTokens = cardVaultService.getOrderTokens(req.merchantKey!, customerRef);
+      const cardTokens = [...new Set([...(orderRequest.cardTokens ?? []), ...savedTokens])].slice(0, MAX_ORDER_CARD_TOKENS);
+      if (cardTokens.length > 0) {
+        orderRequest.cardTokens = cardTokens;
       }
-    } else if (!orderRequest.amount || orderRequest.amount < 30) {
-      res.status(400).json({
-        error: 'Amount is required and must be at least 30 (cents)',
-      });
-      return;
-    }
-
-    // Validate dynamicDescriptor length
-    if (orderRequest.dynamicDescriptor && orderRequest.dynamicDescriptor.length > 13) {
-      res.status(400).json({
-        error: 'dynamicDescriptor must be 13 characters or less',
-      });
-      return;
-    }
-
-    // Validate cardTokens limit
-    if (orderRequest.cardTokens && orderRequest.cardTokens.length > 10) {
-      res.status(400).json({
-        error: 'Maximum 10 card tokens allowed',
-      });
-      return;
-    }
-
-    // Validate maxInstallments range
-    if (orderRequest.maxInstallments !== undefined && 
-        (orderRequest.maxInstallments < 1 || orderRequest.maxInstallments > 36)) {
-      res.status(400).json({
-        error: 'maxInstallments must be between 1 and 36',
-      });
-      return;
-    }
-
-    // Validate stateId and urlFail must be used together
-    if ((orderRequest.stateId !== undefined && !orderRequest.urlFail) ||
-        (orderRequest.urlFail && orderRequest.stateId === undefined)) {
-      res.status(400).json({
-        error: 'stateId and urlFail must be used together',
-      });
-      return;
     }
 
     const result = await req.vivaService!.createPaymentOrder(orderRequest);
 
+    ledgerService.recordOrder(req.merchantKey!, result.orderCode, orderRequest);
+
     // Register callback URLs for this order
     if (callback) {
-      webhookForwarderService.registerCallback(result.orderCode, {
+      const callbackConfig: CallbackConfig = {
         ...callback,
         merchantKey: req.merchantKey,
-      });
+      };
+      webhookForwarderService.registerCallback(result.orderCode, callbackConfig, orderRequest.paymentTimeout);
       console.log(`Registered callbacks for order ${result.orderCode}:`, {
         successUrl: callback.successUrl ? '✓' : '✗',
         failureUrl: callback.failureUrl ? '✓' : '✗',
@@ -152,15 +244,13 @@ router.post('/orders', async (req: Request, res: Response): Promise<void> => {
           merchantReference: orderRequest.merchantTrns ?? undefined,
           customer: orderRequest.customer ?? undefined,
         },
-        callback
+        callbackConfig
       );
     }
 
     // Generate checkout URL for the customer
     const checkoutUrl = req.vivaService!.getCheckoutUrl({
       orderCode: result.orderCode,
-      successUrl: callback?.redirectSuccessUrl,
-      failureUrl: callback?.redirectFailureUrl,
     });
 
     res.status(201).json({
@@ -174,17 +264,38 @@ router.post('/orders', async (req: Request, res: Response): Promise<void> => {
     });
   } catch (error) {
     console.error('Error creating payment order:', error);
-    res.status(500).json({
-      error: 'Failed to create payment order',
-    });
+    sendErrorResponse(res, error, 'Failed to create payment order');
   }
 });
 
+/**
+ * List orders recorded in the local ledger
+ * GET /api/payments/orders
+ *
+ * Query:
+ * - status: pending | paid | failed | partially_refunded | refunded | expired | cancelled
+ * - from, to: ISO 8601 creation date range
+ * - tag: Only orders carrying this tag
+ * - merchantTrns: Merchant reference
+ * - cursor: nextCursor from the previous page
+ * - limit: Page size (default 50, max 200)
+ */
+router.get('/orders', requireScope('orders:read'), rateLimit('reads'), validateQuery(listOrdersQuerySchema), (req: Request, res: Response): void => {
+  const filter: LedgerListFilter = req.query as Infer<typeof listOrdersQuerySchema>;
+  const page = ledgerService.listOrders(req.merchantKey!, filter);
+
+  res.json({
+    success: true,
+    orders: page.items,
+    nextCursor: page.nextCursor,
+  });
+});
+
 /**
  * Get order details
  * GET /api/payments/orders/:orderCode
  */
-router.get('/orders/:orderCode', async (req: Request, res: Response): Promise<void> => {
+router.get('/orders/:orderCode', requireScope('orders:read'), rateLimit('reads'), async (req: Request, res: Response): Promise<void> => {
   try {
     const orderCodeStr = getParam(req.params, 'orderCode');
     const orderCode = parseInt(orderCodeStr, 10);
@@ -204,17 +315,66 @@ router.get('/orders/:orderCode', async (req: Request, res: Response): Promise<vo
     });
   } catch (error) {
     console.error('Error retrieving order:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve order',
-    });
+    sendErrorResponse(res, error, 'Failed to retrieve order');
   }
 });
 
+/**
+ * Reconcile an order's status with Viva
+ * GET /api/payments/orders/:orderCode/status
+ *
+ * Combines the Viva order, its transactions and the webhooks received so far
+ * into one status: pending | paid | partially_refunded | refunded | expired | cancelled.
+ *
+ * Query:
+ * - reemit: Also process and forward events whose webhook never arrived,
+ *   listed in emittedEvents (needs orders:write; orders in the ledger only)
+ */
+router.get(
+  '/orders/:orderCode/status',
+  requireScope('orders:read'),
+  rateLimit('reads'),
+  validateQuery(orderStatusQuerySchema),
+  (req: Request, res: Response, next: NextFunction): void => {
+    const { reemit } = req.query as Infer<typeof orderStatusQuerySchema>;
+    if (reemit) {
+      requireScope('orders:write')(req, res, next);
+      return;
+    }
+    next();
+  },
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const orderCodeStr = getParam(req.params, 'orderCode');
+      const orderCode = parseInt(orderCodeStr, 10);
+
+      if (isNaN(orderCode)) {
+        res.status(400).json({
+          error: 'Invalid order code',
+        });
+        return;
+      }
+
+      const report = await orderStatusService.reconcile(req.merchantKey!, orderCode, {
+        reemit: (req.query as Infer<typeof orderStatusQuerySchema>).reemit,
+      });
+
+      res.json({
+        success: true,
+        ...report,
+      });
+    } catch (error) {
+      console.error('Error reconciling order status:', error);
+      sendErrorResponse(res, error, 'Failed to retrieve order status');
+    }
+  }
+);
+
 /**
  * Update an order
  * PATCH /api/payments/orders/:orderCode
  */
-router.patch('/orders/:orderCode', async (req: Request, res: Response): Promise<void> => {
+router.patch('/orders/:orderCode', requireScope('orders:write'), rateLimit('orders'), validateBody(updateOrderSchema), async (req: Request, res: Response): Promise<void> => {
   try {
     const orderCodeStr = getParam(req.params, 'orderCode');
     const orderCode = parseInt(orderCodeStr, 10);
@@ -235,9 +395,7 @@ router.patch('/orders/:orderCode', async (req: Request, res: Response): Promise<
     });
   } catch (error) {
     console.error('Error updating order:', error);
-    res.status(500).json({
-      error: 'Failed to update order',
-    });
+    sendErrorResponse(res, error, 'Failed to update order');
   }
 });
 
@@ -245,7 +403,7 @@ router.patch('/orders/:orderCode', async (req: Request, res: Response): Promise<
  * Cancel an order
  * DELETE /api/payments/orders/:orderCode
  */
-router.delete('/orders/:orderCode', async (req: Request, res: Response): Promise<void> => {
+router.delete('/orders/:orderCode', requireScope('orders:write'), rateLimit('orders'), async (req: Request, res: Response): Promise<void> => {
   try {
     const orderCodeStr = getParam(req.params, 'orderCode');
     const orderCode = parseInt(orderCodeStr, 10);
@@ -258,6 +416,7 @@ router.delete('/orders/:orderCode', async (req: Request, res: Response): Promise
     }
 
     await req.vivaService!.cancelOrder(orderCode);
+    ledgerService.updateOrderStatus(req.merchantKey!, orderCodeStr, 'cancelled');
 
     res.json({
       success: true,
@@ -265,17 +424,36 @@ router.delete('/orders/:orderCode', async (req: Request, res: Response): Promise
     });
   } catch (error) {
     console.error('Error cancelling order:', error);
-    res.status(500).json({
-      error: 'Failed to cancel order',
-    });
+    sendErrorResponse(res, error, 'Failed to cancel order');
   }
 });
 
+/**
+ * List transactions reported by Viva webhooks
+ * GET /api/payments/transactions
+ *
+ * Query:
+ * - status: succeeded | failed
+ * - kind: payment | reversal
+ * - from, to: ISO 8601 transaction date range
+ * - tag, merchantTrns, cursor, limit: As for GET /orders
+ */
+router.get('/transactions', requireScope('orders:read'), rateLimit('reads'), validateQuery(listTransactionsQuerySchema), (req: Request, res: Response): void => {
+  const filter = req.query as Infer<typeof listTransactionsQuerySchema>;
+  const page = ledgerService.listTransactions(req.merchantKey!, filter);
+
+  res.json({
+    success: true,
+    transactions: page.items,
+    nextCursor: page.nextCursor,
+  });
+});
+
 /**
  * Get transaction details
  * GET /api/payments/transactions/:transactionId
  */
-router.get('/transactions/:transactionId', async (req: Request, res: Response): Promise<void> => {
+router.get('/transactions/:transactionId', requireScope('orders:read'), rateLimit('reads'), async (req: Request, res: Response): Promise<void> => {
   try {
     const transactionId = getParam(req.params, 'transactionId');
 
@@ -287,26 +465,28 @@ router.get('/transactions/:transactionId', async (req: Request, res: Response):
     });
   } catch (error) {
     console.error('Error retrieving transaction:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve transaction',
-    });
+    sendErrorResponse(res, error, 'Failed to retrieve transaction');
   }
 });
 
 /**
  * Create recurring payment or capture pre-auth
  * POST /api/payments/transactions/:transactionId
+ * Supports the Idempotency-Key header
+ *
+ * Captures of a tracked pre-auth are checked against the remaining amount
  */
-router.post('/transactions/:transactionId', async (req: Request, res: Response): Promise<void> => {
+router.post('/transactions/:transactionId', requireScope('orders:write'), rateLimit('orders'), idempotencyMiddleware, validateBody(createTransactionSchema), async (req: Request, res: Response): Promise<void> => {
+  let release: (() => void) | undefined;
+
   try {
     const transactionId = getParam(req.params, 'transactionId');
-    const transactionRequest = req.body;
+    const transactionRequest: CreateTransactionRequest = req.body;
 
-    if (!transactionRequest.amount) {
-      res.status(400).json({
-        error: 'Amount is required',
-      });
-      return;
+    const hold = preauthService.getHold(req.merchantKey!, transactionId);
+    if (hold) {
+      release = reserveCapture(res, hold, transactionRequest.amount);
+      if (!release) return;
     }
 
     const result = await req.vivaService!.createTransaction(
@@ -314,112 +494,382 @@ router.post('/transactions/:transactionId', async (req: Request, res: Response):
       transactionRequest
     );
 
+    if (hold) {
+      await preauthService.recordCapture(req.merchantKey!, transactionId, result.TransactionId, transactionRequest.amount);
+    }
+
     res.status(201).json({
       success: true,
       transaction: result,
     });
   } catch (error) {
     console.error('Error creating transaction:', error);
-    res.status(500).json({
-      error: 'Failed to create transaction',
+    sendErrorResponse(res, error, 'Failed to create transaction');
+  } finally {
+    release?.();
+  }
+});
+
+/**
+ * List pre-authorization holds
+ * GET /api/payments/preauths
+ *
+ * Query:
+ * - status: open | partially_captured | captured | voided | expired
+ *   (default: holds still open, soonest capture deadline first)
+ */
+router.get('/preauths', requireScope('orders:read'), rateLimit('reads'), validateQuery(listPreauthsQuerySchema), (req: Request, res: Response): void => {
+  const filter = req.query as Infer<typeof listPreauthsQuerySchema>;
+
+  res.json({
+    success: true,
+    preauths: preauthService.listHolds(req.merchantKey!, filter).map(toPreauthResponse),
+  });
+});
+
+/**
+ * Get a pre-authorization hold with its captures
+ * GET /api/payments/preauths/:transactionId
+ */
+router.get('/preauths/:transactionId', requireScope('orders:read'), rateLimit('reads'), (req: Request, res: Response): void => {
+  const hold = preauthService.getHold(req.merchantKey!, getParam(req.params, 'transactionId'));
+
+  if (!hold) {
+    res.status(404).json({ error: 'Pre-authorization not found' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    preauth: toPreauthResponse(hold),
+  });
+});
+
+/**
+ * Capture all or part of a pre-authorization (may be called several times)
+ * POST /api/payments/preauths/:transactionId/capture
+ * Supports the Idempotency-Key header
+ *
+ * Request Body: same as POST /api/payments/transactions/:transactionId
+ */
+router.post('/preauths/:transactionId/capture', requireScope('orders:write'), rateLimit('orders'), idempotencyMiddleware, validateBody(createTransactionSchema), async (req: Request, res: Response): Promise<void> => {
+  let release: (() => void) | undefined;
+
+  try {
+    const transactionId = getParam(req.params, 'transactionId');
+    const transactionRequest: CreateTransactionRequest = req.body;
+    const hold = preauthService.getHold(req.merchantKey!, transactionId);
+
+    if (!hold) {
+      res.status(404).json({ error: 'Pre-authorization not found' });
+      return;
+    }
+    release = reserveCapture(res, hold, transactionRequest.amount);
+    if (!release) return;
+
+    const result = await req.vivaService!.createTransaction(transactionId, transactionRequest);
+    const updated = await preauthService.recordCapture(req.merchantKey!, transactionId, result.TransactionId, transactionRequest.amount);
+
+    res.status(201).json({
+      success: true,
+      transaction: result,
+      preauth: updated && toPreauthResponse(updated),
+    });
+  } catch (error) {
+    console.error('Error capturing pre-authorization:', error);
+    sendErrorResponse(res, error, 'Failed to capture pre-authorization');
+  } finally {
+    release?.();
+  }
+});
+
+/**
+ * Release the remaining amount of a pre-authorization
+ * POST /api/payments/preauths/:transactionId/void
+ * Supports the Idempotency-Key header
+ */
+router.post('/preauths/:transactionId/void', requireScope('orders:write'), rateLimit('orders'), idempotencyMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hold = preauthService.getHold(req.merchantKey!, getParam(req.params, 'transactionId'));
+
+    if (!hold) {
+      res.status(404).json({ error: 'Pre-authorization not found' });
+      return;
+    }
+    if (!checkVoidable(res, hold)) return;
+
+    const voided = await preauthService.void(hold, 'requested');
+
+    res.json({
+      success: true,
+      preauth: toPreauthResponse(voided),
     });
+  } catch (error) {
+    console.error('Error voiding pre-authorization:', error);
+    sendErrorResponse(res, error, 'Failed to void pre-authorization');
   }
 });
 
 /**
  * Refund/Cancel a transaction
  * DELETE /api/payments/transactions/:transactionId
+ * Supports the Idempotency-Key header
+ *
+ * Query:
+ * - amount: Amount in cents (default: everything still refundable)
+ * - sourceCode: Payment source code
+ * - reason: Why the refund was issued (kept in the refund history)
+ *
+ * Refunds above the refundable amount are rejected with 409.
+ * On a tracked pre-auth hold this voids it like POST /preauths/:transactionId/void
+ * (amount, if given, must be the remaining amount).
  */
-router.delete('/transactions/:transactionId', async (req: Request, res: Response): Promise<void> => {
+router.delete('/transactions/:transactionId', requireScope('refunds:write'), rateLimit('refunds'), idempotencyMiddleware, validateQuery(cancelTransactionQuerySchema), async (req: Request, res: Response): Promise<void> => {
   try {
     const transactionId = getParam(req.params, 'transactionId');
-    const amountStr = getQueryParam(req.query as Record<string, unknown>, 'amount');
-    const sourceCode = getQueryParam(req.query as Record<string, unknown>, 'sourceCode');
-    
-    const amount = amountStr ? parseInt(amountStr, 10) : undefined;
+    const { amount, sourceCode, reason } = req.query as Infer<typeof cancelTransactionQuerySchema>;
+
+    const hold = preauthService.getHold(req.merchantKey!, transactionId);
+    if (hold) {
+      if (!checkVoidable(res, hold)) return;
+      if (amount !== undefined && amount !== preauthService.getRemainingAmount(hold)) {
+        res.status(409).json({
+          error: 'Pre-authorizations are voided in full; capture the amount to keep instead',
+          status: hold.status,
+          remainingAmount: preauthService.getRemainingAmount(hold),
+        });
+        return;
+      }
 
-    const result = await req.vivaService!.cancelTransaction(
-      transactionId,
-      amount,
-      sourceCode
-    );
+      const voided = await preauthService.void(hold, 'requested');
+      res.json({
+        success: true,
+        preauth: toPreauthResponse(voided),
+      });
+      return;
+    }
+
+    const reservation = await reserveRefund(req, res, transactionId, amount);
+    if (!reservation) return;
+
+    // Released before responding, so the refundable amount reported is final
+    let result: CancelTransactionResponse;
+    let refunds: TransactionRefunds;
+    try {
+      result = await req.vivaService!.cancelTransaction(
+        transactionId,
+        reservation.amount,
+        sourceCode
+      );
+
+      refunds = await refundService.recordRefund(req.merchantKey!, transactionId, {
+        refundTransactionId: result.TransactionId,
+        amount: reservation.amount,
+        method: 'cancel',
+        reason,
+      });
+    } finally {
+      reservation.release();
+    }
 
     res.json({
       success: true,
       transaction: result,
+      refunds: toRefundsResponse(refunds),
     });
   } catch (error) {
     console.error('Error cancelling transaction:', error);
-    res.status(500).json({
-      error: 'Failed to cancel transaction',
-    });
+    sendErrorResponse(res, error, 'Failed to cancel transaction');
   }
 });
 
 /**
  * Fast refund
  * POST /api/payments/transactions/:transactionId/refund
+ * Supports the Idempotency-Key header
+ *
+ * Request Body:
+ * - amount (required): Amount in cents
+ * - sourceCode: Payment source code
+ * - merchantTrns: Merchant reference
+ * - reason: Why the refund was issued (kept in the refund history)
+ *
+ * Refunds above the refundable amount are rejected with 409.
  */
-router.post('/transactions/:transactionId/refund', async (req: Request, res: Response): Promise<void> => {
+router.post('/transactions/:transactionId/refund', requireScope('refunds:write'), rateLimit('refunds'), idempotencyMiddleware, validateBody(fastRefundSchema), async (req: Request, res: Response): Promise<void> => {
   try {
     const transactionId = getParam(req.params, 'transactionId');
-    const { amount, sourceCode, merchantTrns } = req.body;
+    const { amount, sourceCode, merchantTrns, reason } = req.body as Infer<typeof fastRefundSchema>;
+
+    const reservation = await reserveRefund(req, res, transactionId, amount);
+    if (!reservation) return;
+
+    // Released before responding, so the refundable amount reported is final
+    let result: { transactionId: string };
+    let refunds: TransactionRefunds;
+    try {
+      result = await req.vivaService!.fastRefund(
+        transactionId,
+        amount,
+        sourceCode,
+        merchantTrns
+      );
 
-    if (!amount) {
-      res.status(400).json({
-        error: 'Amount is required',
+      refunds = await refundService.recordRefund(req.merchantKey!, transactionId, {
+        refundTransactionId: result.transactionId,
+        amount,
+        method: 'fast_refund',
+        reason,
       });
-      return;
+    } finally {
+      reservation.release();
     }
 
-    const result = await req.vivaService!.fastRefund(
-      transactionId,
-      amount,
-      sourceCode,
-      merchantTrns
-    );
-
     res.json({
       success: true,
       refundTransactionId: result.transactionId,
+      refunds: toRefundsResponse(refunds),
     });
   } catch (error) {
     console.error('Error processing refund:', error);
-    res.status(500).json({
-      error: 'Failed to process refund',
+    sendErrorResponse(res, error, 'Failed to process refund');
+  }
+});
+
+/**
+ * Refund history of a transaction
+ * GET /api/payments/transactions/:transactionId/refunds
+ *
+ * Returns chargedAmount, refundedAmount, refundableAmount (cents)
+ * and every refund with its method and reason
+ */
+router.get('/transactions/:transactionId/refunds', requireScope('orders:read'), rateLimit('reads'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const history = await loadRefunds(req, res, getParam(req.params, 'transactionId'));
+    if (!history) return;
+
+    res.json({
+      success: true,
+      refunds: toRefundsResponse(history),
     });
+  } catch (error) {
+    console.error('Error retrieving refunds:', error);
+    sendErrorResponse(res, error, 'Failed to retrieve refunds');
   }
 });
 
 /**
  * Create card token for saving card
  * POST /api/payments/card-tokens
+ *
+ * Request Body:
+ * - transactionId (required): Transaction paid with the card
+ * - groupId: Token group ID
+ * - customerRef: Your customer ID; the card is kept in the vault for this customer
  */
-router.post('/card-tokens', async (req: Request, res: Response): Promise<void> => {
+router.post('/card-tokens', requireScope('cards:write'), rateLimit('orders'), validateBody(createCardTokenSchema), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { transactionId, groupId } = req.body;
+    const { customerRef, ...tokenData } = req.body as Infer<typeof createCardTokenSchema>;
+    const cardTokenRequest: CreateCardTokenRequest = tokenData;
 
-    if (!transactionId) {
-      res.status(400).json({
-        error: 'Transaction ID is required',
+    const result = await req.vivaService!.createCardToken(cardTokenRequest);
+
+    if (!customerRef) {
+      res.status(201).json({
+        success: true,
+        token: result.token,
       });
       return;
     }
 
-    const result = await req.vivaService!.createCardToken({
-      transactionId,
-      groupId,
-    });
+    // Card metadata (last four, brand, expiry) comes from the source transaction
+    const transaction = await req.vivaService!.getTransaction(cardTokenRequest.transactionId);
+    const card = cardVaultService.saveCard(req.merchantKey!, customerRef, result.token, cardTokenRequest.transactionId, transaction);
 
     res.status(201).json({
       success: true,
       token: result.token,
+      card,
     });
   } catch (error) {
     console.error('Error creating card token:', error);
-    res.status(500).json({
-      error: 'Failed to create card token',
+    sendErrorResponse(res, error, 'Failed to create card token');
+  }
+});
+
+/**
+ * List a customer's saved cards (ID, brand and last four digits only)
+ * GET /api/payments/customers/:customerRef/cards
+ */
+router.get('/customers/:customerRef/cards', requireScope('cards:read'), rateLimit('reads'), validateParams(customerParamsSchema), (req: Request, res: Response): void => {
+  const customerRef = getParam(req.params, 'customerRef');
+
+  res.json({
+    success: true,
+    cards: cardVaultService.listCards(req.merchantKey!, customerRef).map((card) => cardVaultService.toSummary(card)),
+  });
+});
+
+/**
+ * Remove a saved card from the vault
+ * DELETE /api/payments/customers/:customerRef/cards/:cardId
+ */
+router.delete('/customers/:customerRef/cards/:cardId', requireScope('cards:write'), rateLimit('orders'), validateParams(savedCardParamsSchema), (req: Request, res: Response): void => {
+  const deleted = cardVaultService.deleteCard(
+    req.merchantKey!,
+    getParam(req.params, 'customerRef'),
+    getParam(req.params, 'cardId')
+  );
+
+  if (!deleted) {
+    res.status(404).json({ error: 'Card not found' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: 'Card removed',
+  });
+});
+
+/**
+ * Charge a saved card without the customer present
+ * POST /api/payments/customers/:customerRef/cards/:cardId/charge
+ * Supports the Idempotency-Key header
+ *
+ * Charges the card's source transaction again, so the card must have been
+ * saved from a payment made with allowRecurring.
+ *
+ * Request Body: same as POST /api/payments/transactions/:transactionId
+ */
+router.post('/customers/:customerRef/cards/:cardId/charge', requireScope('orders:write'), rateLimit('orders'), validateParams(savedCardParamsSchema), idempotencyMiddleware, validateBody(createTransactionSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const card = cardVaultService.getCard(
+      req.merchantKey!,
+      getParam(req.params, 'customerRef'),
+      getParam(req.params, 'cardId')
+    );
+
+    if (!card) {
+      res.status(404).json({ error: 'Card not found' });
+      return;
+    }
+    if (!card.recurringSupport) {
+      res.status(409).json({ error: 'Card was not saved from a recurring-enabled payment and cannot be charged directly' });
+      return;
+    }
+
+    const transactionRequest: CreateTransactionRequest = req.body;
+    const result = await req.vivaService!.createTransaction(card.sourceTransactionId, transactionRequest);
+    cardVaultService.markCharged(card);
+
+    res.status(201).json({
+      success: true,
+      transaction: result,
     });
+  } catch (error) {
+    console.error('Error charging saved card:', error);
+    sendErrorResponse(res, error, 'Failed to charge saved card');
   }
 });
 
@@ -427,12 +877,11 @@ router.post('/card-tokens', async (req: Request, res: Response): Promise<void> =
  * Get checkout URL for an order
  * GET /api/payments/checkout-url/:orderCode
  */
-router.get('/checkout-url/:orderCode', (req: Request, res: Response): void => {
+router.get('/checkout-url/:orderCode', requireScope('orders:read'), rateLimit('reads'), validateQuery(checkoutUrlQuerySchema), (req: Request, res: Response): void => {
   try {
     const orderCodeStr = getParam(req.params, 'orderCode');
     const orderCode = parseInt(orderCodeStr, 10);
-    const color = getQueryParam(req.query as Record<string, unknown>, 'color');
-    const paymentMethod = getQueryParam(req.query as Record<string, unknown>, 'paymentMethod');
+    const { color, paymentMethod } = req.query as Infer<typeof checkoutUrlQuerySchema>;
 
     if (isNaN(orderCode)) {
       res.status(400).json({
@@ -453,9 +902,7 @@ router.get('/checkout-url/:orderCode', (req: Request, res: Response): void => {
     });
   } catch (error) {
     console.error('Error generating checkout URL:', error);
-    res.status(500).json({
-      error: 'Failed to generate checkout URL',
-    });
+    sendErrorResponse(res, error, 'Failed to generate checkout URL');
   }
 });
 
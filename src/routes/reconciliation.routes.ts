@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { reconciliationService, getPreviousDay } from '../services/reconciliation.service.js';
+import { validateBody } from '../middleware/validation.middleware.js';
+import { DAY_PATTERN, runReconciliationSchema } from '../validation/reconciliation.schemas.js';
+import type { Infer } from '../validation/schema.js';
+import type { ReconciliationReport } from '../types/reconciliation.types.js';
+
+const router = Router();
+
+/**
+ * Report without its transaction lists, for listings
+ */
+function toReportSummary(report: ReconciliationReport) {
+  const { merchantKey, missing, amountMismatches, unknown, reemitted, ...rest } = report;
+  return rest;
+}
+
+function toReportResponse(report: ReconciliationReport) {
+  const { merchantKey, ...rest } = report;
+  return rest;
+}
+
+/**
+ * List the authenticated merchant's reconciliation reports, most recent day first
+ * GET /api/reconciliation/reports
+ */
+router.get('/reports', (req: Request, res: Response): void => {
+  const reports = reconciliationService.listReports(req.merchantKey!);
+
+  res.json({
+    success: true,
+    reports: reports.map(toReportSummary),
+  });
+});
+
+/**
+ * Get the report of a day, with its missing, mismatched and unknown transactions
+ * GET /api/reconciliation/reports/:date (YYYY-MM-DD)
+ */
+router.get('/reports/:date', (req: Request, res: Response): void => {
+  const date = req.params['date'] as string;
+
+  if (!DAY_PATTERN.test(date)) {
+    res.status(400).json({ error: 'Invalid date' });
+    return;
+  }
+
+  const report = reconciliationService.getReport(req.merchantKey!, date);
+  if (!report) {
+    res.status(404).json({ error: 'Reconciliation report not found' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    report: toReportResponse(report),
+  });
+});
+
+/**
+ * Reconcile a day now (replaces that day's report)
+ * POST /api/reconciliation/run
+ *
+ * Request Body:
+ * - date: Day to reconcile, YYYY-MM-DD in UTC (default: yesterday)
+ * - reemit: Process and forward missed events (default: RECONCILIATION_REEMIT_MISSED)
+ */
+router.post('/run', validateBody(runReconciliationSchema), async (req: Request, res: Response): Promise<void> => {
+  const { date, reemit } = req.body as Infer<typeof runReconciliationSchema>;
+
+  const report = await reconciliationService.run(req.merchantKey!, date ?? getPreviousDay(), {
+    trigger: 'manual',
+    reemit,
+  });
+
+  if (report.status === 'failed') {
+    res.status(502).json({
+      error: 'Reconciliation failed',
+      message: report.error,
+      report: toReportResponse(report),
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    report: toReportResponse(report),
+  });
+});
+
+export default router;
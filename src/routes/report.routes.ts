@@ -0,0 +1,118 @@
+import { once } from 'events';
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { sendErrorResponse } from '../errors/viva-api.error.js';
+import { transactionReportService } from '../services/transaction-report.service.js';
+import { validateQuery } from '../middleware/validation.middleware.js';
+import { transactionReportQuerySchema } from '../validation/report.schemas.js';
+import type { Infer } from '../validation/schema.js';
+import type { TransactionReportFormat, TransactionReportRow } from '../types/transaction-report.types.js';
+
+const router = Router();
+
+// CSV columns, in order
+const CSV_COLUMNS = [
+  'createdAt',
+  'transactionId',
+  'orderCode',
+  'parentId',
+  'kind',
+  'transactionTypeId',
+  'statusId',
+  'amount',
+  'currencyCode',
+  'fees',
+  'interchange',
+  'isvFee',
+  'cardBrand',
+  'cardLastFour',
+  'merchantTrns',
+  'tags',
+  'refundedAmount',
+  'refundTransactionIds',
+  'source',
+] as const satisfies readonly (keyof TransactionReportRow)[];
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would run as a
+ * formula (=, +, -, @) is prefixed with a quote.
+ */
+function toCsvField(value: TransactionReportRow[keyof TransactionReportRow]): string {
+  if (value === undefined) return '';
+  let text = Array.isArray(value) ? value.join(';') : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(row: TransactionReportRow): string {
+  return `${CSV_COLUMNS.map((column) => toCsvField(row[column])).join(',')}\r\n`;
+}
+
+/**
+ * Write a chunk, waiting for the client to catch up when the buffer is full.
+ * Rejects once `signal` is aborted (client gone).
+ */
+async function write(res: Response, chunk: string, signal: AbortSignal): Promise<void> {
+  if (!res.write(chunk)) {
+    await once(res, 'drain', { signal });
+  }
+}
+
+function startResponse(res: Response, format: TransactionReportFormat, from: string, to: string): void {
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="transactions-${from}-${to}.csv"`);
+  } else {
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  }
+  res.status(200);
+}
+
+/**
+ * Export the authenticated merchant's transactions, streamed
+ * GET /api/reports/transactions
+ *
+ * Query:
+ * - from, to: Days to export, YYYY-MM-DD in UTC, both included (at most 92 days)
+ * - format: csv | json (default: json)
+ */
+router.get('/transactions', validateQuery(transactionReportQuerySchema), async (req: Request, res: Response): Promise<void> => {
+  const { from, to, format = 'json' } = req.query as Infer<typeof transactionReportQuerySchema>;
+  const rows = transactionReportService.streamTransactions(req.merchantKey!, from, to);
+  const closed = new AbortController();
+  res.on('close', () => closed.abort());
+  let started = false;
+
+  // Headers go out with the first row, so a failure before it is still a normal error response
+  const start = async (): Promise<void> => {
+    started = true;
+    startResponse(res, format, from, to);
+    await write(res, format === 'csv'
+      ? `${CSV_COLUMNS.join(',')}\r\n`
+      : `{"success":true,"from":"${from}","to":"${to}","transactions":[`, closed.signal);
+  };
+
+  try {
+    let count = 0;
+    for await (const row of rows) {
+      if (closed.signal.aborted) return; // Client went away; stop querying Viva
+      if (!started) await start();
+      await write(res, format === 'csv' ? toCsvLine(row) : `${count > 0 ? ',' : ''}${JSON.stringify(row)}`, closed.signal);
+      count += 1;
+    }
+
+    if (!started) await start();
+    res.end(format === 'csv' ? '' : ']}');
+  } catch (error) {
+    if (closed.signal.aborted) return;
+    console.error('Transaction export failed:', error);
+    if (!started) {
+      sendErrorResponse(res, error, 'Failed to export transactions');
+      return;
+    }
+    // Too late for an error status: cut the response so the client sees it as incomplete
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+});
+
+export default router;
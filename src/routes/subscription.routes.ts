@@ -0,0 +1,360 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { sendErrorResponse } from '../errors/viva-api.error.js';
+import { webhookForwarderService, WebhookEventType } from '../services/webhook-forwarder.service.js';
+import { subscriptionService } from '../services/subscription.service.js';
+import { ledgerService } from '../services/ledger.service.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware.js';
+import { validateBody, validateQuery } from '../middleware/validation.middleware.js';
+import {
+  createPlanSchema,
+  updatePlanSchema,
+  createSubscriptionSchema,
+  updateSubscriptionSchema,
+  cancelSubscriptionSchema,
+  listSubscriptionsQuerySchema,
+} from '../validation/subscription.schemas.js';
+import type { Infer } from '../validation/schema.js';
+import type { CallbackConfig } from '../services/webhook-forwarder.service.js';
+import type { CreatePaymentOrderRequest } from '../types/viva.types.js';
+import type { Subscription, SubscriptionStatus } from '../types/subscription.types.js';
+
+const router = Router();
+
+/**
+ * Public view of a subscription (never exposes the callback secret)
+ */
+function toSubscriptionResponse(subscription: Subscription) {
+  const { callback, ...rest } = subscription;
+  if (!callback) return rest;
+
+  const { secret, merchantKey, ...publicCallback } = callback;
+  return {
+    ...rest,
+    callback: {
+      ...publicCallback,
+      signed: !!secret,
+    },
+  };
+}
+
+/**
+ * Load the authenticated merchant's subscription, or respond 404
+ */
+function findSubscription(req: Request, res: Response): Subscription | undefined {
+  const subscription = subscriptionService.getSubscription(req.merchantKey!, req.params['subscriptionId'] as string);
+
+  if (!subscription) {
+    res.status(404).json({ error: 'Subscription not found' });
+    return undefined;
+  }
+  return subscription;
+}
+
+/**
+ * Respond 409 unless the subscription is in one of the given states
+ */
+function requireStatus(res: Response, subscription: Subscription, allowed: SubscriptionStatus[], action: string): boolean {
+  if (!allowed.includes(subscription.status)) {
+    res.status(409).json({
+      error: `Cannot ${action} a ${subscription.status} subscription`,
+      status: subscription.status,
+    });
+    return false;
+  }
+  return true;
+}
+
+// ---- Plans ----
+
+/**
+ * Create a plan
+ * POST /api/subscriptions/plans
+ *
+ * Request Body:
+ * - name (required): Plan name (sent as customerTrns on each charge)
+ * - amount (required): Amount in cents charged every period (minimum 30)
+ * - currencyCode: ISO 4217 numeric code (default: merchant currency)
+ * - interval (required): day | week | month | year
+ * - intervalCount: Periods between charges (default: 1)
+ * - trialDays: Free days before the first charge (default: 0)
+ */
+router.post('/plans', validateBody(createPlanSchema), (req: Request, res: Response): void => {
+  const plan = subscriptionService.createPlan(req.merchantKey!, req.body as Infer<typeof createPlanSchema>);
+
+  res.status(201).json({
+    success: true,
+    plan,
+  });
+});
+
+/**
+ * List plans
+ * GET /api/subscriptions/plans
+ */
+router.get('/plans', (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    plans: subscriptionService.listPlans(req.merchantKey!),
+  });
+});
+
+/**
+ * Get a plan
+ * GET /api/subscriptions/plans/:planId
+ */
+router.get('/plans/:planId', (req: Request, res: Response): void => {
+  const plan = subscriptionService.getPlan(req.merchantKey!, req.params['planId'] as string);
+
+  if (!plan) {
+    res.status(404).json({ error: 'Plan not found' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    plan,
+  });
+});
+
+/**
+ * Rename or (de)activate a plan
+ * PATCH /api/subscriptions/plans/:planId
+ *
+ * Request Body:
+ * - name: New plan name
+ * - active: false to stop accepting new subscribers
+ */
+router.patch('/plans/:planId', validateBody(updatePlanSchema), (req: Request, res: Response): void => {
+  const plan = subscriptionService.updatePlan(
+    req.merchantKey!,
+    req.params['planId'] as string,
+    req.body as Infer<typeof updatePlanSchema>
+  );
+
+  if (!plan) {
+    res.status(404).json({ error: 'Plan not found' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    plan,
+  });
+});
+
+/**
+ * Deactivate a plan (existing subscribers keep being billed)
+ * DELETE /api/subscriptions/plans/:planId
+ */
+router.delete('/plans/:planId', (req: Request, res: Response): void => {
+  const plan = subscriptionService.updatePlan(req.merchantKey!, req.params['planId'] as string, { active: false });
+
+  if (!plan) {
+    res.status(404).json({ error: 'Plan not found' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    plan,
+  });
+});
+
+// ---- Subscriptions ----
+
+/**
+ * Enrol a customer in a plan
+ * POST /api/subscriptions
+ * Supports the Idempotency-Key header
+ *
+ * Creates a recurring-enabled Viva order for the first period (or a card
+ * verification when the plan has a trial). The subscription is activated
+ * when the customer pays it; later periods are charged automatically.
+ *
+ * Request Body:
+ * - planId (required): Plan to subscribe to
+ * - customer: { email, fullName, phone, countryCode, requestLang }
+ * - customerTrns: Description shown to customer (default: plan name)
+ * - merchantTrns: Merchant reference, also sent on every renewal
+ * - sourceCode: Payment source code
+ * - callback: Same as for payment orders; subscription.* events go to webhookUrl
+ */
+router.post('/', idempotencyMiddleware, validateBody(createSubscriptionSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { planId, callback, ...orderData } = req.body as Infer<typeof createSubscriptionSchema>;
+    const plan = subscriptionService.getPlan(req.merchantKey!, planId);
+
+    if (!plan) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+    if (!plan.active) {
+      res.status(409).json({ error: 'Plan is not active' });
+      return;
+    }
+
+    const hasTrial = plan.trialDays > 0;
+    const orderRequest: CreatePaymentOrderRequest = {
+      ...orderData,
+      amount: hasTrial ? 0 : plan.amount,
+      customerTrns: orderData.customerTrns ?? plan.name,
+      allowRecurring: true,
+      ...(hasTrial ? { isCardVerification: true } : {}),
+      ...(plan.currencyCode ? { currencyCode: plan.currencyCode } : {}),
+    };
+
+    const result = await req.vivaService!.createPaymentOrder(orderRequest);
+    ledgerService.recordOrder(req.merchantKey!, result.orderCode, orderRequest);
+
+    const callbackConfig: CallbackConfig | undefined = callback
+      ? { ...callback, merchantKey: req.merchantKey }
+      : undefined;
+    if (callbackConfig) {
+      webhookForwarderService.registerCallback(result.orderCode, callbackConfig, orderRequest.paymentTimeout);
+    }
+
+    const subscription = subscriptionService.createSubscription(req.merchantKey!, plan, {
+      orderCode: result.orderCode,
+      customer: orderData.customer,
+      merchantTrns: orderData.merchantTrns,
+      callback: callbackConfig,
+    });
+    await subscriptionService.emit(WebhookEventType.SUBSCRIPTION_CREATED, subscription, plan);
+
+    const checkoutUrl = req.vivaService!.getCheckoutUrl({
+      orderCode: result.orderCode,
+    });
+
+    res.status(201).json({
+      success: true,
+      subscription: toSubscriptionResponse(subscription),
+      checkoutUrl,
+      message: 'Redirect customer to checkoutUrl to start the subscription',
+    });
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    sendErrorResponse(res, error, 'Failed to create subscription');
+  }
+});
+
+/**
+ * List subscriptions
+ * GET /api/subscriptions
+ *
+ * Query:
+ * - status: pending | trialing | active | past_due | paused | cancelled
+ * - planId: Only subscribers of this plan
+ */
+router.get('/', validateQuery(listSubscriptionsQuerySchema), (req: Request, res: Response): void => {
+  const filter = req.query as Infer<typeof listSubscriptionsQuerySchema>;
+
+  res.json({
+    success: true,
+    subscriptions: subscriptionService.listSubscriptions(req.merchantKey!, filter).map(toSubscriptionResponse),
+  });
+});
+
+/**
+ * Get a subscription with its charge history
+ * GET /api/subscriptions/:subscriptionId
+ */
+router.get('/:subscriptionId', (req: Request, res: Response): void => {
+  const subscription = findSubscription(req, res);
+  if (!subscription) return;
+
+  res.json({
+    success: true,
+    subscription: toSubscriptionResponse(subscription),
+  });
+});
+
+/**
+ * Update a subscription
+ * PATCH /api/subscriptions/:subscriptionId
+ *
+ * Request Body:
+ * - planId: Switch plan from the next billing date
+ * - merchantTrns: Merchant reference for future charges
+ * - callback: Replace the callback configuration
+ */
+router.patch('/:subscriptionId', validateBody(updateSubscriptionSchema), (req: Request, res: Response): void => {
+  const subscription = findSubscription(req, res);
+  if (!subscription) return;
+  if (!requireStatus(res, subscription, ['pending', 'trialing', 'active', 'past_due', 'paused'], 'update')) return;
+
+  const { planId, merchantTrns, callback } = req.body as Infer<typeof updateSubscriptionSchema>;
+  const update: Parameters<typeof subscriptionService.updateSubscription>[1] = {};
+
+  if (planId !== undefined) {
+    const plan = subscriptionService.getPlan(req.merchantKey!, planId);
+    if (!plan) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+    if (!plan.active) {
+      res.status(409).json({ error: 'Plan is not active' });
+      return;
+    }
+    update.plan = plan;
+  }
+  if (merchantTrns !== undefined) update.merchantTrns = merchantTrns;
+  if (callback !== undefined) update.callback = { ...callback, merchantKey: req.merchantKey };
+
+  res.json({
+    success: true,
+    subscription: toSubscriptionResponse(subscriptionService.updateSubscription(subscription, update)),
+  });
+});
+
+/**
+ * Pause billing
+ * POST /api/subscriptions/:subscriptionId/pause
+ */
+router.post('/:subscriptionId/pause', async (req: Request, res: Response): Promise<void> => {
+  const subscription = findSubscription(req, res);
+  if (!subscription) return;
+  if (!requireStatus(res, subscription, ['trialing', 'active', 'past_due'], 'pause')) return;
+
+  res.json({
+    success: true,
+    subscription: toSubscriptionResponse(await subscriptionService.pause(subscription)),
+  });
+});
+
+/**
+ * Resume billing (a billing date missed while paused is charged right away)
+ * POST /api/subscriptions/:subscriptionId/resume
+ */
+router.post('/:subscriptionId/resume', async (req: Request, res: Response): Promise<void> => {
+  const subscription = findSubscription(req, res);
+  if (!subscription) return;
+  if (!requireStatus(res, subscription, ['paused'], 'resume')) return;
+
+  res.json({
+    success: true,
+    subscription: toSubscriptionResponse(await subscriptionService.resume(subscription)),
+  });
+});
+
+/**
+ * Cancel a subscription
+ * POST /api/subscriptions/:subscriptionId/cancel
+ *
+ * Request Body:
+ * - atPeriodEnd: Keep the subscription until the paid period ends (default: false)
+ */
+router.post('/:subscriptionId/cancel', validateBody(cancelSubscriptionSchema), async (req: Request, res: Response): Promise<void> => {
+  const subscription = findSubscription(req, res);
+  if (!subscription) return;
+  if (!requireStatus(res, subscription, ['pending', 'trialing', 'active', 'past_due', 'paused'], 'cancel')) return;
+
+  const { atPeriodEnd } = req.body as Infer<typeof cancelSubscriptionSchema>;
+
+  res.json({
+    success: true,
+    subscription: toSubscriptionResponse(await subscriptionService.cancel(subscription, atPeriodEnd ?? false)),
+  });
+});
+
+export default router;
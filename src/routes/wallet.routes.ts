@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
+import { sendErrorResponse } from '../errors/viva-api.error.js';
+import { requireScope } from '../middleware/auth.middleware.js';
+import { rateLimit } from '../middleware/rate-limit.middleware.js';
 
 const router = Router();
 
@@ -7,7 +10,7 @@ const router = Router();
  * Get all merchant wallets
  * GET /api/wallets
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requireScope('wallets:read'), rateLimit('reads'), async (req: Request, res: Response) => {
   try {
     const wallets = await req.vivaService!.getWallets();
 
@@ -17,9 +20,7 @@ router.get('/', async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('Error retrieving wallets:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve wallets',
-    });
+    sendErrorResponse(res, error, 'Failed to retrieve wallets');
   }
 });
 
@@ -1,36 +1,38 @@
 import { Router } from "express";
-import type { Request, Response } from "express";
+import type { Request, Response, NextFunction } from "express";
 import crypto from "crypto";
 import axios from "axios";
-import type { WebhookPayload } from "../types/viva.types.js";
+import type {
+  TransactionEventData,
+  VivaWebhookEvent,
+  WebhookPayload,
+} from "../types/viva.types.js";
 import { webhookForwarderService } from "../services/webhook-forwarder.service.js";
+import { vivaEventService } from "../services/viva-event.service.js";
 import { getMerchantByKey } from "../config/merchant.config.js";
 import { vivaConfig } from "../config/viva.config.js";
+import { getEnvFlag } from "../config/env.config.js";
+import { authMiddleware, requireScope } from "../middleware/auth.middleware.js";
 
 const router = Router();
 
 /**
- * Verify webhook signature using the merchant's webhook secret
+ * Verify a webhook signature (hex HMAC-SHA256 of the raw body) in constant time
  */
 function verifySignature(
-  payload: string,
+  payload: Buffer,
   signature: string,
   secret: string,
 ): boolean {
-  if (!secret) {
-    console.warn("Webhook secret not configured, skipping verification");
-    return true;
-  }
+  const expected = crypto.createHmac("sha256", secret).update(payload).digest();
+  const provided = Buffer.from(signature.trim(), "hex");
 
-  const expectedSignature = crypto
-    .createHmac("sha256", secret)
-    .update(payload)
-    .digest("hex");
+  // timingSafeEqual throws on length mismatch; malformed hex decodes short
+  if (provided.length !== expected.length) {
+    return false;
+  }
 
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature),
-  );
+  return crypto.timingSafeEqual(provided, expected);
 }
 
 router.get("/viva", async (req: Request, res: Response) => {
@@ -72,9 +74,7 @@ router.get("/viva/:merchantKey", async (req: Request, res: Response) => {
       return;
     }
 
-    // const isDemo = merchant.vivaConfig.authUrl.includes('demo');
-    const tokenUrl = "https://demo.vivapayments.com/api/messages/config/token";
-    // 'https://www.vivapayments.com/api/messages/config/token';
+    const tokenUrl = `${merchant.vivaConfig.checkoutUrl}/api/messages/config/token`;
 
     const credentials = Buffer.from(
       `${merchant.vivaConfig.merchantId}:${merchant.vivaConfig.apiKey}`,
@@ -124,165 +124,91 @@ router.post("/viva/:merchantKey", async (req: Request, res: Response) => {
     }
 
     // Get signature from headers
-    const signature = req.headers["viva-signature-256"] as string;
+    const signature = req.headers["viva-signature-256"];
 
-    // Verify signature if secret is configured
-    if (merchant.webhookSecret && signature) {
-      const rawBody = JSON.stringify(req.body);
-      if (!verifySignature(rawBody, signature, merchant.webhookSecret)) {
+    if (!merchant.webhookSecret) {
+      if (merchant.webhookStrict) {
+        console.error(`Webhook rejected for merchant ${merchantKey}: strict mode without a webhook secret`);
+        res.status(401).json({ error: "Webhook secret not configured" });
+        return;
+      }
+      console.warn("Webhook secret not configured, skipping verification");
+    } else if (typeof signature === "string" && signature) {
+      // Verify against the exact bytes Viva sent
+      if (!req.rawBody || !verifySignature(req.rawBody, signature, merchant.webhookSecret)) {
         console.error(`Invalid webhook signature for merchant ${merchantKey}`);
         res.status(401).json({ error: "Invalid signature" });
         return;
       }
+    } else if (merchant.webhookStrict) {
+      console.error(`Unsigned webhook rejected for merchant ${merchantKey} (strict mode)`);
+      res.status(401).json({ error: "Missing signature" });
+      return;
+    } else {
+      console.warn(`Unsigned webhook accepted for merchant ${merchantKey}; set VIVA_WEBHOOK_STRICT to reject these`);
     }
 
-    const payload: WebhookPayload = req.body;
+    const payload: VivaWebhookEvent = req.body;
+    const eventData = payload.EventData as Partial<TransactionEventData> | undefined;
 
     console.log(`Received Viva webhook for merchant ${merchantKey}:`, {
       eventTypeId: payload.EventTypeId,
-      transactionId: payload.EventData?.TransactionId,
-      orderCode: payload.EventData?.OrderCode,
-      statusId: payload.EventData?.StatusId,
-      amount: payload.EventData?.Amount,
+      transactionId: eventData?.TransactionId,
+      orderCode: eventData?.OrderCode,
+      statusId: eventData?.StatusId,
+      amount: eventData?.Amount,
     });
 
-    // Handle different event types
-    switch (payload.EventTypeId) {
-      case 1796: // Transaction Payment Created
-        await handleTransactionPaymentCreated(payload);
-        break;
-
-      case 1798: // Transaction Failed
-        await handleTransactionFailed(payload);
-        break;
-
-      case 1797: // Transaction Reversal Created (Refund/Cancel)
-        await handleTransactionReversalCreated(payload);
-        break;
-
-      default:
-        console.log(`Unhandled event type: ${payload.EventTypeId}`);
+    // Viva retries deliveries: acknowledge repeats without processing them again
+    if (!(await vivaEventService.process(merchantKey, payload))) {
+      console.log(`Duplicate Viva webhook ignored for merchant ${merchantKey}:`, {
+        eventTypeId: payload.EventTypeId,
+        transactionId: eventData?.TransactionId,
+      });
+      res.status(200).json({ received: true, duplicate: true });
+      return;
     }
 
     // Respond with 200 to acknowledge receipt
     res.status(200).json({ received: true });
   } catch (error) {
     console.error("Error processing webhook:", error);
-    // Still return 200 to prevent retries for processing errors
-    res.status(200).json({ received: true, error: "Processing error" });
+    // Not acknowledged, so Viva delivers it again; the event was not recorded as processed
+    res.status(500).json({ received: false, error: "Processing error" });
   }
 });
 
 /**
- * Handle successful payment event
- */
-async function handleTransactionPaymentCreated(
-  payload: WebhookPayload,
-): Promise<void> {
-  const { EventData } = payload;
-
-  console.log("Payment successful:", {
-    transactionId: EventData.TransactionId,
-    orderCode: EventData.OrderCode,
-    amount: EventData.Amount,
-    email: EventData.Email,
-    cardNumber: EventData.CardNumber,
-  });
-
-  // Forward to callback URL
-  await webhookForwarderService.forwardPaymentSuccess(
-    EventData.OrderCode,
-    {
-      transactionId: EventData.TransactionId,
-      amount: EventData.Amount,
-      currency: EventData.CurrencyCode,
-      status: EventData.StatusId,
-      customer: {
-        email: EventData.Email,
-        fullName: EventData.FullName,
-        phone: EventData.Phone,
-      },
-      card: {
-        lastFour: EventData.CardNumber?.slice(-4),
-        brand: String(EventData.CardTypeId),
-        expiryDate: undefined,
-      },
-      merchantReference: EventData.MerchantTrns,
-    },
-    payload, // Include raw payload
-  );
-}
-
-/**
- * Handle failed payment event
- */
-async function handleTransactionFailed(payload: WebhookPayload): Promise<void> {
-  const { EventData } = payload;
-
-  console.log("Payment failed:", {
-    transactionId: EventData.TransactionId,
-    orderCode: EventData.OrderCode,
-    statusId: EventData.StatusId,
-  });
-
-  // Forward to callback URL
-  await webhookForwarderService.forwardPaymentFailed(
-    EventData.OrderCode,
-    {
-      transactionId: EventData.TransactionId,
-      status: EventData.StatusId,
-      merchantReference: EventData.MerchantTrns,
-    },
-    payload, // Include raw payload
-  );
-}
-
-/**
- * Handle refund/reversal event
+ * Answer 404 unless WEBHOOK_TEST_SIMULATE_ENABLED is set: simulated events
+ * change the ledger, refunds, pre-auth holds and subscriptions like real ones
  */
-async function handleTransactionReversalCreated(
-  payload: WebhookPayload,
-): Promise<void> {
-  const { EventData } = payload;
-
-  console.log("Transaction reversed:", {
-    transactionId: EventData.TransactionId,
-    orderCode: EventData.OrderCode,
-    amount: EventData.Amount,
-  });
-
-  // Forward to callback URL
-  await webhookForwarderService.forwardPaymentRefunded(
-    EventData.OrderCode,
-    {
-      transactionId: EventData.TransactionId,
-      amount: EventData.Amount,
-      currency: EventData.CurrencyCode,
-      merchantReference: EventData.MerchantTrns,
-    },
-    payload, // Include raw payload
-  );
+function testSimulateEnabled(_req: Request, res: Response, next: NextFunction): void {
+  if (!getEnvFlag("WEBHOOK_TEST_SIMULATE_ENABLED")) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  next();
 }
 
 /**
- * Test endpoint to simulate Viva webhooks (for local development)
+ * Test endpoint to simulate Viva webhooks (for local development).
+ * Off unless WEBHOOK_TEST_SIMULATE_ENABLED=true; requires X-Api-Key and
+ * applies the event to the authenticated merchant.
  * POST /api/webhooks/test-simulate
  *
  * Body: {
  *   orderCode: number,
  *   eventType: "success" | "failed" | "refund",
- *   amount?: number,
+ *   amount?: number, // Cents; sent to the handlers in major units like Viva does
  *   transactionId?: string
  * }
  */
 router.post(
   "/test-simulate",
+  testSimulateEnabled,
+  authMiddleware,
+  requireScope("orders:write"),
   async (req: Request, res: Response): Promise<void> => {
-    if (process.env.NODE_ENV === "production") {
-      res.status(403).json({ error: "Test endpoint disabled in production" });
-      return;
-    }
-
     const { orderCode, eventType, amount, transactionId } = req.body;
 
     if (!orderCode) {
@@ -300,7 +226,7 @@ router.post(
       EventData: {
         TransactionId: testTransactionId,
         OrderCode: Number(orderCode),
-        Amount: testAmount,
+        Amount: testAmount / 100,
         StatusId: eventType === "success" ? "F" : "E",
         CurrencyCode: "EUR",
         Email: "test@example.com",
@@ -320,17 +246,7 @@ router.post(
 
     try {
       // Process the mock webhook like a real one
-      switch (mockPayload.EventTypeId) {
-        case 1796:
-          await handleTransactionPaymentCreated(mockPayload);
-          break;
-        case 1798:
-          await handleTransactionFailed(mockPayload);
-          break;
-        case 1797:
-          await handleTransactionReversalCreated(mockPayload);
-          break;
-      }
+      await vivaEventService.dispatch(mockPayload, req.merchantKey!);
 
       res.json({
         success: true,
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { createStore } from '../storage/store.factory.js';
+import type { RetrieveTransactionResponse } from '../types/viva.types.js';
+import type { SavedCard } from '../types/card-vault.types.js';
+
+// Viva accepts at most 10 cardTokens per order
+export const MAX_ORDER_CARD_TOKENS = 10;
+
+// Keyed by `${merchantKey}:${customerRef}:${cardId}`
+const cardStore = createStore<SavedCard>('saved-cards');
+
+// Viva CardTypeId values seen on transactions
+const CARD_BRANDS: Record<number, string> = {
+  0: 'visa',
+  1: 'mastercard',
+  2: 'diners',
+  3: 'amex',
+};
+
+/**
+ * Card brand name for a Viva CardTypeId (the ID itself when unknown)
+ */
+export function getCardBrand(cardTypeId: number): string {
+  return CARD_BRANDS[cardTypeId] ?? String(cardTypeId);
+}
+
+/**
+ * Parse Viva's cardExpirationDate ("2030-12-31T00:00:00") into month and year
+ */
+function parseExpiry(value: string | undefined): { expiryMonth?: number; expiryYear?: number } {
+  const match = value?.match(/^(\d{4})-(\d{2})/);
+  if (!match) return {};
+  return { expiryYear: Number(match[1]), expiryMonth: Number(match[2]) };
+}
+
+/**
+ * Card Token Vault
+ * Keeps Viva card tokens per merchant and customer, with display metadata,
+ * so clients never have to store tokens themselves.
+ */
+class CardVaultService {
+  /**
+   * Save a token for a customer. Saving the same physical card again
+   * replaces the stored token instead of adding a duplicate.
+   */
+  saveCard(
+    merchantKey: string,
+    customerRef: string,
+    token: string,
+    sourceTransactionId: string,
+    transaction: RetrieveTransactionResponse
+  ): SavedCard {
+    const now = new Date().toISOString();
+    const existing = transaction.cardUniqueReference
+      ? this.listCards(merchantKey, customerRef).find((card) => card.cardUniqueReference === transaction.cardUniqueReference)
+      : undefined;
+
+    const card: SavedCard = {
+      merchantKey,
+      customerRef,
+      cardId: existing?.cardId ?? crypto.randomUUID(),
+      token,
+      sourceTransactionId,
+      lastFour: transaction.cardNumber ? transaction.cardNumber.slice(-4) : undefined,
+      brand: getCardBrand(transaction.cardTypeId),
+      ...parseExpiry(transaction.cardExpirationDate),
+      cardUniqueReference: transaction.cardUniqueReference || undefined,
+      recurringSupport: transaction.recurringSupport,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      lastChargedAt: existing?.lastChargedAt,
+    };
+
+    cardStore.set(`${merchantKey}:${customerRef}:${card.cardId}`, card);
+    return card;
+  }
+
+  getCard(merchantKey: string, customerRef: string, cardId: string): SavedCard | undefined {
+    return cardStore.get(`${merchantKey}:${customerRef}:${cardId}`);
+  }
+
+  /**
+   * What clients see of a saved card when listing them (no token)
+   */
+  toSummary(card: SavedCard): Pick<SavedCard, 'cardId' | 'brand' | 'lastFour'> {
+    return { cardId: card.cardId, brand: card.brand, lastFour: card.lastFour };
+  }
+
+  /**
+   * A customer's cards, most recently saved first
+   */
+  listCards(merchantKey: string, customerRef: string): SavedCard[] {
+    return cardStore
+      .values()
+      .filter((card) => card.merchantKey === merchantKey && card.customerRef === customerRef)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  deleteCard(merchantKey: string, customerRef: string, cardId: string): boolean {
+    const key = `${merchantKey}:${customerRef}:${cardId}`;
+    if (!cardStore.has(key)) return false;
+
+    cardStore.delete(key);
+    return true;
+  }
+
+  /**
+   * Tokens to offer on a new order for the customer
+   */
+  getOrderTokens(merchantKey: string, customerRef: string): string[] {
+    return this.listCards(merchantKey, customerRef)
+      .slice(0, MAX_ORDER_CARD_TOKENS)
+      .map((card) => card.token);
+  }
+
+  markCharged(card: SavedCard): void {
+    card.lastChargedAt = new Date().toISOString();
+    cardStore.set(`${card.merchantKey}:${card.customerRef}:${card.cardId}`, card);
+  }
+}
+
+export const cardVaultService = new CardVaultService();
@@ -0,0 +1,370 @@
+import { createStore } from '../storage/store.factory.js';
+import { getMerchantKeys } from '../config/merchant.config.js';
+import { TransactionType } from '../types/viva.types.js';
+import type {
+  CreatePaymentOrderRequest,
+  TransactionPriceCalculatedEventData,
+  WebhookEnvelope,
+  WebhookPayload,
+} from '../types/viva.types.js';
+import type {
+  LedgerOrder,
+  LedgerOrderStatus,
+  LedgerTransaction,
+  LedgerTransactionKind,
+  LedgerTransactionFees,
+  LedgerListFilter,
+  LedgerPage,
+} from '../types/ledger.types.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Orders and transactions keyed by `${merchantKey}:${id}`
+const orderStore = createStore<LedgerOrder>('ledger-orders');
+const transactionStore = createStore<LedgerTransaction>('ledger-transactions');
+const feeStore = createStore<LedgerTransactionFees>('ledger-transaction-fees');
+
+/**
+ * Convert a Viva amount (major units, e.g. 12.5) to cents
+ */
+export function toMinorUnits(amount: number | undefined): number | undefined {
+  return amount !== undefined ? Math.round(amount * 100) : undefined;
+}
+
+/**
+ * Paid and refunded amounts (cents) from an order's successful transactions.
+ * A pre-auth hold counts for what is still held; its captures count as
+ * payments and its void only releases the hold.
+ */
+function sumAmounts(transactions: LedgerTransaction[]): { paidAmount: number; refundedAmount: number } {
+  const holds = new Set(transactions
+    .filter((t) => t.transactionTypeId === TransactionType.PreAuth)
+    .map((t) => t.transactionId));
+
+  let paidAmount = 0;
+  let refundedAmount = 0;
+  for (const transaction of transactions) {
+    const amount = transaction.amount ?? 0;
+
+    if (transaction.transactionTypeId === TransactionType.PreAuth) {
+      const released = transactions
+        .filter((t) => t.parentId === transaction.transactionId)
+        .reduce((sum, t) => sum + (t.amount ?? 0), 0);
+      paidAmount += Math.max(amount - released, 0);
+    } else if (transaction.kind === 'payment') {
+      paidAmount += amount;
+    } else if (!(transaction.parentId && holds.has(transaction.parentId))) {
+      refundedAmount += amount;
+    }
+  }
+
+  return { paidAmount, refundedAmount };
+}
+
+/**
+ * Encode a pagination cursor from the last item of a page
+ */
+function encodeCursor(createdAt: string, id: string): string {
+  return Buffer.from(`${createdAt}|${id}`).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor, returning undefined if it is malformed
+ */
+function decodeCursor(cursor: string): { createdAt: string; id: string } | undefined {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  if (!createdAt || !id) return undefined;
+  return { createdAt, id };
+}
+
+/**
+ * Sort newest first and slice one page after the cursor
+ */
+function paginate<T>(
+  items: T[],
+  getKey: (item: T) => { createdAt: string; id: string },
+  filter: LedgerListFilter
+): LedgerPage<T> {
+  const limit = Math.min(filter.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  const compare = (a: { createdAt: string; id: string }, b: { createdAt: string; id: string }) =>
+    b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id);
+
+  let sorted = [...items].sort((a, b) => compare(getKey(a), getKey(b)));
+
+  if (filter.cursor) {
+    const after = decodeCursor(filter.cursor);
+    if (after) {
+      sorted = sorted.filter((item) => compare(after, getKey(item)) < 0);
+    }
+  }
+
+  const page = sorted.slice(0, limit);
+  const last = page[page.length - 1];
+  const hasMore = sorted.length > limit;
+
+  return {
+    items: page,
+    nextCursor: hasMore && last ? encodeCursor(getKey(last).createdAt, getKey(last).id) : null,
+  };
+}
+
+/**
+ * Check the filters shared by orders and transactions
+ */
+function matchesCommonFilter(
+  item: { createdAt: string; tags: string[]; merchantTrns?: string | undefined },
+  filter: LedgerListFilter
+): boolean {
+  const createdAt = new Date(item.createdAt);
+  if (filter.from && createdAt < filter.from) return false;
+  if (filter.to && createdAt > filter.to) return false;
+  if (filter.tag && !item.tags.includes(filter.tag)) return false;
+  if (filter.merchantTrns && item.merchantTrns !== filter.merchantTrns) return false;
+  return true;
+}
+
+/**
+ * Ledger Service
+ * Keeps a local, per-merchant record of orders and the transactions
+ * Viva reports for them through webhooks
+ */
+class LedgerService {
+  /**
+   * Record an order created through the middleware. With `retainMs`, the order
+   * is forgotten after that long unless a transaction is recorded for it.
+   */
+  recordOrder(
+    merchantKey: string,
+    orderCode: number | string,
+    request: CreatePaymentOrderRequest,
+    retainMs?: number
+  ): LedgerOrder {
+    const now = new Date().toISOString();
+    const order: LedgerOrder = {
+      merchantKey,
+      orderCode: String(orderCode),
+      amount: request.amount,
+      currencyCode: request.currencyCode,
+      merchantTrns: request.merchantTrns,
+      customerTrns: request.customerTrns,
+      tags: request.tags ?? [],
+      customer: request.customer,
+      preauth: !!request.preauth,
+      allowRecurring: !!request.allowRecurring,
+      status: 'pending',
+      paidAmount: 0,
+      refundedAmount: 0,
+      transactionIds: [],
+      retainUntil: retainMs !== undefined ? new Date(Date.now() + retainMs).toISOString() : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.saveOrder(order);
+    return order;
+  }
+
+  /**
+   * Get an order by merchant and order code
+   */
+  getOrder(merchantKey: string, orderCode: number | string): LedgerOrder | undefined {
+    return orderStore.get(`${merchantKey}:${orderCode}`);
+  }
+
+  /**
+   * Find an order by order code alone (e.g. for browser redirects that carry no merchant),
+   * looking up its key under each registered merchant
+   */
+  findOrder(orderCode: number | string): LedgerOrder | undefined {
+    for (const merchantKey of getMerchantKeys()) {
+      const order = this.getOrder(merchantKey, orderCode);
+      if (order) return order;
+    }
+    return undefined;
+  }
+
+  /**
+   * Change an order's status (e.g. after cancellation)
+   */
+  updateOrderStatus(merchantKey: string, orderCode: number | string, status: LedgerOrderStatus): void {
+    const order = this.getOrder(merchantKey, orderCode);
+    if (!order) return;
+
+    order.status = status;
+    order.updatedAt = new Date().toISOString();
+    this.saveOrder(order);
+  }
+
+  /**
+   * Record a transaction reported by a Viva webhook and update its order's state
+   */
+  recordWebhookTransaction(
+    merchantKey: string,
+    payload: WebhookPayload,
+    kind: LedgerTransactionKind,
+    succeeded: boolean
+  ): LedgerTransaction {
+    const { EventData } = payload;
+    const now = new Date().toISOString();
+    const transaction: LedgerTransaction = {
+      merchantKey,
+      transactionId: EventData.TransactionId,
+      orderCode: String(EventData.OrderCode),
+      kind,
+      status: succeeded ? 'succeeded' : 'failed',
+      eventTypeId: payload.EventTypeId,
+      statusId: EventData.StatusId,
+      transactionTypeId: EventData.TransactionTypeId,
+      parentId: EventData.ParentId,
+      amount: toMinorUnits(EventData.Amount),
+      currencyCode: EventData.CurrencyCode,
+      merchantTrns: EventData.MerchantTrns,
+      tags: EventData.Tags ?? [],
+      customer: {
+        email: EventData.Email,
+        fullName: EventData.FullName,
+      },
+      card: {
+        lastFour: EventData.CardNumber?.slice(-4),
+        cardTypeId: EventData.CardTypeId,
+      },
+      createdAt: EventData.InsDate ? new Date(EventData.InsDate).toISOString() : now,
+      recordedAt: now,
+    };
+
+    transactionStore.set(`${merchantKey}:${transaction.transactionId}`, transaction);
+    this.applyTransactionToOrder(transaction);
+    return transaction;
+  }
+
+  /**
+   * Update the order's amounts and status from a recorded transaction
+   */
+  private applyTransactionToOrder(transaction: LedgerTransaction): void {
+    const order = this.getOrder(transaction.merchantKey, transaction.orderCode);
+    if (!order) return;
+
+    if (!order.transactionIds.includes(transaction.transactionId)) {
+      order.transactionIds.push(transaction.transactionId);
+    }
+    order.retainUntil = undefined;
+
+    const transactions = this.getOrderTransactions(order.merchantKey, order.orderCode)
+      .filter((t) => t.status === 'succeeded');
+    const { paidAmount, refundedAmount } = sumAmounts(transactions);
+    order.paidAmount = paidAmount;
+    order.refundedAmount = refundedAmount;
+
+    if (order.refundedAmount > 0) {
+      order.status = order.refundedAmount >= order.paidAmount ? 'refunded' : 'partially_refunded';
+    } else if (order.paidAmount > 0) {
+      order.status = 'paid';
+    } else if (order.status === 'paid') {
+      order.status = 'cancelled'; // Pre-auth released without a capture
+    } else if (transaction.status === 'failed' && order.status === 'pending') {
+      order.status = 'failed';
+    }
+
+    order.updatedAt = new Date().toISOString();
+    this.saveOrder(order);
+  }
+
+  /**
+   * Get a transaction by merchant and transaction ID
+   */
+  getTransaction(merchantKey: string, transactionId: string): LedgerTransaction | undefined {
+    return transactionStore.get(`${merchantKey}:${transactionId}`);
+  }
+
+  /**
+   * Record the fees Viva calculated for a transaction (Transaction Price Calculated webhook)
+   */
+  recordTransactionFees(
+    merchantKey: string,
+    payload: WebhookEnvelope<number, TransactionPriceCalculatedEventData>
+  ): LedgerTransactionFees {
+    const { EventData } = payload;
+    const fees: LedgerTransactionFees = {
+      merchantKey,
+      transactionId: EventData.TransactionId,
+      orderCode: EventData.OrderCode !== undefined ? String(EventData.OrderCode) : undefined,
+      currencyCode: EventData.CurrencyCode,
+      interchange: toMinorUnits(EventData.Interchange),
+      isvFee: toMinorUnits(EventData.IsvFee),
+      totalCommission: toMinorUnits(EventData.TotalCommission),
+      recordedAt: new Date().toISOString(),
+    };
+
+    feeStore.set(`${merchantKey}:${fees.transactionId}`, fees);
+    return fees;
+  }
+
+  /**
+   * Get the fees recorded for a transaction
+   */
+  getTransactionFees(merchantKey: string, transactionId: string): LedgerTransactionFees | undefined {
+    return feeStore.get(`${merchantKey}:${transactionId}`);
+  }
+
+  /**
+   * Get all transactions recorded for an order
+   */
+  getOrderTransactions(merchantKey: string, orderCode: number | string): LedgerTransaction[] {
+    return transactionStore
+      .values()
+      .filter((t) => t.merchantKey === merchantKey && t.orderCode === String(orderCode));
+  }
+
+  /**
+   * Get a merchant's transactions created in [from, to), unpaginated
+   */
+  getTransactionsBetween(merchantKey: string, from: Date, to: Date): LedgerTransaction[] {
+    return transactionStore.values().filter((t) => {
+      const createdAt = new Date(t.createdAt);
+      return t.merchantKey === merchantKey && createdAt >= from && createdAt < to;
+    });
+  }
+
+  /**
+   * List a merchant's orders
+   */
+  listOrders(merchantKey: string, filter: LedgerListFilter = {}): LedgerPage<LedgerOrder> {
+    const orders = orderStore.values().filter((order) =>
+      order.merchantKey === merchantKey &&
+      (!filter.status || order.status === filter.status) &&
+      matchesCommonFilter(order, filter)
+    );
+
+    return paginate(orders, (order) => ({ createdAt: order.createdAt, id: order.orderCode }), filter);
+  }
+
+  /**
+   * List a merchant's transactions
+   */
+  listTransactions(
+    merchantKey: string,
+    filter: LedgerListFilter & { kind?: LedgerTransactionKind | undefined } = {}
+  ): LedgerPage<LedgerTransaction> {
+    const transactions = transactionStore.values().filter((transaction) =>
+      transaction.merchantKey === merchantKey &&
+      (!filter.status || transaction.status === filter.status) &&
+      (!filter.kind || transaction.kind === filter.kind) &&
+      matchesCommonFilter(transaction, filter)
+    );
+
+    return paginate(
+      transactions,
+      (transaction) => ({ createdAt: transaction.createdAt, id: transaction.transactionId }),
+      filter
+    );
+  }
+
+  private saveOrder(order: LedgerOrder): void {
+    const ttlMs = order.retainUntil ? Math.max(new Date(order.retainUntil).getTime() - Date.now(), 1) : undefined;
+    orderStore.set(`${order.merchantKey}:${order.orderCode}`, order, ttlMs !== undefined ? { ttlMs } : {});
+  }
+}
+
+export const ledgerService = new LedgerService();
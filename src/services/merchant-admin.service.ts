@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import { createStore } from '../storage/store.factory.js';
+import {
+  applyMerchantRecords,
+  getConfiguredMerchant,
+  getConfiguredMerchantKeys,
+  hashApiKey,
+  toMerchantSettings,
+} from '../config/merchant.config.js';
+import type { VivaEnvironment } from '../config/merchant.config.js';
+import type { ApiKeyGrant, ApiKeyUsage } from '../types/api-key.types.js';
+import type { MerchantRateLimits } from '../types/rate-limit.types.js';
+import type {
+  ManagedApiKey,
+  ManagedMerchant,
+  MerchantApiKey,
+  MerchantRecord,
+  MerchantSettings,
+} from '../types/merchant-admin.types.js';
+
+// Admin API changes keyed by merchant key; applied on top of the env / file config
+const recordStore = createStore<MerchantRecord>('merchant-records');
+// Last use of every key, by `${merchantKey}:${keyId}`
+const usageStore = createStore<ApiKeyUsage>('api-key-usage');
+
+// Last-used timestamps are only written when older than this, to keep requests from writing on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface CreateMerchantInput {
+  merchantKey: string;
+  environment?: VivaEnvironment | undefined;
+  webhookSecret?: string | undefined;
+  webhookStrict?: boolean | undefined;
+  redirectSecret?: string | undefined;
+  rateLimits?: MerchantRateLimits | undefined;
+  viva: {
+    clientId: string;
+    clientSecret: string;
+    merchantId?: string | undefined;
+    apiKey?: string | undefined;
+    sourceCode?: string | undefined;
+  };
+  apiKeyLabel?: string | undefined;
+  apiKeyScopes?: ApiKeyGrant[] | undefined;
+}
+
+export interface UpdateMerchantInput {
+  disabled?: boolean | undefined;
+  environment?: VivaEnvironment | undefined;
+  webhookSecret?: string | undefined;
+  webhookStrict?: boolean | undefined;
+  redirectSecret?: string | undefined;
+  rateLimits?: MerchantRateLimits | undefined; // Replaces the merchant's overrides
+  viva?: Partial<MerchantSettings['viva']> | undefined;
+}
+
+export interface IssueApiKeyInput {
+  label?: string | undefined;
+  scopes?: ApiKeyGrant[] | undefined; // Default: all ('*')
+  expiresInSeconds?: number | undefined; // Default: no expiry
+}
+
+/**
+ * A new X-Api-Key: `sk_` followed by 32 random bytes
+ */
+function generateApiKey(): string {
+  return `sk_${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Copy the set fields of `update` over `target` (undefined leaves a field alone)
+ */
+function assignDefined<T extends object>(target: T, update: { [K in keyof T]?: T[K] | undefined }): T {
+  for (const [field, value] of Object.entries(update)) {
+    if (value !== undefined) (target as Record<string, unknown>)[field] = value;
+  }
+  return target;
+}
+
+/**
+ * Merchant Admin Service
+ * Onboards, updates and disables merchants and issues and revokes their
+ * API keys. Changes are persisted as per-merchant records and applied to
+ * the merchant registry right away; configured merchants (env vars or
+ * MERCHANTS_FILE) can be managed too, their record overriding the config.
+ */
+class MerchantAdminService {
+  /**
+   * Apply the persisted records to the registry (on startup)
+   */
+  load(): void {
+    applyMerchantRecords(recordStore.values());
+  }
+
+  /**
+   * Note that a key was used (throttled to once a minute per key)
+   */
+  recordApiKeyUse(merchantKey: string, keyId: string, now: Date = new Date()): void {
+    const usageKey = `${merchantKey}:${keyId}`;
+    const usage = usageStore.get(usageKey);
+    if (usage && now.getTime() - new Date(usage.lastUsedAt).getTime() < LAST_USED_RESOLUTION_MS) return;
+
+    usageStore.set(usageKey, { lastUsedAt: now.toISOString() });
+  }
+
+  /**
+   * Every merchant, configured or created through the API, disabled ones included
+   */
+  listMerchants(): ManagedMerchant[] {
+    const merchantKeys = new Set([...getConfiguredMerchantKeys(), ...recordStore.values().map((r) => r.merchantKey)]);
+
+    return Array.from(merchantKeys)
+      .sort()
+      .map((merchantKey) => this.getMerchant(merchantKey))
+      .filter((merchant): merchant is ManagedMerchant => merchant !== undefined);
+  }
+
+  getMerchant(merchantKey: string): ManagedMerchant | undefined {
+    const configured = getConfiguredMerchant(merchantKey);
+    const record = recordStore.get(merchantKey);
+    const settings = record?.settings ?? (configured ? toMerchantSettings(configured) : undefined);
+    if (!settings) return undefined; // A record left behind by a merchant removed from the config
+
+    return {
+      merchantKey,
+      source: configured ? 'config' : 'admin',
+      disabled: record?.disabled ?? false,
+      settings,
+      overridden: !!configured && !!record?.settings,
+      apiKeys: [
+        ...(configured?.apiKeys ?? []).map((apiKey): ManagedApiKey => ({
+          id: apiKey.id,
+          source: 'config',
+          label: apiKey.label,
+          scopes: apiKey.scopes,
+        })),
+        ...(record?.apiKeys ?? []).map(({ keyHash, ...apiKey }): ManagedApiKey => ({ ...apiKey, source: 'admin' })),
+      ].map((apiKey) => ({ ...apiKey, lastUsedAt: usageStore.get(`${merchantKey}:${apiKey.id}`)?.lastUsedAt })),
+      createdAt: record?.createdAt,
+      updatedAt: record?.updatedAt,
+    };
+  }
+
+  /**
+   * Onboard a merchant with a first API key.
+   * Returns undefined if the merchant key is taken.
+   */
+  createMerchant(input: CreateMerchantInput): { merchant: ManagedMerchant; apiKey: MerchantApiKey; key: string } | undefined {
+    if (this.getMerchant(input.merchantKey)) return undefined;
+
+    const now = new Date().toISOString();
+    const existing = recordStore.get(input.merchantKey);
+    const record: MerchantRecord = {
+      merchantKey: input.merchantKey,
+      settings: {
+        environment: input.environment ?? 'demo',
+        webhookSecret: input.webhookSecret ?? '',
+        webhookStrict: input.webhookStrict ?? false,
+        redirectSecret: input.redirectSecret ?? '',
+        rateLimits: input.rateLimits,
+        viva: {
+          clientId: input.viva.clientId,
+          clientSecret: input.viva.clientSecret,
+          merchantId: input.viva.merchantId ?? '',
+          apiKey: input.viva.apiKey ?? '',
+          sourceCode: input.viva.sourceCode,
+        },
+      },
+      disabled: false,
+      apiKeys: existing?.apiKeys ?? [],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    const issued = this.addApiKey(record, { label: input.apiKeyLabel, scopes: input.apiKeyScopes });
+    this.save(record);
+    return { merchant: this.getMerchant(record.merchantKey)!, ...issued };
+  }
+
+  /**
+   * Change a merchant's settings or disable / re-enable it.
+   * Settings of a configured merchant are copied into its record on the first change.
+   */
+  updateMerchant(merchant: ManagedMerchant, update: UpdateMerchantInput): ManagedMerchant {
+    const { disabled, viva, ...settingsUpdate } = update;
+    const record = this.getOrCreateRecord(merchant);
+
+    if (disabled !== undefined) {
+      record.disabled = disabled;
+    }
+
+    const settingsChanged = viva !== undefined || Object.values(settingsUpdate).some((value) => value !== undefined);
+    if (settingsChanged) {
+      const settings = structuredClone(merchant.settings);
+      assignDefined(settings, settingsUpdate);
+      assignDefined(settings.viva, viva ?? {});
+      record.settings = settings;
+    }
+
+    this.save(record);
+    return this.getMerchant(merchant.merchantKey)!;
+  }
+
+  /**
+   * Issue an additional API key. Existing keys keep working, so clients can
+   * switch over before the old key is revoked. The key itself is only returned here.
+   */
+  issueApiKey(merchant: ManagedMerchant, input: IssueApiKeyInput = {}): { apiKey: MerchantApiKey; key: string } {
+    const record = this.getOrCreateRecord(merchant);
+    const issued = this.addApiKey(record, input);
+    this.save(record);
+    return issued;
+  }
+
+  /**
+   * Revoke an issued API key, at once or after a grace period in which it still works.
+   * Returns undefined if the merchant has no such key.
+   */
+  revokeApiKey(merchant: ManagedMerchant, keyId: string, graceSeconds = 0): MerchantApiKey | undefined {
+    const record = recordStore.get(merchant.merchantKey);
+    const apiKey = record?.apiKeys.find((key) => key.id === keyId);
+    if (!record || !apiKey) return undefined;
+
+    const now = Date.now();
+    const expiresAt = new Date(now + graceSeconds * 1000).toISOString();
+    apiKey.revokedAt ??= new Date(now).toISOString();
+    // Revoking again can only bring the end forward
+    if (!apiKey.expiresAt || expiresAt < apiKey.expiresAt) {
+      apiKey.expiresAt = expiresAt;
+    }
+
+    this.save(record);
+    return apiKey;
+  }
+
+  private addApiKey(record: MerchantRecord, input: IssueApiKeyInput): { apiKey: MerchantApiKey; key: string } {
+    const now = Date.now();
+    const key = generateApiKey();
+    const apiKey: MerchantApiKey = {
+      id: `key_${crypto.randomBytes(8).toString('hex')}`,
+      keyHash: hashApiKey(key),
+      lastFour: key.slice(-4),
+      label: input.label,
+      scopes: input.scopes ?? ['*'],
+      createdAt: new Date(now).toISOString(),
+      expiresAt: input.expiresInSeconds !== undefined
+        ? new Date(now + input.expiresInSeconds * 1000).toISOString()
+        : undefined,
+    };
+
+    record.apiKeys.push(apiKey);
+    return { apiKey, key };
+  }
+
+  private getOrCreateRecord(merchant: ManagedMerchant): MerchantRecord {
+    const now = new Date().toISOString();
+    return recordStore.get(merchant.merchantKey) ?? {
+      merchantKey: merchant.merchantKey,
+      disabled: false,
+      apiKeys: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private save(record: MerchantRecord): void {
+    record.updatedAt = new Date().toISOString();
+    recordStore.set(record.merchantKey, record);
+    this.load();
+  }
+}
+
+export const merchantAdminService = new MerchantAdminService();
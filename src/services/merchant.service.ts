@@ -1,29 +1,37 @@
 import { VivaWalletService } from './viva-wallet.service.js';
 import { getMerchantByApiKey, getMerchantByKey } from '../config/merchant.config.js';
 import type { MerchantConfig } from '../config/merchant.config.js';
+import type { VivaConfig } from '../config/viva.config.js';
+import type { RegisteredApiKey } from '../types/api-key.types.js';
 
-// Lazy-created per-merchant service instances
-const serviceInstances = new Map<string, VivaWalletService>();
+// Lazy-created per-merchant service instances, with the Viva config they were built from
+const serviceInstances = new Map<string, { service: VivaWalletService; vivaConfig: VivaConfig }>();
 
 /**
- * Get or create a VivaWalletService for a merchant key
+ * Get or create a VivaWalletService for a merchant key.
+ * A registry reload that changes the merchant's Viva credentials or environment
+ * replaces its VivaConfig object, which drops the cached service (and its OAuth token).
  */
 function getOrCreateService(config: MerchantConfig): VivaWalletService {
-  let service = serviceInstances.get(config.merchantKey);
-  if (!service) {
-    service = new VivaWalletService(config.vivaConfig);
-    serviceInstances.set(config.merchantKey, service);
+  const cached = serviceInstances.get(config.merchantKey);
+  if (cached?.vivaConfig === config.vivaConfig) {
+    return cached.service;
   }
+
+  const service = new VivaWalletService(config.vivaConfig);
+  serviceInstances.set(config.merchantKey, { service, vivaConfig: config.vivaConfig });
   return service;
 }
 
 /**
- * Get VivaWalletService by API key (from X-Api-Key header)
+ * Get VivaWalletService by API key (from X-Api-Key header), with the key's ID and scopes
  */
-export function getServiceByApiKey(apiKey: string): { service: VivaWalletService; config: MerchantConfig } | undefined {
-  const merchantConfig = getMerchantByApiKey(apiKey);
-  if (!merchantConfig) return undefined;
-  return { service: getOrCreateService(merchantConfig), config: merchantConfig };
+export function getServiceByApiKey(
+  apiKey: string
+): { service: VivaWalletService; config: MerchantConfig; apiKey: RegisteredApiKey } | undefined {
+  const match = getMerchantByApiKey(apiKey);
+  if (!match) return undefined;
+  return { service: getOrCreateService(match.config), config: match.config, apiKey: match.apiKey };
 }
 
 /**
@@ -0,0 +1,231 @@
+import { getServiceByMerchantKey } from './merchant.service.js';
+import { ledgerService, toMinorUnits } from './ledger.service.js';
+import { vivaEventService } from './viva-event.service.js';
+import { WebhookEventType } from './webhook-forwarder.service.js';
+import { OrderState, TransactionStatus, TransactionType, WebhookEventTypeId } from '../types/viva.types.js';
+import type {
+  LegacyTransaction,
+  OrderUpdatedEventData,
+  RetrieveOrderResponse,
+  WebhookEnvelope,
+  WebhookPayload,
+} from '../types/viva.types.js';
+import type { LedgerTransactionKind } from '../types/ledger.types.js';
+import type {
+  OrderStatusReport,
+  ReconciledOrderStatus,
+  ReconciledTransaction,
+  RecoveredEvent,
+} from '../types/order-status.types.js';
+
+// Transaction types that give money back on a payment
+const REVERSAL_TYPES = new Set<number>([
+  TransactionType.Void,
+  TransactionType.Refund,
+  TransactionType.Reversal,
+  TransactionType.FastRefund,
+]);
+
+// Status of an order without successful payments, by Viva StateId
+const ORDER_STATE_STATUSES: Record<OrderState, ReconciledOrderStatus> = {
+  [OrderState.Pending]: 'pending',
+  [OrderState.Expired]: 'expired',
+  [OrderState.Canceled]: 'cancelled',
+  [OrderState.Paid]: 'paid',
+};
+
+/**
+ * Whether a Viva transaction takes a payment or gives money back
+ */
+export function getKind(transaction: LegacyTransaction): LedgerTransactionKind {
+  return REVERSAL_TYPES.has(transaction.TransactionType.TransactionTypeId) ? 'reversal' : 'payment';
+}
+
+/**
+ * Paid and refunded amounts (cents) from the order's successful transactions.
+ * A pre-auth hold counts for what is still held; its captures count as
+ * payments and its void only releases the hold.
+ */
+function sumAmounts(transactions: LegacyTransaction[]): { paidAmount: number; refundedAmount: number } {
+  const succeeded = transactions.filter((t) => t.StatusId === TransactionStatus.Success);
+  const holds = new Set(succeeded
+    .filter((t) => t.TransactionType.TransactionTypeId === TransactionType.PreAuth)
+    .map((t) => t.TransactionId));
+
+  let paidAmount = 0;
+  let refundedAmount = 0;
+  for (const transaction of succeeded) {
+    const amount = toMinorUnits(transaction.Amount) ?? 0;
+    const typeId = transaction.TransactionType.TransactionTypeId;
+
+    if (typeId === TransactionType.PreAuth) {
+      const released = succeeded
+        .filter((t) => t.ParentId === transaction.TransactionId)
+        .reduce((sum, t) => sum + (toMinorUnits(t.Amount) ?? 0), 0);
+      paidAmount += Math.max(amount - released, 0);
+    } else if (typeId === TransactionType.Charge || typeId === TransactionType.Capture) {
+      paidAmount += amount;
+    } else if (REVERSAL_TYPES.has(typeId) && !(transaction.ParentId && holds.has(transaction.ParentId))) {
+      refundedAmount += amount;
+    }
+  }
+
+  return { paidAmount, refundedAmount };
+}
+
+function getStatus(order: RetrieveOrderResponse, paidAmount: number, refundedAmount: number): ReconciledOrderStatus {
+  if (paidAmount > 0 && refundedAmount >= paidAmount) return 'refunded';
+  if (refundedAmount > 0) return 'partially_refunded';
+  if (paidAmount > 0) return 'paid';
+  return ORDER_STATE_STATUSES[order.StateId as OrderState] ?? 'pending';
+}
+
+/**
+ * The webhook Viva would have sent for a completed or failed transaction
+ */
+export function toTransactionEvent(transaction: LegacyTransaction): WebhookPayload | undefined {
+  let eventTypeId: number;
+  if (transaction.StatusId === TransactionStatus.Error) {
+    eventTypeId = WebhookEventTypeId.TransactionFailed;
+  } else if (transaction.StatusId === TransactionStatus.Success) {
+    eventTypeId = getKind(transaction) === 'reversal'
+      ? WebhookEventTypeId.TransactionReversalCreated
+      : WebhookEventTypeId.TransactionPaymentCreated;
+  } else {
+    return undefined; // Still in progress, or not a payment outcome
+  }
+
+  const payload: WebhookPayload = {
+    EventTypeId: eventTypeId,
+    EventData: {
+      TransactionId: transaction.TransactionId,
+      OrderCode: transaction.Order.OrderCode,
+      TransactionTypeId: transaction.TransactionType.TransactionTypeId,
+      StatusId: transaction.StatusId,
+      Amount: transaction.Amount,
+      CurrencyCode: transaction.CurrencyCode,
+      InsDate: transaction.InsDate,
+      SourceCode: transaction.SourceCode,
+      Tags: transaction.Order.Tags,
+    },
+  };
+
+  const { EventData } = payload;
+  if (transaction.ParentId) EventData.ParentId = transaction.ParentId;
+  if (transaction.MerchantTrns) EventData.MerchantTrns = transaction.MerchantTrns;
+  if (transaction.CustomerTrns) EventData.CustomerTrns = transaction.CustomerTrns;
+  if (transaction.Email) EventData.Email = transaction.Email;
+  if (transaction.FullName) EventData.FullName = transaction.FullName;
+  if (transaction.CreditCard) {
+    EventData.CardNumber = transaction.CreditCard.Number;
+    EventData.CardTypeId = transaction.CreditCard.CardType.CardTypeId;
+  }
+  return payload;
+}
+
+/**
+ * The event forwarded to the merchant for a transaction webhook
+ */
+export function getForwardedEvent(eventTypeId: number): WebhookEventType {
+  if (eventTypeId === WebhookEventTypeId.TransactionFailed) return WebhookEventType.PAYMENT_FAILED;
+  if (eventTypeId === WebhookEventTypeId.TransactionReversalCreated) return WebhookEventType.PAYMENT_REFUNDED;
+  return WebhookEventType.PAYMENT_SUCCESS;
+}
+
+export interface OrderStatusOptions {
+  reemit?: boolean | undefined; // Process and forward missed events (default: report only)
+}
+
+/**
+ * Order Status Service
+ * Works out an order's status from Viva's order and transactions and, on
+ * request, catches up on webhooks the middleware never received: missed
+ * events are processed and forwarded as if Viva had delivered them. Inbound
+ * dedup makes sure each event is forwarded once, whichever way it arrives.
+ * Orders missing from the ledger (e.g. in-memory stores after a restart) are
+ * only reported: their events may well have been forwarded already.
+ */
+class OrderStatusService {
+  async reconcile(merchantKey: string, orderCode: number, options: OrderStatusOptions = {}): Promise<OrderStatusReport> {
+    const merchant = getServiceByMerchantKey(merchantKey);
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantKey} not configured`);
+    }
+
+    const [order, vivaTransactions] = await Promise.all([
+      merchant.service.getOrder(orderCode),
+      merchant.service.listTransactions({ orderCode }),
+    ]);
+    vivaTransactions.sort((a, b) => a.InsDate.localeCompare(b.InsDate));
+
+    const transactions: ReconciledTransaction[] = vivaTransactions.map((t) => ({
+      transactionId: t.TransactionId,
+      parentId: t.ParentId ?? undefined,
+      transactionTypeId: t.TransactionType.TransactionTypeId,
+      kind: getKind(t),
+      statusId: t.StatusId,
+      amount: toMinorUnits(t.Amount) ?? 0,
+      createdAt: t.InsDate,
+      webhookReceived: !!ledgerService.getTransaction(merchantKey, t.TransactionId),
+    }));
+
+    const { paidAmount, refundedAmount } = sumAmounts(vivaTransactions);
+    const status = getStatus(order, paidAmount, refundedAmount);
+    const emittedEvents: RecoveredEvent[] = [];
+    const reemit = !!options.reemit && !!ledgerService.getOrder(merchantKey, orderCode);
+
+    // Transactions first, oldest first, so a refund is never forwarded before its payment
+    for (const transaction of reemit ? vivaTransactions : []) {
+      if (ledgerService.getTransaction(merchantKey, transaction.TransactionId)) continue;
+
+      const payload = toTransactionEvent(transaction);
+      if (payload && await vivaEventService.process(merchantKey, payload)) {
+        emittedEvents.push({ event: getForwardedEvent(payload.EventTypeId), transactionId: transaction.TransactionId });
+      }
+    }
+
+    // An order that expired or was cancelled without its Order Updated webhook
+    if (reemit && (status === 'expired' || status === 'cancelled')) {
+      const ledgerOrder = ledgerService.getOrder(merchantKey, orderCode);
+      if (ledgerOrder?.status !== status && await vivaEventService.process(merchantKey, this.toOrderUpdatedEvent(order))) {
+        emittedEvents.push({
+          event: status === 'cancelled' ? WebhookEventType.ORDER_CANCELLED : WebhookEventType.ORDER_UPDATED,
+        });
+      }
+    }
+
+    if (emittedEvents.length > 0) {
+      console.log(`Order ${orderCode} reconciled: forwarded ${emittedEvents.length} missed event(s)`, emittedEvents);
+    }
+
+    return {
+      orderCode: String(orderCode),
+      status,
+      stateId: order.StateId,
+      amount: toMinorUnits(order.RequestAmount) ?? 0,
+      paidAmount,
+      refundedAmount,
+      ledgerStatus: ledgerService.getOrder(merchantKey, orderCode)?.status,
+      transactions,
+      emittedEvents,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * The Order Updated webhook Viva would have sent for the order's state
+   */
+  private toOrderUpdatedEvent(order: RetrieveOrderResponse): WebhookEnvelope<number, OrderUpdatedEventData> {
+    const eventData: OrderUpdatedEventData = {
+      OrderCode: order.OrderCode,
+      StateId: order.StateId,
+      Amount: order.RequestAmount,
+      ExpirationDate: order.ExpirationDate,
+    };
+    if (order.MerchantTrns) eventData.MerchantTrns = order.MerchantTrns;
+
+    return { EventTypeId: WebhookEventTypeId.OrderUpdated, EventData: eventData };
+  }
+}
+
+export const orderStatusService = new OrderStatusService();
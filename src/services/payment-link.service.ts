@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import { createStore } from '../storage/store.factory.js';
+import { getServiceByMerchantKey } from './merchant.service.js';
+import { ledgerService, toMinorUnits } from './ledger.service.js';
+import { webhookForwarderService } from './webhook-forwarder.service.js';
+import type { CallbackConfig } from './webhook-forwarder.service.js';
+import type { CreatePaymentOrderRequest, WebhookPayload } from '../types/viva.types.js';
+import type {
+  PaymentLink,
+  PaymentLinkOrder,
+  PaymentLinkSession,
+  PaymentLinkStatus,
+} from '../types/payment-link.types.js';
+
+// Links keyed by slug (slugs are global, /pay/:slug has no merchant)
+const linkStore = createStore<PaymentLink>('payment-links');
+
+// Orders opened through a link, keyed by `${merchantKey}:${orderCode}`
+const linkOrderStore = createStore<PaymentLinkOrder>('payment-link-orders');
+
+// Visitors' open checkouts, keyed by `${slug}:${sessionId}` (the session ID is in a cookie)
+const sessionStore = createStore<PaymentLinkSession>('payment-link-sessions');
+
+// Link orders are forgotten this long after their payment window
+const LINK_ORDER_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A visitor's checkout is only reopened while this much of its payment window is left
+const SESSION_MIN_REMAINING_MS = 5 * 60 * 1000;
+
+// Viva's default order lifetime, when the link sets no paymentTimeout
+const DEFAULT_PAYMENT_TIMEOUT_SECONDS = 1800;
+
+export interface CreatePaymentLinkInput {
+  slug?: string | undefined;
+  amount: number;
+  description: string;
+  disableExactAmount?: boolean | undefined;
+  currencyCode?: string | undefined;
+  merchantTrns?: string | undefined;
+  sourceCode?: string | undefined;
+  tags?: string[] | undefined;
+  paymentTimeout?: number | undefined;
+  expiresAt?: string | undefined;
+  maxUses?: number | undefined;
+  callback?: CallbackConfig | undefined;
+}
+
+export interface UpdatePaymentLinkInput {
+  amount?: number | undefined;
+  description?: string | undefined;
+  expiresAt?: string | undefined;
+  maxUses?: number | undefined;
+  active?: boolean | undefined;
+}
+
+export interface PaymentLinkFilter {
+  status?: PaymentLinkStatus | undefined;
+}
+
+/**
+ * Payment Link Service
+ * Reusable links that open a Viva order for every visitor,
+ * with visit and payment counts per link.
+ */
+class PaymentLinkService {
+  // Orders being created in Viva, by slug; they count against maxUses like open orders
+  private readonly opening = new Map<string, number>();
+
+  /**
+   * Create a link. Returns undefined if the requested slug is taken.
+   */
+  createLink(merchantKey: string, input: CreatePaymentLinkInput): PaymentLink | undefined {
+    const slug = input.slug ?? this.generateSlug();
+    if (linkStore.has(slug)) return undefined;
+
+    const now = new Date().toISOString();
+    const link: PaymentLink = {
+      merchantKey,
+      slug,
+      amount: input.amount,
+      disableExactAmount: input.disableExactAmount ?? false,
+      description: input.description,
+      currencyCode: input.currencyCode,
+      merchantTrns: input.merchantTrns,
+      sourceCode: input.sourceCode,
+      tags: input.tags,
+      paymentTimeout: input.paymentTimeout,
+      callback: input.callback,
+      expiresAt: input.expiresAt,
+      maxUses: input.maxUses,
+      active: true,
+      stats: { visits: 0, payments: 0, paidAmount: 0 },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.save(link);
+    return link;
+  }
+
+  /**
+   * Any merchant's link (public /pay/:slug)
+   */
+  getLink(slug: string): PaymentLink | undefined {
+    return linkStore.get(slug);
+  }
+
+  /**
+   * A link owned by the merchant
+   */
+  getMerchantLink(merchantKey: string, slug: string): PaymentLink | undefined {
+    const link = this.getLink(slug);
+    return link?.merchantKey === merchantKey ? link : undefined;
+  }
+
+  listLinks(merchantKey: string, filter: PaymentLinkFilter = {}): PaymentLink[] {
+    return linkStore
+      .values()
+      .filter((link) => {
+        if (link.merchantKey !== merchantKey) return false;
+        return !filter.status || this.getStatus(link) === filter.status;
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Change a link's price, description, limits or (de)activate it.
+   * Orders already opened keep the settings they were created with.
+   */
+  updateLink(link: PaymentLink, update: UpdatePaymentLinkInput): PaymentLink {
+    if (update.amount !== undefined) link.amount = update.amount;
+    if (update.description !== undefined) link.description = update.description;
+    if (update.expiresAt !== undefined) link.expiresAt = update.expiresAt;
+    if (update.maxUses !== undefined) link.maxUses = update.maxUses;
+    if (update.active !== undefined) link.active = update.active;
+    this.save(link);
+    return link;
+  }
+
+  getStatus(link: PaymentLink, now: Date = new Date()): PaymentLinkStatus {
+    if (!link.active) return 'inactive';
+    if (link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()) return 'expired';
+    if (link.maxUses !== undefined && link.stats.payments >= link.maxUses) return 'exhausted';
+    return 'active';
+  }
+
+  /**
+   * Payments the link can still take, less the orders opened through it that
+   * can still be paid (undefined = no maxUses)
+   */
+  getAvailableUses(link: PaymentLink, now: Date = new Date()): number | undefined {
+    if (link.maxUses === undefined) return undefined;
+
+    const open = Object.values(link.openOrders ?? {})
+      .filter((deadline) => new Date(deadline).getTime() > now.getTime()).length;
+    const opening = this.opening.get(link.slug) ?? 0;
+    return Math.max(link.maxUses - link.stats.payments - open - opening, 0);
+  }
+
+  /**
+   * The checkout a visitor opened earlier, if it can still be paid
+   * and the link's amount and description have not changed since
+   */
+  findOpenCheckout(link: PaymentLink, sessionId: string): PaymentLinkSession | undefined {
+    const session = sessionStore.get(`${link.slug}:${sessionId}`);
+    if (!session || session.amount !== link.amount || session.description !== link.description) return undefined;
+
+    const linkOrder = linkOrderStore.get(`${link.merchantKey}:${session.orderCode}`);
+    return linkOrder && !linkOrder.paidAt ? session : undefined;
+  }
+
+  /**
+   * Create a Viva order for a visit to the link and return its checkout URL,
+   * with a session for reopening it on the visitor's next visits (if its payment
+   * window is long enough). The link's callback is registered on the order,
+   * with the slug added to its metadata so forwarded payment events can be
+   * traced to the link.
+   *
+   * Returns undefined if every remaining use of the link is taken by orders
+   * that can still be paid.
+   */
+  async openCheckout(link: PaymentLink): Promise<{
+    orderCode: number;
+    checkoutUrl: string;
+    session?: { id: string; maxAgeMs: number } | undefined;
+  } | undefined> {
+    const merchant = getServiceByMerchantKey(link.merchantKey);
+    if (!merchant) {
+      throw new Error(`Merchant ${link.merchantKey} not configured`);
+    }
+    if (this.getAvailableUses(link) === 0) return undefined;
+
+    const orderRequest = this.buildOrderRequest(link);
+    this.opening.set(link.slug, (this.opening.get(link.slug) ?? 0) + 1);
+    let orderCode: number;
+    try {
+      ({ orderCode } = await merchant.service.createPaymentOrder(orderRequest));
+    } finally {
+      const opening = (this.opening.get(link.slug) ?? 1) - 1;
+      if (opening > 0) {
+        this.opening.set(link.slug, opening);
+      } else {
+        this.opening.delete(link.slug);
+      }
+    }
+
+    const paymentWindowMs = (link.paymentTimeout ?? DEFAULT_PAYMENT_TIMEOUT_SECONDS) * 1000;
+    // Unpaid orders leave the ledger with their link order
+    ledgerService.recordOrder(link.merchantKey, orderCode, orderRequest, paymentWindowMs + LINK_ORDER_RETENTION_MS);
+
+    if (link.callback) {
+      webhookForwarderService.registerCallback(orderCode, {
+        ...link.callback,
+        metadata: { ...link.callback.metadata, paymentLink: link.slug },
+      }, orderRequest.paymentTimeout);
+    }
+
+    const now = new Date();
+    linkOrderStore.set(
+      `${link.merchantKey}:${orderCode}`,
+      { merchantKey: link.merchantKey, orderCode: String(orderCode), slug: link.slug, createdAt: now.toISOString() },
+      { ttlMs: paymentWindowMs + LINK_ORDER_RETENTION_MS }
+    );
+
+    // Re-read: other visits may have updated the link while the order was created
+    const current = this.getLink(link.slug) ?? link;
+    current.openOrders = Object.fromEntries(
+      Object.entries(current.openOrders ?? {}).filter(([, deadline]) => new Date(deadline).getTime() > now.getTime())
+    );
+    current.openOrders[String(orderCode)] = new Date(now.getTime() + paymentWindowMs).toISOString();
+    current.stats.visits += 1;
+    current.stats.lastVisitedAt = now.toISOString();
+    this.save(current);
+
+    const checkoutUrl = merchant.service.getCheckoutUrl({ orderCode });
+
+    const sessionMaxAgeMs = paymentWindowMs - SESSION_MIN_REMAINING_MS;
+    if (sessionMaxAgeMs <= 0) {
+      return { orderCode, checkoutUrl };
+    }
+
+    const sessionId = crypto.randomBytes(16).toString('base64url');
+    sessionStore.set(
+      `${link.slug}:${sessionId}`,
+      { orderCode: String(orderCode), checkoutUrl, amount: link.amount, description: link.description },
+      { ttlMs: sessionMaxAgeMs }
+    );
+
+    return { orderCode, checkoutUrl, session: { id: sessionId, maxAgeMs: sessionMaxAgeMs } };
+  }
+
+  /**
+   * Count the payment of an order opened through a link (once per order)
+   */
+  handlePaymentCreated(merchantKey: string, payload: WebhookPayload): void {
+    const { EventData } = payload;
+    const key = `${merchantKey}:${EventData.OrderCode}`;
+    const linkOrder = linkOrderStore.get(key);
+    if (!linkOrder || linkOrder.paidAt) return;
+
+    const now = new Date().toISOString();
+    linkOrder.paidAt = now;
+    linkOrderStore.set(key, linkOrder, { ttlMs: LINK_ORDER_RETENTION_MS });
+
+    const link = this.getLink(linkOrder.slug);
+    if (!link) return;
+
+    delete link.openOrders?.[linkOrder.orderCode];
+    link.stats.payments += 1;
+    link.stats.paidAmount += toMinorUnits(EventData.Amount) ?? 0;
+    link.stats.lastPaidAt = now;
+    this.save(link);
+
+    console.log(`Payment link ${link.slug}: order ${linkOrder.orderCode} paid (${link.stats.payments}/${link.stats.visits})`);
+  }
+
+  private buildOrderRequest(link: PaymentLink): CreatePaymentOrderRequest {
+    const request: CreatePaymentOrderRequest = {
+      amount: link.amount,
+      customerTrns: link.description,
+    };
+
+    if (link.disableExactAmount) request.disableExactAmount = true;
+    if (link.currencyCode) request.currencyCode = link.currencyCode;
+    if (link.merchantTrns) request.merchantTrns = link.merchantTrns;
+    if (link.sourceCode) request.sourceCode = link.sourceCode;
+    if (link.tags) request.tags = link.tags;
+    if (link.paymentTimeout) request.paymentTimeout = link.paymentTimeout;
+    return request;
+  }
+
+  /**
+   * Random 8-character URL-safe slug not used by any link
+   */
+  private generateSlug(): string {
+    let slug: string;
+    do {
+      slug = crypto.randomBytes(6).toString('base64url');
+    } while (linkStore.has(slug));
+    return slug;
+  }
+
+  private save(link: PaymentLink): void {
+    link.updatedAt = new Date().toISOString();
+    linkStore.set(link.slug, link);
+  }
+}
+
+export const paymentLinkService = new PaymentLinkService();
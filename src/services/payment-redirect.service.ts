@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { ledgerService, toMinorUnits } from './ledger.service.js';
+import { getServiceByMerchantKey } from './merchant.service.js';
+import { webhookForwarderService } from './webhook-forwarder.service.js';
+import { VivaApiError } from '../errors/viva-api.error.js';
+import { TransactionStatus } from '../types/viva.types.js';
+
+/**
+ * Payment outcome confirmed with Viva (never taken from the browser)
+ */
+export type VerifiedPaymentStatus = 'success' | 'pending' | 'failed';
+
+export interface VerifiedPayment {
+  merchantKey: string;
+  orderCode: string;
+  transactionId?: string | undefined; // Only when it belongs to the order
+  status: VerifiedPaymentStatus;
+  amount?: number | undefined; // Cents
+}
+
+function toVerifiedStatus(statusId: string): VerifiedPaymentStatus {
+  if (statusId === TransactionStatus.Success) return 'success';
+  if (statusId === TransactionStatus.Pending) return 'pending';
+  return 'failed';
+}
+
+/**
+ * HMAC-SHA256 (hex) of the parameters sorted by name and joined as
+ * `name=value&...` (URL-encoded, the signature parameter excluded)
+ */
+export function signRedirectParams(params: URLSearchParams, secret: string): string {
+  const signed = new URLSearchParams(params);
+  signed.delete('signature');
+  signed.sort();
+  return crypto.createHmac('sha256', secret).update(signed.toString()).digest('hex');
+}
+
+/**
+ * Payment Redirect Service
+ * Turns the browser's return from Viva checkout into a redirect the
+ * merchant can trust: the outcome is checked with Viva and the query
+ * string is signed.
+ */
+class PaymentRedirectService {
+  /**
+   * Look up the order's merchant and check the transaction with Viva.
+   * Returns undefined for orders the middleware does not know.
+   */
+  async verify(orderCode: string, transactionId: string | undefined): Promise<VerifiedPayment | undefined> {
+    const merchantKey = ledgerService.findOrder(orderCode)?.merchantKey
+      ?? webhookForwarderService.getRedirectConfig(orderCode)?.merchantKey;
+    const merchant = merchantKey ? getServiceByMerchantKey(merchantKey) : undefined;
+    if (!merchantKey || !merchant) return undefined;
+
+    const payment: VerifiedPayment = { merchantKey, orderCode, status: 'failed' };
+    if (!transactionId) return payment;
+
+    try {
+      const transaction = await merchant.service.getTransaction(transactionId);
+      if (String(transaction.orderCode) !== orderCode) {
+        console.warn(`Redirect for order ${orderCode} carried transaction ${transactionId} of another order`);
+        return payment;
+      }
+
+      payment.transactionId = transactionId;
+      payment.status = toVerifiedStatus(transaction.statusId);
+      payment.amount = toMinorUnits(transaction.amount);
+      return payment;
+    } catch (error) {
+      // Unknown transaction: nothing was paid
+      if (error instanceof VivaApiError && error.code === 'viva_not_found') return payment;
+      throw error;
+    }
+  }
+
+  /**
+   * Where to send the browser: the order's redirectSuccessUrl/redirectFailureUrl,
+   * else PAYMENT_RESULT_PAGE_URL. Merchant pages are only used when a signing
+   * secret is available (the order's callback secret or the merchant's
+   * REDIRECT_SECRET). Returns undefined to show the built-in result.
+   */
+  getRedirectUrl(payment: VerifiedPayment): string | undefined {
+    const redirect = webhookForwarderService.getRedirectConfig(payment.orderCode);
+    const secret = redirect?.secret || getServiceByMerchantKey(payment.merchantKey)?.config.redirectSecret || undefined;
+    const merchantUrl = payment.status === 'success' ? redirect?.redirectSuccessUrl : redirect?.redirectFailureUrl;
+
+    if (merchantUrl && secret) {
+      return this.buildUrl(merchantUrl, payment, secret);
+    }
+    if (merchantUrl) {
+      console.warn(`Order ${payment.orderCode} has a redirect URL but no secret to sign it, using the result page`);
+    }
+
+    const resultPageUrl = process.env.PAYMENT_RESULT_PAGE_URL;
+    return resultPageUrl ? this.buildUrl(resultPageUrl, payment, secret) : undefined;
+  }
+
+  /**
+   * Append the verified outcome (and its signature, given a secret) to a URL,
+   * keeping the URL's own query parameters
+   */
+  private buildUrl(baseUrl: string, payment: VerifiedPayment, secret: string | undefined): string {
+    const url = new URL(baseUrl);
+    const params = new URLSearchParams({
+      orderCode: payment.orderCode,
+      status: payment.status,
+      timestamp: String(Math.floor(Date.now() / 1000)),
+    });
+    if (payment.transactionId) params.set('transactionId', payment.transactionId);
+    if (payment.amount !== undefined) params.set('amount', String(payment.amount));
+    if (secret) params.set('signature', signRedirectParams(params, secret));
+
+    for (const [name, value] of params) {
+      url.searchParams.set(name, value);
+    }
+    return url.toString();
+  }
+}
+
+export const paymentRedirectService = new PaymentRedirectService();
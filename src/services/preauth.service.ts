@@ -0,0 +1,337 @@
+import { createStore } from '../storage/store.factory.js';
+import { getEnvNumber } from '../config/env.config.js';
+import { getServiceByMerchantKey } from './merchant.service.js';
+import { toMinorUnits } from './ledger.service.js';
+import { webhookForwarderService, WebhookEventType } from './webhook-forwarder.service.js';
+import { TransactionType } from '../types/viva.types.js';
+import type { WebhookPayload } from '../types/viva.types.js';
+import type {
+  PreauthHold,
+  PreauthStatus,
+  PreauthVoidReason,
+} from '../types/preauth.types.js';
+
+// Holds keyed by `${merchantKey}:${transactionId}`
+const holdStore = createStore<PreauthHold>('preauth-holds');
+
+// Statuses with an amount still held on the card
+const OPEN_STATUSES: PreauthStatus[] = ['open', 'partially_captured'];
+
+// Terminal holds are kept this long after they close
+const CLOSED_HOLD_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hold settings, read from env vars on each use
+ */
+interface PreauthConfig {
+  captureDeadlineMs: number; // Auto-void holds this long after authorization
+  expiringNoticeMs: number; // Send preauth.expiring this long before the deadline
+  sweepIntervalMs: number; // How often deadlines are checked
+}
+
+function getPreauthConfig(): PreauthConfig {
+  return {
+    captureDeadlineMs: getEnvNumber('PREAUTH_CAPTURE_DEADLINE_SECONDS', 6 * 24 * 60 * 60) * 1000,
+    expiringNoticeMs: getEnvNumber('PREAUTH_EXPIRING_NOTICE_SECONDS', 24 * 60 * 60) * 1000,
+    sweepIntervalMs: getEnvNumber('PREAUTH_SWEEP_INTERVAL_SECONDS', 300) * 1000,
+  };
+}
+
+export interface PreauthListFilter {
+  status?: PreauthStatus | undefined; // Default: holds still open
+}
+
+/**
+ * Pre-Authorization Service
+ * Tracks pre-authorized transactions until they are captured or released,
+ * and voids holds nobody captured before the capture deadline.
+ */
+class PreauthService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // Amounts of captures sent to Viva but not yet answered, by store key
+  private readonly inFlight = new Map<string, number>();
+
+  /**
+   * Route a successful transaction webhook: records new holds and
+   * captures made against a hold (also those made outside the middleware)
+   */
+  async handlePaymentCreated(merchantKey: string, payload: WebhookPayload): Promise<void> {
+    const { EventData } = payload;
+
+    if (EventData.TransactionTypeId === TransactionType.PreAuth) {
+      this.recordAuthorization(merchantKey, payload);
+    } else if (EventData.TransactionTypeId === TransactionType.Capture && EventData.ParentId) {
+      await this.recordCapture(merchantKey, EventData.ParentId, EventData.TransactionId, toMinorUnits(EventData.Amount) ?? 0);
+    }
+  }
+
+  /**
+   * Route a reversal webhook: a void of a hold releases it
+   */
+  async handleReversalCreated(merchantKey: string, payload: WebhookPayload): Promise<void> {
+    const { EventData } = payload;
+    if (EventData.TransactionTypeId !== TransactionType.Void || !EventData.ParentId) return;
+
+    const hold = this.getHold(merchantKey, EventData.ParentId);
+    if (!hold || !OPEN_STATUSES.includes(hold.status)) return;
+
+    await this.markVoided(hold, hold.voidReason ?? 'external');
+  }
+
+  getHold(merchantKey: string, transactionId: string): PreauthHold | undefined {
+    return holdStore.get(`${merchantKey}:${transactionId}`);
+  }
+
+  /**
+   * Holds for a merchant, soonest deadline first
+   */
+  listHolds(merchantKey: string, filter: PreauthListFilter = {}): PreauthHold[] {
+    return holdStore
+      .values()
+      .filter((hold) => {
+        if (hold.merchantKey !== merchantKey) return false;
+        return filter.status ? hold.status === filter.status : OPEN_STATUSES.includes(hold.status);
+      })
+      .sort((a, b) => a.expiresAt.localeCompare(b.expiresAt));
+  }
+
+  /**
+   * Amount that can still be captured (0 once the hold is closed)
+   */
+  getRemainingAmount(hold: PreauthHold): number {
+    return OPEN_STATUSES.includes(hold.status) ? hold.amount - hold.capturedAmount : 0;
+  }
+
+  /**
+   * Amount that can be captured now: the remaining amount minus captures in progress
+   */
+  getCapturableAmount(hold: PreauthHold): number {
+    const pending = this.inFlight.get(`${hold.merchantKey}:${hold.transactionId}`) ?? 0;
+    return Math.max(this.getRemainingAmount(hold) - pending, 0);
+  }
+
+  /**
+   * Hold `amount` of the capturable amount while the capture is sent to Viva.
+   * Returns a release function, or undefined if the amount is not available.
+   */
+  reserve(hold: PreauthHold, amount: number): (() => void) | undefined {
+    if (amount <= 0 || amount > this.getCapturableAmount(hold)) return undefined;
+
+    const key = `${hold.merchantKey}:${hold.transactionId}`;
+    this.inFlight.set(key, (this.inFlight.get(key) ?? 0) + amount);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.inFlight.get(key) ?? 0) - amount;
+      if (remaining > 0) {
+        this.inFlight.set(key, remaining);
+      } else {
+        this.inFlight.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Record a capture against a hold. Captures already recorded (the webhook
+   * and the API response both report them) are ignored.
+   */
+  async recordCapture(merchantKey: string, holdTransactionId: string, captureTransactionId: string, amount: number): Promise<PreauthHold | undefined> {
+    const hold = this.getHold(merchantKey, holdTransactionId);
+    if (!hold) return undefined;
+    if (hold.captures.some((capture) => capture.transactionId === captureTransactionId)) return hold;
+
+    hold.captures.push({ transactionId: captureTransactionId, amount, capturedAt: new Date().toISOString() });
+    hold.capturedAmount += amount;
+    hold.status = hold.capturedAmount >= hold.amount ? 'captured' : 'partially_captured';
+    this.save(hold);
+
+    console.log(`Pre-auth ${hold.transactionId}: captured ${amount} (${hold.capturedAmount}/${hold.amount})`);
+    await this.emit(WebhookEventType.PREAUTH_CAPTURED, hold, {
+      captureTransactionId,
+      captureAmount: amount,
+    });
+    return hold;
+  }
+
+  /**
+   * Whether the hold can be voided now: something is left to release
+   * and no capture of it is in flight
+   */
+  isVoidable(hold: PreauthHold): boolean {
+    const remaining = this.getRemainingAmount(hold);
+    return remaining > 0 && this.getCapturableAmount(hold) === remaining;
+  }
+
+  /**
+   * Release the remaining amount of a hold through Viva. Throws while a
+   * capture of the hold is in flight; check isVoidable first.
+   */
+  async void(hold: PreauthHold, reason: PreauthVoidReason = 'requested'): Promise<PreauthHold> {
+    const merchant = getServiceByMerchantKey(hold.merchantKey);
+    if (!merchant) {
+      throw new Error(`Merchant ${hold.merchantKey} not configured`);
+    }
+    if (!this.isVoidable(hold)) {
+      throw new Error(`Pre-auth ${hold.transactionId} has nothing to void or a capture in flight`);
+    }
+
+    // Reserve the whole remaining amount, so no capture starts while the void is sent
+    const amount = this.getRemainingAmount(hold);
+    const release = this.reserve(hold, amount)!;
+
+    // Viva reports the void by webhook, possibly before cancelTransaction returns;
+    // remember why so that webhook records the right reason
+    hold.voidReason = reason;
+    this.save(hold);
+
+    try {
+      await merchant.service.cancelTransaction(hold.transactionId, amount);
+    } catch (error) {
+      hold.voidReason = undefined;
+      this.save(hold);
+      throw error;
+    } finally {
+      release();
+    }
+
+    const current = this.getHold(hold.merchantKey, hold.transactionId) ?? hold;
+    if (OPEN_STATUSES.includes(current.status)) {
+      return this.markVoided(current, reason);
+    }
+    return current;
+  }
+
+  /**
+   * Void holds past their deadline and warn about holds close to it
+   */
+  async processDue(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const config = getPreauthConfig();
+      const openHolds = holdStore.values().filter((hold) => OPEN_STATUSES.includes(hold.status));
+
+      for (const hold of openHolds) {
+        const expiresAt = new Date(hold.expiresAt).getTime();
+
+        try {
+          if (expiresAt <= now.getTime()) {
+            console.warn(`Pre-auth ${hold.transactionId} passed its capture deadline, voiding`);
+            await this.void(hold, 'expired');
+          } else if (!hold.expiringNotifiedAt && expiresAt - config.expiringNoticeMs <= now.getTime()) {
+            hold.expiringNotifiedAt = now.toISOString();
+            this.save(hold);
+            await this.emit(WebhookEventType.PREAUTH_EXPIRING, hold);
+          }
+        } catch (error) {
+          console.error(`Error processing pre-auth ${hold.transactionId}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Start the deadline sweeper
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error('Error processing pre-auth holds:', error);
+      });
+    }, getPreauthConfig().sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the deadline sweeper (used on shutdown and in tests)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private recordAuthorization(merchantKey: string, payload: WebhookPayload): void {
+    const { EventData } = payload;
+    if (this.getHold(merchantKey, EventData.TransactionId)) return;
+
+    const now = new Date();
+    // The deadline runs from authorization, however late the webhook arrives
+    const insDate = new Date(EventData.InsDate ?? '');
+    const authorizedAt = Number.isNaN(insDate.getTime()) ? now : insDate;
+    const hold: PreauthHold = {
+      merchantKey,
+      transactionId: EventData.TransactionId,
+      orderCode: String(EventData.OrderCode),
+      amount: toMinorUnits(EventData.Amount) ?? 0,
+      capturedAmount: 0,
+      currencyCode: EventData.CurrencyCode,
+      // The order's callback registration is dropped once the payment is forwarded
+      callback: webhookForwarderService.getCallback(EventData.OrderCode),
+      status: 'open',
+      captures: [],
+      authorizedAt: authorizedAt.toISOString(),
+      expiresAt: new Date(authorizedAt.getTime() + getPreauthConfig().captureDeadlineMs).toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    this.save(hold);
+    console.log(`Pre-auth ${hold.transactionId} held ${hold.amount} until ${hold.expiresAt}`);
+  }
+
+  private async markVoided(hold: PreauthHold, reason: PreauthVoidReason): Promise<PreauthHold> {
+    hold.status = reason === 'expired' ? 'expired' : 'voided';
+    hold.voidReason = reason;
+    hold.voidedAt = new Date().toISOString();
+    this.save(hold);
+
+    console.log(`Pre-auth ${hold.transactionId} ${hold.status}`);
+    await this.emit(WebhookEventType.PREAUTH_VOIDED, hold, { reason });
+    return hold;
+  }
+
+  private save(hold: PreauthHold): void {
+    hold.updatedAt = new Date().toISOString();
+    const closed = !OPEN_STATUSES.includes(hold.status);
+    holdStore.set(
+      `${hold.merchantKey}:${hold.transactionId}`,
+      hold,
+      closed ? { ttlMs: CLOSED_HOLD_RETENTION_MS } : {}
+    );
+  }
+
+  private async emit(
+    event: WebhookEventType,
+    hold: PreauthHold,
+    extra: { captureTransactionId?: string; captureAmount?: number; reason?: string } = {}
+  ): Promise<void> {
+    await webhookForwarderService.forwardPreauthEvent(
+      event,
+      {
+        orderCode: hold.orderCode,
+        transactionId: hold.transactionId,
+        status: hold.status,
+        amount: hold.amount,
+        capturedAmount: hold.capturedAmount,
+        remainingAmount: this.getRemainingAmount(hold),
+        currency: hold.currencyCode,
+        expiresAt: hold.expiresAt,
+        ...extra,
+      },
+      hold.callback,
+      hold.merchantKey
+    );
+  }
+}
+
+export const preauthService = new PreauthService();
@@ -0,0 +1,226 @@
+import { createStore } from '../storage/store.factory.js';
+import { getEnvFlag, getEnvNumber } from '../config/env.config.js';
+import type { MerchantConfig } from '../config/merchant.config.js';
+import { MIN_PER_MINUTE } from '../types/rate-limit.types.js';
+import type {
+  QuotaCounter,
+  QuotaUsage,
+  RateLimitGroup,
+  RateLimitPolicy,
+  RateLimitResult,
+  TokenBucket,
+} from '../types/rate-limit.types.js';
+
+// Daily request counts keyed by `${merchantKey}:${group}:${YYYY-MM-DD}`, dropped after the day
+const quotaStore = createStore<QuotaUsage>('rate-limit-quotas');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often buckets that are full again are dropped
+const BUCKET_PRUNE_INTERVAL_MS = 60 * 1000;
+
+// How often changed daily counts are written to quotaStore; a restart loses at most this much counting
+const QUOTA_FLUSH_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Default limits, read from env vars on each use
+ */
+interface RateLimitConfig {
+  enabled: boolean;
+  policies: Record<RateLimitGroup, RateLimitPolicy>;
+  payLinkVisits: RateLimitPolicy; // New checkouts per client IP and payment link
+  paymentRedirects: RateLimitPolicy; // Returns from Viva checkout (/payment/success, /payment/failure) per client IP
+}
+
+function getGroupPolicy(name: string, perMinute: number, burst: number): RateLimitPolicy {
+  const dailyQuota = getEnvNumber(`RATE_LIMIT_${name}_DAILY_QUOTA`, 0);
+  return {
+    perMinute: getEnvNumber(`RATE_LIMIT_${name}_PER_MINUTE`, perMinute),
+    burst: getEnvNumber(`RATE_LIMIT_${name}_BURST`, burst),
+    dailyQuota: dailyQuota || undefined,
+  };
+}
+
+function getRateLimitConfig(): RateLimitConfig {
+  return {
+    enabled: getEnvFlag('RATE_LIMIT_ENABLED', true),
+    policies: {
+      orders: getGroupPolicy('ORDERS', 120, 60),
+      refunds: getGroupPolicy('REFUNDS', 60, 30),
+      reads: getGroupPolicy('READS', 600, 200),
+    },
+    payLinkVisits: getGroupPolicy('PAY_LINK', 10, 5),
+    paymentRedirects: getGroupPolicy('PAYMENT_REDIRECT', 30, 10),
+  };
+}
+
+/**
+ * Seconds until the next UTC midnight, when daily quotas start over
+ */
+function secondsUntilNextDay(now: number): number {
+  return Math.ceil((DAY_MS - (now % DAY_MS)) / 1000);
+}
+
+/**
+ * Rate Limit Service
+ * Per-merchant token buckets for each route group, so one merchant's client
+ * cannot use up the Viva API limits shared by all merchants, plus optional
+ * daily quotas. Limits default to the RATE_LIMIT_* env vars and can be
+ * overridden per merchant.
+ */
+class RateLimitService {
+  // Buckets keyed by `${merchantKey}:${group}` (or `pay:${slug}:${ip}` for payment link visits).
+  // Kept in process memory: they change on every request and refill within minutes anyway.
+  private readonly buckets = new Map<string, TokenBucket>();
+  private lastPrunedAt = 0;
+  // Daily counts in use, keyed like quotaStore; written back every QUOTA_FLUSH_INTERVAL_MS
+  // rather than on each request, as the file driver rewrites the whole store on every set
+  private readonly quotas = new Map<string, QuotaCounter>();
+  private readonly unsavedQuotas = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Whether requests are limited at all (RATE_LIMIT_ENABLED)
+   */
+  isEnabled(): boolean {
+    return getRateLimitConfig().enabled;
+  }
+
+  /**
+   * The policy in effect for a merchant's route group: the defaults with the merchant's overrides
+   */
+  getPolicy(config: MerchantConfig, group: RateLimitGroup): RateLimitPolicy {
+    return { ...getRateLimitConfig().policies[group], ...config.rateLimits[group] };
+  }
+
+  /**
+   * Take a token for a request. Refused requests take nothing,
+   * and only allowed requests count towards the daily quota.
+   */
+  consume(config: MerchantConfig, group: RateLimitGroup, now: number = Date.now()): RateLimitResult {
+    return this.take(`${config.merchantKey}:${group}`, this.getPolicy(config, group), now);
+  }
+
+  /**
+   * Take a token for a visit to a payment link that opens a new checkout,
+   * per client IP and link, so one client cannot flood a merchant with orders
+   */
+  consumePayLinkVisit(slug: string, ip: string, now: number = Date.now()): RateLimitResult {
+    return this.take(`pay:${slug}:${ip}`, getRateLimitConfig().payLinkVisits, now);
+  }
+
+  /**
+   * Take a token for a browser returning from Viva checkout, per client IP;
+   * each return is verified with Viva
+   */
+  consumePaymentRedirect(ip: string, now: number = Date.now()): RateLimitResult {
+    return this.take(`redirect:${ip}`, getRateLimitConfig().paymentRedirects, now);
+  }
+
+  /**
+   * Write changed daily counts to the store and drop those of past days
+   */
+  flushQuotas(now: number = Date.now()): void {
+    for (const key of this.unsavedQuotas) {
+      const quota = this.quotas.get(key);
+      if (quota && quota.expiresAt > now) {
+        quotaStore.set(key, { count: quota.count }, { ttlMs: quota.expiresAt - now });
+      }
+    }
+    this.unsavedQuotas.clear();
+
+    for (const [key, quota] of this.quotas) {
+      if (quota.expiresAt <= now) this.quotas.delete(key);
+    }
+  }
+
+  /**
+   * Start writing daily counts to the store periodically
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.flushQuotas(), QUOTA_FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the periodic writes and write what is left (used on shutdown and in tests)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.flushQuotas();
+  }
+
+  private take(bucketKey: string, policy: RateLimitPolicy, now: number): RateLimitResult {
+    const refillPerMs = Math.max(policy.perMinute, MIN_PER_MINUTE) / 60_000;
+
+    this.pruneBuckets(now);
+    const bucket = this.buckets.get(bucketKey);
+    const tokens = bucket
+      ? Math.min(policy.burst, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs)
+      : policy.burst;
+
+    const quotaKey = `${bucketKey}:${new Date(now).toISOString().slice(0, 10)}`;
+    const quota = policy.dailyQuota === undefined ? undefined : this.getQuota(quotaKey, now);
+    const used = quota?.count ?? 0;
+
+    const result = (allowed: boolean, left: number): RateLimitResult => ({
+      allowed,
+      policy,
+      remaining: Math.floor(left),
+      resetSeconds: Math.ceil((policy.burst - left) / refillPerMs / 1000),
+      quotaRemaining: policy.dailyQuota === undefined ? undefined : Math.max(0, policy.dailyQuota - used - (allowed ? 1 : 0)),
+    });
+
+    if (policy.dailyQuota !== undefined && used >= policy.dailyQuota) {
+      return { ...result(false, tokens), reason: 'daily_quota', retryAfterSeconds: secondsUntilNextDay(now) };
+    }
+
+    if (tokens < 1) {
+      return { ...result(false, tokens), reason: 'rate_limit', retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) };
+    }
+
+    const left = tokens - 1;
+    this.buckets.set(bucketKey, {
+      tokens: left,
+      updatedAt: now,
+      fullAt: now + Math.ceil((policy.burst - left) / refillPerMs),
+    });
+    if (quota) {
+      quota.count = used + 1;
+      this.unsavedQuotas.add(quotaKey);
+    }
+
+    return result(true, left);
+  }
+
+  /**
+   * The day's count for a quota key, read from the store the first time it is used
+   */
+  private getQuota(quotaKey: string, now: number): QuotaCounter {
+    let quota = this.quotas.get(quotaKey);
+    if (!quota) {
+      quota = { count: quotaStore.get(quotaKey)?.count ?? 0, expiresAt: now + secondsUntilNextDay(now) * 1000 };
+      this.quotas.set(quotaKey, quota);
+    }
+    return quota;
+  }
+
+  /**
+   * Drop buckets that are full again: a missing bucket starts full
+   */
+  private pruneBuckets(now: number): void {
+    if (now - this.lastPrunedAt < BUCKET_PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    }
+  }
+}
+
+export const rateLimitService = new RateLimitService();
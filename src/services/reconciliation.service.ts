@@ -0,0 +1,295 @@
+import { createStore } from '../storage/store.factory.js';
+import { getEnvFlag, getEnvNumber } from '../config/env.config.js';
+import { getMerchantKeys } from '../config/merchant.config.js';
+import { getServiceByMerchantKey } from './merchant.service.js';
+import type { VivaWalletService } from './viva-wallet.service.js';
+import { ledgerService, toMinorUnits } from './ledger.service.js';
+import { vivaEventService } from './viva-event.service.js';
+import { getForwardedEvent, getKind, toTransactionEvent } from './order-status.service.js';
+import { TransactionStatus } from '../types/viva.types.js';
+import type { LegacyTransaction } from '../types/viva.types.js';
+import type { LedgerTransaction } from '../types/ledger.types.js';
+import type { RecoveredEvent } from '../types/order-status.types.js';
+import type {
+  ReconciliationItem,
+  ReconciliationReport,
+  ReconciliationTrigger,
+} from '../types/reconciliation.types.js';
+
+// Reports keyed by `${merchantKey}:${date}`; a new run of a day replaces its report
+const reportStore = createStore<ReconciliationReport>('reconciliation-reports');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recorded transactions this close to midnight may be listed on Viva's previous or next day
+// (webhooks recorded after midnight without an InsDate, Viva's local time)
+const DAY_BOUNDARY_MARGIN_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Reconciliation settings, read from env vars on each use
+ */
+interface ReconciliationConfig {
+  intervalMs: number; // How often the job looks for days still to reconcile
+  reemitMissed: boolean; // Scheduled runs process and forward missed events
+  retentionMs: number; // Reports are kept this long
+}
+
+function getReconciliationConfig(): ReconciliationConfig {
+  return {
+    intervalMs: getEnvNumber('RECONCILIATION_INTERVAL_SECONDS', 60 * 60) * 1000,
+    reemitMissed: getEnvFlag('RECONCILIATION_REEMIT_MISSED'),
+    retentionMs: getEnvNumber('RECONCILIATION_REPORT_RETENTION_DAYS', 90) * DAY_MS,
+  };
+}
+
+/**
+ * The UTC day before `now`, as YYYY-MM-DD
+ */
+export function getPreviousDay(now: Date = new Date()): string {
+  return new Date(now.getTime() - DAY_MS).toISOString().slice(0, 10);
+}
+
+function fromViva(transaction: LegacyTransaction, recorded?: LedgerTransaction): ReconciliationItem {
+  return {
+    transactionId: transaction.TransactionId,
+    orderCode: String(transaction.Order.OrderCode),
+    kind: getKind(transaction),
+    statusId: transaction.StatusId,
+    vivaAmount: toMinorUnits(transaction.Amount),
+    recordedAmount: recorded?.amount,
+    createdAt: transaction.InsDate,
+  };
+}
+
+function fromLedger(transaction: LedgerTransaction): ReconciliationItem {
+  return {
+    transactionId: transaction.transactionId,
+    orderCode: transaction.orderCode,
+    kind: transaction.kind,
+    statusId: transaction.statusId,
+    recordedAmount: transaction.amount,
+    createdAt: transaction.createdAt,
+  };
+}
+
+export interface ReconciliationRunOptions {
+  trigger?: ReconciliationTrigger | undefined;
+  reemit?: boolean | undefined; // Default: RECONCILIATION_REEMIT_MISSED
+}
+
+/**
+ * Reconciliation Service
+ * Compares Viva's transaction listing for a day with what the webhook
+ * router recorded, per merchant, and keeps a report of missing,
+ * mismatched-amount and unknown transactions. Runs daily for the previous
+ * day; missed events can be processed and forwarded as part of a run.
+ */
+class ReconciliationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Reconcile one merchant's day (YYYY-MM-DD, UTC) and store the report.
+   * A failed run is stored too, with the error.
+   */
+  async run(merchantKey: string, date: string, options: ReconciliationRunOptions = {}): Promise<ReconciliationReport> {
+    const config = getReconciliationConfig();
+    const reemit = options.reemit ?? config.reemitMissed;
+    const report: ReconciliationReport = {
+      merchantKey,
+      date,
+      trigger: options.trigger ?? 'manual',
+      status: 'completed',
+      reemit,
+      summary: {
+        vivaTransactions: 0,
+        recordedTransactions: 0,
+        matched: 0,
+        missing: 0,
+        amountMismatches: 0,
+        unknown: 0,
+        reemitted: 0,
+      },
+      missing: [],
+      amountMismatches: [],
+      unknown: [],
+      reemitted: [],
+      startedAt: new Date().toISOString(),
+      completedAt: '',
+    };
+
+    try {
+      await this.compare(report);
+    } catch (error) {
+      console.error(`Reconciliation of ${date} failed for merchant ${merchantKey}:`, error);
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : String(error);
+    }
+
+    report.completedAt = new Date().toISOString();
+    reportStore.set(`${merchantKey}:${date}`, report, { ttlMs: config.retentionMs });
+
+    const { summary } = report;
+    if (summary.missing || summary.amountMismatches || summary.unknown) {
+      console.warn(`Reconciliation of ${date} for merchant ${merchantKey} found differences:`, summary);
+    }
+    return report;
+  }
+
+  getReport(merchantKey: string, date: string): ReconciliationReport | undefined {
+    return reportStore.get(`${merchantKey}:${date}`);
+  }
+
+  /**
+   * A merchant's reports, most recent day first
+   */
+  listReports(merchantKey: string): ReconciliationReport[] {
+    return reportStore
+      .values()
+      .filter((report) => report.merchantKey === merchantKey)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Reconcile the previous day for every merchant that has no completed report for it
+   */
+  async processDue(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const date = getPreviousDay(now);
+      for (const merchantKey of getMerchantKeys()) {
+        if (this.getReport(merchantKey, date)?.status === 'completed') continue;
+        await this.run(merchantKey, date, { trigger: 'scheduled' });
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Start the daily reconciliation job
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error('Error running reconciliation:', error);
+      });
+    }, getReconciliationConfig().intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the job (used on shutdown and in tests)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fill in the report's differences, and re-emit missed events if asked to
+   */
+  private async compare(report: ReconciliationReport): Promise<void> {
+    const { merchantKey, date } = report;
+    const merchant = getServiceByMerchantKey(merchantKey);
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantKey} not configured`);
+    }
+
+    // Only final outcomes are reported by webhooks
+    const vivaTransactions = (await merchant.service.listTransactions({ date }))
+      .filter((t) => t.StatusId === TransactionStatus.Success || t.StatusId === TransactionStatus.Error)
+      .sort((a, b) => a.InsDate.localeCompare(b.InsDate));
+    const from = new Date(`${date}T00:00:00.000Z`);
+    const recorded = ledgerService.getTransactionsBetween(merchantKey, from, new Date(from.getTime() + DAY_MS));
+
+    const listedIds = new Set(vivaTransactions.map((t) => t.TransactionId));
+    const missing: LegacyTransaction[] = [];
+
+    for (const transaction of vivaTransactions) {
+      const recordedTransaction = ledgerService.getTransaction(merchantKey, transaction.TransactionId);
+      if (!recordedTransaction) {
+        missing.push(transaction);
+        report.missing.push(fromViva(transaction));
+      } else if (
+        transaction.StatusId === TransactionStatus.Success &&
+        recordedTransaction.amount !== toMinorUnits(transaction.Amount)
+      ) {
+        report.amountMismatches.push(fromViva(transaction, recordedTransaction));
+      } else {
+        report.summary.matched += 1;
+      }
+    }
+
+    const unlisted = recorded.filter((t) => !listedIds.has(t.transactionId));
+    report.unknown = (await this.excludeListedNearby(merchant.service, from, unlisted)).map(fromLedger);
+
+    if (report.reemit) {
+      report.reemitted = await this.reemit(merchantKey, missing);
+    }
+
+    report.summary = {
+      ...report.summary,
+      vivaTransactions: vivaTransactions.length,
+      recordedTransactions: recorded.length,
+      missing: report.missing.length,
+      amountMismatches: report.amountMismatches.length,
+      unknown: report.unknown.length,
+      reemitted: report.reemitted.length,
+    };
+  }
+
+  /**
+   * Drop recorded transactions close to the day's start or end that Viva
+   * lists on the previous or next day
+   */
+  private async excludeListedNearby(
+    service: VivaWalletService,
+    from: Date,
+    transactions: LedgerTransaction[]
+  ): Promise<LedgerTransaction[]> {
+    const start = from.getTime();
+    const end = start + DAY_MS;
+    const times = transactions.map((t) => new Date(t.createdAt).getTime());
+
+    const days: string[] = [];
+    if (times.some((time) => time < start + DAY_BOUNDARY_MARGIN_MS)) {
+      days.push(new Date(start - DAY_MS).toISOString().slice(0, 10));
+    }
+    if (times.some((time) => time >= end - DAY_BOUNDARY_MARGIN_MS)) {
+      days.push(new Date(end).toISOString().slice(0, 10));
+    }
+
+    const listedIds = new Set<string>();
+    for (const day of days) {
+      for (const transaction of await service.listTransactions({ date: day })) {
+        listedIds.add(transaction.TransactionId);
+      }
+    }
+    return transactions.filter((t) => !listedIds.has(t.transactionId));
+  }
+
+  /**
+   * Process missed transactions as if their webhooks had arrived, oldest first.
+   * Inbound dedup skips any that arrived in the meantime.
+   */
+  private async reemit(merchantKey: string, missing: LegacyTransaction[]): Promise<RecoveredEvent[]> {
+    const reemitted: RecoveredEvent[] = [];
+
+    for (const transaction of missing) {
+      const payload = toTransactionEvent(transaction);
+      if (payload && await vivaEventService.process(merchantKey, payload)) {
+        reemitted.push({ event: getForwardedEvent(payload.EventTypeId), transactionId: transaction.TransactionId });
+      }
+    }
+    return reemitted;
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
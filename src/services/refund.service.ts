@@ -0,0 +1,184 @@
+import { createStore } from '../storage/store.factory.js';
+import { RefundHistoryUnavailableError } from '../errors/refund-history.error.js';
+import { ledgerService, toMinorUnits } from './ledger.service.js';
+import { getServiceByMerchantKey } from './merchant.service.js';
+import { TransactionStatus, TransactionType } from '../types/viva.types.js';
+import type { WebhookPayload } from '../types/viva.types.js';
+import type { Refund, RefundMethod, TransactionRefunds } from '../types/refund.types.js';
+
+// Refund history keyed by `${merchantKey}:${originalTransactionId}`
+const refundStore = createStore<TransactionRefunds>('transaction-refunds');
+
+// Viva transaction types that give money back on their parent transaction
+const REFUND_TYPES: readonly number[] = [TransactionType.Refund, TransactionType.Reversal, TransactionType.FastRefund];
+
+/**
+ * Refund Service
+ * Keeps the refund history of every refunded transaction, from API calls
+ * and 1797 reversal webhooks, and refuses refunds above what is left.
+ */
+class RefundService {
+  // Amounts of refunds sent to Viva but not yet answered, by store key
+  private readonly inFlight = new Map<string, number>();
+  // First loads of a refund history still waiting on Viva, by store key
+  private readonly loading = new Map<string, Promise<TransactionRefunds>>();
+
+  getRefunds(merchantKey: string, transactionId: string): TransactionRefunds | undefined {
+    return refundStore.get(`${merchantKey}:${transactionId}`);
+  }
+
+  /**
+   * Load a transaction's refund history, starting one from the ledger
+   * (or Viva, for payments made before tracking) on its first refund.
+   * Concurrent first loads share one history.
+   */
+  async load(merchantKey: string, transactionId: string): Promise<TransactionRefunds> {
+    const existing = this.getRefunds(merchantKey, transactionId);
+    if (existing) return existing;
+
+    const key = `${merchantKey}:${transactionId}`;
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = this.createHistory(merchantKey, transactionId).finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+
+    const history = await pending;
+    return this.getRefunds(merchantKey, transactionId) ?? history;
+  }
+
+  /**
+   * Amount that can still be refunded, minus refunds in progress
+   */
+  getRefundableAmount(history: TransactionRefunds): number {
+    const pending = this.inFlight.get(`${history.merchantKey}:${history.transactionId}`) ?? 0;
+    return Math.max(history.chargedAmount - history.refundedAmount - pending, 0);
+  }
+
+  /**
+   * Hold `amount` of the refundable amount while the refund is sent to Viva.
+   * Returns a release function, or undefined if the amount is not available.
+   */
+  reserve(history: TransactionRefunds, amount: number): (() => void) | undefined {
+    if (amount <= 0 || amount > this.getRefundableAmount(history)) return undefined;
+
+    const key = `${history.merchantKey}:${history.transactionId}`;
+    this.inFlight.set(key, (this.inFlight.get(key) ?? 0) + amount);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.inFlight.get(key) ?? 0) - amount;
+      if (remaining > 0) {
+        this.inFlight.set(key, remaining);
+      } else {
+        this.inFlight.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Record a refund. The webhook and the API response both report the same
+   * refund; the second report only adds what the first one lacked (reason, method).
+   */
+  async recordRefund(
+    merchantKey: string,
+    transactionId: string,
+    refund: { refundTransactionId: string; amount: number; method: RefundMethod; reason?: string | undefined }
+  ): Promise<TransactionRefunds> {
+    const loaded = await this.load(merchantKey, transactionId);
+    // Re-read: a refund or webhook may have recorded into the history meanwhile
+    const history = this.getRefunds(merchantKey, transactionId) ?? loaded;
+    const existing = history.refunds.find((r) => r.refundTransactionId === refund.refundTransactionId);
+
+    if (existing) {
+      if (refund.method !== 'external') existing.method = refund.method;
+      if (refund.reason !== undefined) existing.reason = refund.reason;
+    } else {
+      const entry: Refund = {
+        refundTransactionId: refund.refundTransactionId,
+        amount: refund.amount,
+        method: refund.method,
+        reason: refund.reason,
+        createdAt: new Date().toISOString(),
+      };
+      history.refunds.push(entry);
+      history.refundedAmount += refund.amount;
+    }
+
+    history.updatedAt = new Date().toISOString();
+    refundStore.set(`${merchantKey}:${transactionId}`, history);
+    return history;
+  }
+
+  /**
+   * Record a refund reported by a 1797 webhook (voids of pre-auth holds are not refunds)
+   */
+  async handleReversalCreated(merchantKey: string, payload: WebhookPayload): Promise<void> {
+    const { EventData } = payload;
+    if (!EventData.ParentId || EventData.TransactionTypeId === TransactionType.Void) return;
+
+    await this.recordRefund(merchantKey, EventData.ParentId, {
+      refundTransactionId: EventData.TransactionId,
+      amount: toMinorUnits(EventData.Amount) ?? 0,
+      method: 'external',
+    });
+  }
+
+  /**
+   * A new refund history with the charged amount from the ledger, or from Viva
+   * together with the refunds already issued, for payments made before tracking
+   */
+  private async createHistory(merchantKey: string, transactionId: string): Promise<TransactionRefunds> {
+    const now = new Date().toISOString();
+    const recorded = ledgerService.getTransaction(merchantKey, transactionId);
+    let charged: Pick<TransactionRefunds, 'chargedAmount' | 'orderCode' | 'currencyCode'>;
+    let refunds: Refund[] = [];
+
+    if (recorded?.kind === 'payment' && recorded.status === 'succeeded' && recorded.amount !== undefined) {
+      charged = { chargedAmount: recorded.amount, orderCode: recorded.orderCode, currencyCode: recorded.currencyCode };
+    } else {
+      const merchant = getServiceByMerchantKey(merchantKey);
+      if (!merchant) {
+        throw new Error(`Merchant ${merchantKey} not configured`);
+      }
+      const transaction = await merchant.service.getTransaction(transactionId);
+      charged = {
+        chargedAmount: toMinorUnits(transaction.amount) ?? 0,
+        orderCode: String(transaction.orderCode),
+        currencyCode: transaction.currencyCode,
+      };
+
+      let reversals;
+      try {
+        reversals = await merchant.service.listTransactions({ orderCode: transaction.orderCode });
+      } catch (error) {
+        console.error(`Error listing the refunds of transaction ${transactionId}:`, error);
+        throw new RefundHistoryUnavailableError(transactionId);
+      }
+      refunds = reversals
+        .filter((t) => t.ParentId === transactionId &&
+          t.StatusId === TransactionStatus.Success &&
+          REFUND_TYPES.includes(t.TransactionType.TransactionTypeId))
+        .map((t) => ({
+          refundTransactionId: t.TransactionId,
+          amount: toMinorUnits(t.Amount) ?? 0,
+          method: 'external',
+          createdAt: t.InsDate,
+        }));
+    }
+
+    return {
+      merchantKey,
+      transactionId,
+      ...charged,
+      refundedAmount: refunds.reduce((sum, refund) => sum + refund.amount, 0),
+      refunds,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,577 @@
+import crypto from 'crypto';
+import { createStore } from '../storage/store.factory.js';
+import { getEnvNumber } from '../config/env.config.js';
+import { getServiceByMerchantKey } from './merchant.service.js';
+import { toMinorUnits } from './ledger.service.js';
+import type { VivaWalletService } from './viva-wallet.service.js';
+import { VivaApiError } from '../errors/viva-api.error.js';
+import { webhookForwarderService, WebhookEventType } from './webhook-forwarder.service.js';
+import type { CallbackConfig } from './webhook-forwarder.service.js';
+import type { LegacyTransaction, VivaCustomer, WebhookPayload } from '../types/viva.types.js';
+import type {
+  Subscription,
+  SubscriptionInterval,
+  SubscriptionPlan,
+  SubscriptionStatus,
+} from '../types/subscription.types.js';
+
+// Plans and subscriptions keyed by `${merchantKey}:${id}`
+const planStore = createStore<SubscriptionPlan>('subscription-plans');
+const subscriptionStore = createStore<Subscription>('subscriptions');
+
+// Charge attempts kept on each subscription
+const MAX_CHARGE_HISTORY = 50;
+
+// Allowed difference between our clock and Viva's when looking up a charge with an unknown outcome
+const CHARGE_LOOKUP_MARGIN_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Result of charging a billing period. `unknown` means Viva may have charged
+ * the customer (no response, or a 5xx), so it must not simply be retried.
+ */
+interface ChargeOutcome {
+  transactionId?: string | undefined;
+  error?: string | undefined;
+  unknown?: boolean | undefined;
+}
+
+/**
+ * Scheduler settings, read from env vars on each use
+ */
+interface SchedulerConfig {
+  pollIntervalMs: number; // How often due subscriptions are charged
+  retryDelayMs: number; // Wait before retrying a failed charge
+  maxFailedAttempts: number; // Cancel after this many consecutive failures
+}
+
+function getSchedulerConfig(): SchedulerConfig {
+  return {
+    pollIntervalMs: getEnvNumber('SUBSCRIPTION_SCHEDULER_INTERVAL_SECONDS', 60) * 1000,
+    retryDelayMs: getEnvNumber('SUBSCRIPTION_RETRY_DELAY_SECONDS', 24 * 60 * 60) * 1000,
+    maxFailedAttempts: getEnvNumber('SUBSCRIPTION_MAX_FAILED_ATTEMPTS', 3),
+  };
+}
+
+/**
+ * Add a number of billing periods to a date.
+ * Month-based intervals keep the anchor's day, clamped to the month's last day
+ * (Jan 31 -> Feb 28 -> Mar 31), so always compute from the anchor.
+ */
+function addPeriods(anchor: Date, interval: SubscriptionInterval, count: number): Date {
+  const next = new Date(anchor);
+
+  switch (interval) {
+    case 'day':
+      next.setUTCDate(next.getUTCDate() + count);
+      return next;
+    case 'week':
+      next.setUTCDate(next.getUTCDate() + count * 7);
+      return next;
+    case 'month':
+    case 'year': {
+      const months = interval === 'year' ? count * 12 : count;
+      const day = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + months);
+      const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(day, lastDay));
+      return next;
+    }
+  }
+}
+
+/**
+ * Billing date of the period after `billedPeriods` periods from the anchor
+ */
+function getBillingDate(subscription: Subscription, plan: SubscriptionPlan, billedPeriods: number): string {
+  const anchor = new Date(subscription.billingAnchor ?? subscription.createdAt);
+  return addPeriods(anchor, plan.interval, plan.intervalCount * billedPeriods).toISOString();
+}
+
+export interface CreatePlanInput {
+  name: string;
+  amount: number;
+  currencyCode?: string | undefined;
+  interval: SubscriptionInterval;
+  intervalCount?: number | undefined;
+  trialDays?: number | undefined;
+}
+
+export interface CreateSubscriptionInput {
+  orderCode: number | string;
+  customer?: VivaCustomer | undefined;
+  merchantTrns?: string | undefined;
+  callback?: CallbackConfig | undefined;
+}
+
+export interface SubscriptionFilter {
+  status?: SubscriptionStatus | undefined;
+  planId?: string | undefined;
+}
+
+/**
+ * Subscription Service
+ * Plans, subscriber lifecycle, and a scheduler that charges the initial
+ * recurring-enabled transaction again on every billing date.
+ */
+class SubscriptionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // ---- Plans ----
+
+  createPlan(merchantKey: string, input: CreatePlanInput): SubscriptionPlan {
+    const now = new Date().toISOString();
+    const plan: SubscriptionPlan = {
+      merchantKey,
+      planId: crypto.randomUUID(),
+      name: input.name,
+      amount: input.amount,
+      currencyCode: input.currencyCode,
+      interval: input.interval,
+      intervalCount: input.intervalCount ?? 1,
+      trialDays: input.trialDays ?? 0,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    planStore.set(`${merchantKey}:${plan.planId}`, plan);
+    return plan;
+  }
+
+  getPlan(merchantKey: string, planId: string): SubscriptionPlan | undefined {
+    return planStore.get(`${merchantKey}:${planId}`);
+  }
+
+  listPlans(merchantKey: string): SubscriptionPlan[] {
+    return planStore
+      .values()
+      .filter((plan) => plan.merchantKey === merchantKey)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Rename or (de)activate a plan. Price and interval are fixed once created;
+   * create a new plan and move subscribers to it instead.
+   */
+  updatePlan(merchantKey: string, planId: string, update: { name?: string; active?: boolean }): SubscriptionPlan | undefined {
+    const plan = this.getPlan(merchantKey, planId);
+    if (!plan) return undefined;
+
+    if (update.name !== undefined) plan.name = update.name;
+    if (update.active !== undefined) plan.active = update.active;
+    plan.updatedAt = new Date().toISOString();
+    planStore.set(`${merchantKey}:${planId}`, plan);
+    return plan;
+  }
+
+  // ---- Subscriptions ----
+
+  /**
+   * Record a subscription waiting for its initial order to be paid
+   */
+  createSubscription(merchantKey: string, plan: SubscriptionPlan, input: CreateSubscriptionInput): Subscription {
+    const now = new Date().toISOString();
+    const subscription: Subscription = {
+      merchantKey,
+      subscriptionId: crypto.randomUUID(),
+      planId: plan.planId,
+      status: 'pending',
+      orderCode: String(input.orderCode),
+      customer: input.customer,
+      merchantTrns: input.merchantTrns,
+      callback: input.callback,
+      billedPeriods: 0,
+      failedAttempts: 0,
+      charges: [],
+      cancelAtPeriodEnd: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.save(subscription);
+    return subscription;
+  }
+
+  getSubscription(merchantKey: string, subscriptionId: string): Subscription | undefined {
+    return subscriptionStore.get(`${merchantKey}:${subscriptionId}`);
+  }
+
+  listSubscriptions(merchantKey: string, filter: SubscriptionFilter = {}): Subscription[] {
+    return subscriptionStore
+      .values()
+      .filter((subscription) => {
+        if (subscription.merchantKey !== merchantKey) return false;
+        if (filter.status && subscription.status !== filter.status) return false;
+        if (filter.planId && subscription.planId !== filter.planId) return false;
+        return true;
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Update a subscription's reference, callback or plan.
+   * A new plan applies from the next billing date.
+   */
+  updateSubscription(
+    subscription: Subscription,
+    update: { plan?: SubscriptionPlan; merchantTrns?: string; callback?: CallbackConfig }
+  ): Subscription {
+    if (update.plan && update.plan.planId !== subscription.planId) {
+      subscription.planId = update.plan.planId;
+      // Re-anchor so the new plan's interval counts from the next billing date
+      if (subscription.nextBillingAt) {
+        subscription.billingAnchor = subscription.nextBillingAt;
+        subscription.billedPeriods = 0;
+      }
+    }
+    if (update.merchantTrns !== undefined) subscription.merchantTrns = update.merchantTrns;
+    if (update.callback !== undefined) subscription.callback = update.callback;
+
+    this.save(subscription);
+    return subscription;
+  }
+
+  /**
+   * Activate the pending subscription whose initial order was just paid
+   * (called for every Viva payment webhook)
+   */
+  async handlePaymentCreated(merchantKey: string, payload: WebhookPayload): Promise<void> {
+    const orderCode = String(payload.EventData.OrderCode);
+    const subscription = subscriptionStore
+      .values()
+      .find((s) => s.merchantKey === merchantKey && s.orderCode === orderCode && s.status === 'pending');
+    if (!subscription) return;
+
+    const plan = this.getPlan(merchantKey, subscription.planId);
+    if (!plan) return;
+
+    const now = new Date();
+    subscription.initialTransactionId = payload.EventData.TransactionId;
+
+    if (plan.trialDays > 0) {
+      // Initial order only verified the card; the first charge is at the end of the trial
+      subscription.status = 'trialing';
+      subscription.trialEndsAt = addPeriods(now, 'day', plan.trialDays).toISOString();
+      subscription.billingAnchor = subscription.trialEndsAt;
+      subscription.billedPeriods = 0;
+      subscription.currentPeriodStart = now.toISOString();
+      subscription.currentPeriodEnd = subscription.trialEndsAt;
+    } else {
+      // Initial order paid the first period
+      subscription.status = 'active';
+      subscription.billingAnchor = now.toISOString();
+      subscription.billedPeriods = 1;
+      subscription.currentPeriodStart = now.toISOString();
+      subscription.currentPeriodEnd = getBillingDate(subscription, plan, 1);
+      subscription.charges.push({
+        amount: plan.amount,
+        success: true,
+        transactionId: payload.EventData.TransactionId,
+        attemptedAt: now.toISOString(),
+      });
+    }
+
+    subscription.nextBillingAt = subscription.currentPeriodEnd;
+    subscription.nextAttemptAt = subscription.nextBillingAt;
+    this.save(subscription);
+
+    console.log(`Subscription ${subscription.subscriptionId} ${subscription.status} (order ${orderCode})`);
+    await this.emit(WebhookEventType.SUBSCRIPTION_ACTIVATED, subscription, plan, {
+      transactionId: payload.EventData.TransactionId,
+    });
+  }
+
+  async pause(subscription: Subscription): Promise<Subscription> {
+    subscription.status = 'paused';
+    subscription.pausedAt = new Date().toISOString();
+    this.save(subscription);
+
+    await this.emit(WebhookEventType.SUBSCRIPTION_PAUSED, subscription);
+    return subscription;
+  }
+
+  /**
+   * Resume a paused subscription; a billing date missed while paused is charged right away
+   */
+  async resume(subscription: Subscription): Promise<Subscription> {
+    const now = new Date().toISOString();
+    const inTrial = !!subscription.trialEndsAt && subscription.trialEndsAt > now && subscription.billedPeriods === 0;
+
+    subscription.status = inTrial ? 'trialing' : subscription.failedAttempts > 0 ? 'past_due' : 'active';
+    subscription.pausedAt = undefined;
+    if (subscription.nextBillingAt) {
+      subscription.nextAttemptAt = subscription.nextBillingAt > now ? subscription.nextBillingAt : now;
+    }
+    this.save(subscription);
+
+    await this.emit(WebhookEventType.SUBSCRIPTION_RESUMED, subscription);
+    return subscription;
+  }
+
+  /**
+   * Cancel now, or at the end of the current period (no further charges either way)
+   */
+  async cancel(subscription: Subscription, atPeriodEnd = false): Promise<Subscription> {
+    const billing = subscription.status === 'trialing' || subscription.status === 'active' || subscription.status === 'past_due';
+    if (atPeriodEnd && billing && subscription.nextBillingAt) {
+      subscription.cancelAtPeriodEnd = true;
+      this.save(subscription);
+      return subscription;
+    }
+
+    return this.markCancelled(subscription, 'requested');
+  }
+
+  // ---- Scheduler ----
+
+  /**
+   * Charge every subscription whose next attempt is due
+   */
+  async processDue(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = subscriptionStore
+        .values()
+        .filter((subscription) =>
+          (subscription.status === 'active' || subscription.status === 'trialing' || subscription.status === 'past_due') &&
+          subscription.nextAttemptAt !== undefined &&
+          new Date(subscription.nextAttemptAt).getTime() <= now.getTime()
+        );
+
+      for (const subscription of due) {
+        try {
+          await this.bill(subscription, now);
+        } catch (error) {
+          console.error(`Error billing subscription ${subscription.subscriptionId}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Start the billing scheduler
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error('Error processing subscriptions:', error);
+      });
+    }, getSchedulerConfig().pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the billing scheduler (used on shutdown and in tests)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Charge one billing period
+   */
+  private async bill(subscription: Subscription, now: Date): Promise<void> {
+    if (subscription.cancelAtPeriodEnd) {
+      await this.markCancelled(subscription, 'requested');
+      return;
+    }
+
+    const plan = this.getPlan(subscription.merchantKey, subscription.planId);
+    const merchant = getServiceByMerchantKey(subscription.merchantKey);
+
+    let outcome: ChargeOutcome;
+    if (!plan) {
+      outcome = { error: `Plan ${subscription.planId} not found` };
+    } else if (!merchant) {
+      outcome = { error: `Merchant ${subscription.merchantKey} not configured` };
+    } else if (!subscription.initialTransactionId) {
+      outcome = { error: 'No initial transaction to charge' };
+    } else {
+      outcome = await this.charge(subscription, plan, merchant.service);
+    }
+
+    // The subscription may have been paused, cancelled or changed while Viva was charging
+    subscription = subscriptionStore.get(`${subscription.merchantKey}:${subscription.subscriptionId}`) ?? subscription;
+    const stopped = subscription.status === 'paused' || subscription.status === 'cancelled';
+    const { transactionId, error } = outcome;
+
+    if (outcome.unknown) {
+      // Wall-clock time, compared with Viva's transaction dates
+      subscription.pendingChargeAt ??= new Date().toISOString();
+      subscription.nextAttemptAt = new Date(now.getTime() + getSchedulerConfig().retryDelayMs).toISOString();
+      this.save(subscription);
+      console.warn(`Subscription ${subscription.subscriptionId} charge outcome unknown, checking with Viva before retrying: ${error}`);
+      return;
+    }
+
+    subscription.pendingChargeAt = undefined;
+    subscription.charges.push({
+      amount: plan?.amount ?? 0,
+      success: !error,
+      transactionId,
+      error,
+      attemptedAt: now.toISOString(),
+    });
+    subscription.charges = subscription.charges.slice(-MAX_CHARGE_HISTORY);
+
+    if (!error && plan) {
+      if (!stopped) subscription.status = 'active';
+      subscription.failedAttempts = 0;
+      subscription.billedPeriods += 1;
+      subscription.currentPeriodStart = subscription.nextBillingAt;
+      subscription.currentPeriodEnd = getBillingDate(subscription, plan, subscription.billedPeriods);
+      subscription.nextBillingAt = subscription.currentPeriodEnd;
+      subscription.nextAttemptAt = subscription.status === 'cancelled' ? undefined : subscription.nextBillingAt;
+      this.save(subscription);
+
+      console.log(`Subscription ${subscription.subscriptionId} renewed until ${subscription.currentPeriodEnd}`);
+      await this.emit(WebhookEventType.SUBSCRIPTION_RENEWED, subscription, plan, { transactionId });
+      return;
+    }
+
+    if (stopped) {
+      // Failed while being paused or cancelled: keep the attempt, retry nothing
+      this.save(subscription);
+      return;
+    }
+
+    const config = getSchedulerConfig();
+    subscription.failedAttempts += 1;
+    console.warn(`Subscription ${subscription.subscriptionId} charge failed (${subscription.failedAttempts}/${config.maxFailedAttempts}): ${error}`);
+
+    if (subscription.failedAttempts >= config.maxFailedAttempts) {
+      this.save(subscription);
+      await this.emit(WebhookEventType.SUBSCRIPTION_PAYMENT_FAILED, subscription, plan, { error });
+      await this.markCancelled(subscription, 'payment_failed');
+      return;
+    }
+
+    subscription.status = 'past_due';
+    subscription.nextAttemptAt = new Date(now.getTime() + config.retryDelayMs).toISOString();
+    this.save(subscription);
+    await this.emit(WebhookEventType.SUBSCRIPTION_PAYMENT_FAILED, subscription, plan, { error });
+  }
+
+  /**
+   * Charge the initial transaction again. A charge whose outcome was unknown is
+   * first looked up at Viva, and not repeated if it went through.
+   */
+  private async charge(subscription: Subscription, plan: SubscriptionPlan, service: VivaWalletService): Promise<ChargeOutcome> {
+    const initialTransactionId = subscription.initialTransactionId!;
+    const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+    if (subscription.pendingChargeAt) {
+      const since = new Date(subscription.pendingChargeAt).getTime() - CHARGE_LOOKUP_MARGIN_MS;
+      try {
+        const transactions = await this.listChargesSince(subscription, service, since);
+        const previous = transactions.find((transaction) =>
+          transaction.ParentId === initialTransactionId &&
+          transaction.StatusId === 'F' &&
+          toMinorUnits(transaction.Amount) === plan.amount &&
+          new Date(transaction.InsDate).getTime() >= since &&
+          !subscription.charges.some((charge) => charge.transactionId === transaction.TransactionId)
+        );
+        if (previous) return { transactionId: previous.TransactionId };
+      } catch (error) {
+        // Still unknown: never charge again without knowing
+        return { unknown: true, error: errorMessage(error) };
+      }
+    }
+
+    try {
+      const result = await service.createTransaction(initialTransactionId, {
+        amount: plan.amount,
+        ...(plan.currencyCode ? { currencyCode: plan.currencyCode } : {}),
+        ...(subscription.merchantTrns ? { merchantTrns: subscription.merchantTrns } : {}),
+        customerTrns: plan.name,
+      });
+      return { transactionId: result.TransactionId };
+    } catch (error) {
+      // No response or a server error: Viva may still have charged the card
+      const unknown = error instanceof VivaApiError && (error.upstreamStatus === undefined || error.upstreamStatus >= 500);
+      return { unknown, error: errorMessage(error) };
+    }
+  }
+
+  /**
+   * Transactions that may be a charge made since `since`: those of the initial
+   * order and, as a recurring charge may be filed under an order of its own,
+   * those of every day from `since` until now
+   */
+  private async listChargesSince(subscription: Subscription, service: VivaWalletService, since: number): Promise<LegacyTransaction[]> {
+    const transactions = await service.listTransactions({ orderCode: Number(subscription.orderCode) });
+    const seen = new Set(transactions.map((transaction) => transaction.TransactionId));
+
+    const until = Date.now() + CHARGE_LOOKUP_MARGIN_MS;
+    for (let day = Math.floor(since / DAY_MS) * DAY_MS; day <= until; day += DAY_MS) {
+      const date = new Date(day).toISOString().slice(0, 10);
+      for (const transaction of await service.listTransactions({ date })) {
+        if (seen.has(transaction.TransactionId)) continue;
+        seen.add(transaction.TransactionId);
+        transactions.push(transaction);
+      }
+    }
+    return transactions;
+  }
+
+  private async markCancelled(subscription: Subscription, reason: 'requested' | 'payment_failed'): Promise<Subscription> {
+    subscription.status = 'cancelled';
+    subscription.cancellationReason = reason;
+    subscription.cancelledAt = new Date().toISOString();
+    subscription.nextAttemptAt = undefined;
+    this.save(subscription);
+
+    await this.emit(WebhookEventType.SUBSCRIPTION_CANCELLED, subscription);
+    return subscription;
+  }
+
+  private save(subscription: Subscription): void {
+    subscription.updatedAt = new Date().toISOString();
+    subscriptionStore.set(`${subscription.merchantKey}:${subscription.subscriptionId}`, subscription);
+  }
+
+  /**
+   * Forward a subscription.* event to the subscription's callback
+   */
+  async emit(
+    event: WebhookEventType,
+    subscription: Subscription,
+    plan?: SubscriptionPlan,
+    extra: { transactionId?: string | undefined; error?: string | undefined } = {}
+  ): Promise<void> {
+    const currentPlan = plan ?? this.getPlan(subscription.merchantKey, subscription.planId);
+
+    await webhookForwarderService.forwardSubscriptionEvent(
+      event,
+      {
+        subscriptionId: subscription.subscriptionId,
+        planId: subscription.planId,
+        status: subscription.status,
+        orderCode: subscription.orderCode,
+        transactionId: extra.transactionId,
+        amount: currentPlan?.amount,
+        currency: currentPlan?.currencyCode,
+        currentPeriodEnd: subscription.currentPeriodEnd,
+        nextBillingAt: subscription.status === 'cancelled' ? undefined : subscription.nextBillingAt,
+        failedAttempts: subscription.failedAttempts,
+        error: extra.error,
+      },
+      subscription.callback
+    );
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -0,0 +1,118 @@
+import { getServiceByMerchantKey } from './merchant.service.js';
+import { ledgerService, toMinorUnits } from './ledger.service.js';
+import { refundService } from './refund.service.js';
+import { getCardBrand } from './card-vault.service.js';
+import { getKind } from './order-status.service.js';
+import type { LegacyTransaction } from '../types/viva.types.js';
+import type { LedgerTransaction, LedgerTransactionKind } from '../types/ledger.types.js';
+import type { TransactionReportRow } from '../types/transaction-report.types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The UTC days from `from` to `to` (YYYY-MM-DD), both included
+ */
+function* eachDay(from: string, to: string): Generator<string> {
+  const last = new Date(`${to}T00:00:00.000Z`).getTime();
+  for (let day = new Date(`${from}T00:00:00.000Z`).getTime(); day <= last; day += DAY_MS) {
+    yield new Date(day).toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * Fees and refunds recorded for a transaction
+ */
+function getRecordedDetails(merchantKey: string, transactionId: string, kind: LedgerTransactionKind) {
+  const fees = ledgerService.getTransactionFees(merchantKey, transactionId);
+  const refunds = kind === 'payment' ? refundService.getRefunds(merchantKey, transactionId) : undefined;
+
+  return {
+    fees: fees?.totalCommission,
+    interchange: fees?.interchange,
+    isvFee: fees?.isvFee,
+    refundedAmount: kind === 'payment' ? refunds?.refundedAmount ?? 0 : undefined,
+    refundTransactionIds: refunds?.refunds.map((refund) => refund.refundTransactionId) ?? [],
+  };
+}
+
+function fromViva(merchantKey: string, transaction: LegacyTransaction): TransactionReportRow {
+  const kind = getKind(transaction);
+  const recorded = ledgerService.getTransaction(merchantKey, transaction.TransactionId);
+
+  return {
+    createdAt: new Date(transaction.InsDate).toISOString(),
+    transactionId: transaction.TransactionId,
+    orderCode: String(transaction.Order.OrderCode),
+    parentId: transaction.ParentId ?? undefined,
+    kind,
+    transactionTypeId: transaction.TransactionType.TransactionTypeId,
+    statusId: transaction.StatusId,
+    amount: toMinorUnits(transaction.Amount),
+    currencyCode: transaction.CurrencyCode,
+    cardBrand: transaction.CreditCard
+      ? getCardBrand(transaction.CreditCard.CardType.CardTypeId)
+      : recorded?.card?.cardTypeId !== undefined ? getCardBrand(recorded.card.cardTypeId) : undefined,
+    cardLastFour: transaction.CreditCard?.Number.slice(-4) ?? recorded?.card?.lastFour,
+    merchantTrns: transaction.MerchantTrns ?? recorded?.merchantTrns,
+    tags: transaction.Order.Tags.length > 0 ? transaction.Order.Tags : recorded?.tags ?? [],
+    ...getRecordedDetails(merchantKey, transaction.TransactionId, kind),
+    source: 'viva',
+  };
+}
+
+function fromLedger(transaction: LedgerTransaction): TransactionReportRow {
+  return {
+    createdAt: transaction.createdAt,
+    transactionId: transaction.transactionId,
+    orderCode: transaction.orderCode,
+    kind: transaction.kind,
+    statusId: transaction.statusId,
+    amount: transaction.amount,
+    currencyCode: transaction.currencyCode,
+    cardBrand: transaction.card?.cardTypeId !== undefined ? getCardBrand(transaction.card.cardTypeId) : undefined,
+    cardLastFour: transaction.card?.lastFour,
+    merchantTrns: transaction.merchantTrns,
+    tags: transaction.tags,
+    ...getRecordedDetails(transaction.merchantKey, transaction.transactionId, transaction.kind),
+    source: 'webhook',
+  };
+}
+
+/**
+ * Transaction Report Service
+ * Builds a merchant's transaction export from Viva's transaction listing,
+ * one day at a time, enriched with the fees and refunds the middleware
+ * recorded. Transactions only known from webhooks are included too.
+ */
+class TransactionReportService {
+  /**
+   * A merchant's transactions from `from` to `to` (YYYY-MM-DD, UTC, both
+   * included), oldest first. Viva is queried lazily, one day per step, so
+   * long ranges can be streamed without holding them in memory.
+   */
+  async *streamTransactions(merchantKey: string, from: string, to: string): AsyncGenerator<TransactionReportRow> {
+    const merchant = getServiceByMerchantKey(merchantKey);
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantKey} not configured`);
+    }
+
+    for (const date of eachDay(from, to)) {
+      const vivaTransactions = await merchant.service.listTransactions({ date });
+      const listedIds = new Set(vivaTransactions.map((t) => t.TransactionId));
+
+      const start = new Date(`${date}T00:00:00.000Z`);
+      const recorded = ledgerService
+        .getTransactionsBetween(merchantKey, start, new Date(start.getTime() + DAY_MS))
+        .filter((t) => !listedIds.has(t.transactionId));
+
+      const rows = [
+        ...vivaTransactions.map((t) => fromViva(merchantKey, t)),
+        ...recorded.map(fromLedger),
+      ].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.transactionId.localeCompare(b.transactionId));
+
+      yield* rows;
+    }
+  }
+}
+
+export const transactionReportService = new TransactionReportService();
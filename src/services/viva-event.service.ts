@@ -0,0 +1,406 @@
+import { OrderState, WebhookEventTypeId } from '../types/viva.types.js';
+import type {
+  AccountTransactionCreatedEventData,
+  ObligationEventData,
+  OrderUpdatedEventData,
+  PosEcrSessionEventData,
+  TransactionPriceCalculatedEventData,
+  TransferCreatedEventData,
+  VivaWebhookEvent,
+  WebhookEnvelope,
+  WebhookPayload,
+} from '../types/viva.types.js';
+import { webhookForwarderService, WebhookEventType } from './webhook-forwarder.service.js';
+import type { OrderEventData } from './webhook-forwarder.service.js';
+import { ledgerService } from './ledger.service.js';
+import { webhookDedupService } from './webhook-dedup.service.js';
+import { subscriptionService } from './subscription.service.js';
+import { preauthService } from './preauth.service.js';
+import { refundService } from './refund.service.js';
+import { paymentLinkService } from './payment-link.service.js';
+
+/**
+ * Handle successful payment event
+ */
+async function handleTransactionPaymentCreated(
+  payload: WebhookPayload,
+  merchantKey?: string,
+): Promise<void> {
+  const { EventData } = payload;
+
+  console.log('Payment successful:', {
+    transactionId: EventData.TransactionId,
+    orderCode: EventData.OrderCode,
+    amount: EventData.Amount,
+    email: EventData.Email,
+    cardNumber: EventData.CardNumber,
+  });
+
+  if (merchantKey) {
+    ledgerService.recordWebhookTransaction(merchantKey, payload, 'payment', true);
+    // Track pre-auth holds (before the order's callback is used up) and captures against them
+    await preauthService.handlePaymentCreated(merchantKey, payload);
+  }
+
+  // Forward to callback URL
+  await webhookForwarderService.forwardPaymentSuccess(
+    EventData.OrderCode,
+    {
+      transactionId: EventData.TransactionId,
+      amount: EventData.Amount,
+      currency: EventData.CurrencyCode,
+      status: EventData.StatusId,
+      customer: {
+        email: EventData.Email,
+        fullName: EventData.FullName,
+        phone: EventData.Phone,
+      },
+      card: {
+        lastFour: EventData.CardNumber?.slice(-4),
+        brand: String(EventData.CardTypeId),
+        expiryDate: undefined,
+      },
+      merchantReference: EventData.MerchantTrns,
+    },
+    payload, // Include raw payload
+    merchantKey,
+  );
+
+  // Activate a subscription whose initial order this was
+  if (merchantKey) {
+    await subscriptionService.handlePaymentCreated(merchantKey, payload);
+    // Count the payment on the payment link that opened the order
+    paymentLinkService.handlePaymentCreated(merchantKey, payload);
+  }
+}
+
+/**
+ * Handle failed payment event
+ */
+async function handleTransactionFailed(
+  payload: WebhookPayload,
+  merchantKey?: string,
+): Promise<void> {
+  const { EventData } = payload;
+
+  console.log('Payment failed:', {
+    transactionId: EventData.TransactionId,
+    orderCode: EventData.OrderCode,
+    statusId: EventData.StatusId,
+  });
+
+  if (merchantKey) {
+    ledgerService.recordWebhookTransaction(merchantKey, payload, 'payment', false);
+  }
+
+  // Forward to callback URL
+  await webhookForwarderService.forwardPaymentFailed(
+    EventData.OrderCode,
+    {
+      transactionId: EventData.TransactionId,
+      status: EventData.StatusId,
+      merchantReference: EventData.MerchantTrns,
+    },
+    payload, // Include raw payload
+    merchantKey,
+  );
+}
+
+/**
+ * Handle refund/reversal event
+ */
+async function handleTransactionReversalCreated(
+  payload: WebhookPayload,
+  merchantKey?: string,
+): Promise<void> {
+  const { EventData } = payload;
+
+  console.log('Transaction reversed:', {
+    transactionId: EventData.TransactionId,
+    orderCode: EventData.OrderCode,
+    amount: EventData.Amount,
+  });
+
+  if (merchantKey) {
+    ledgerService.recordWebhookTransaction(merchantKey, payload, 'reversal', true);
+  }
+
+  // Forward to callback URL
+  await webhookForwarderService.forwardPaymentRefunded(
+    EventData.OrderCode,
+    {
+      transactionId: EventData.TransactionId,
+      amount: EventData.Amount,
+      currency: EventData.CurrencyCode,
+      merchantReference: EventData.MerchantTrns,
+    },
+    payload, // Include raw payload
+    merchantKey,
+  );
+
+  if (merchantKey) {
+    // Release a pre-auth hold that was voided
+    await preauthService.handleReversalCreated(merchantKey, payload);
+    // Add the refund to the original transaction's refund history
+    await refundService.handleReversalCreated(merchantKey, payload);
+  }
+}
+
+/**
+ * Handle transaction price calculated event (fees for a transaction)
+ */
+async function handleTransactionPriceCalculated(
+  payload: WebhookEnvelope<number, TransactionPriceCalculatedEventData>,
+  merchantKey: string,
+): Promise<void> {
+  const { EventData } = payload;
+
+  ledgerService.recordTransactionFees(merchantKey, payload);
+
+  await webhookForwarderService.forwardEvent(
+    WebhookEventType.PAYMENT_FEES_CALCULATED,
+    {
+      orderCode: EventData.OrderCode,
+      transactionId: EventData.TransactionId,
+      currency: EventData.CurrencyCode,
+      interchange: EventData.Interchange,
+      isvFee: EventData.IsvFee,
+      totalCommission: EventData.TotalCommission,
+    },
+    payload,
+    merchantKey,
+  );
+}
+
+// Viva order StateId -> normalized order state
+const ORDER_STATES: Record<OrderState, OrderEventData['state']> = {
+  [OrderState.Pending]: 'pending',
+  [OrderState.Expired]: 'expired',
+  [OrderState.Canceled]: 'cancelled',
+  [OrderState.Paid]: 'paid',
+};
+
+/**
+ * Handle order updated event
+ * A cancelled order is forwarded as order.cancelled, anything else as order.updated
+ */
+async function handleOrderUpdated(
+  payload: WebhookEnvelope<number, OrderUpdatedEventData>,
+  merchantKey: string,
+): Promise<void> {
+  const { EventData } = payload;
+  const state = ORDER_STATES[EventData.StateId] ?? 'pending';
+
+  console.log('Order updated:', {
+    orderCode: EventData.OrderCode,
+    state,
+  });
+
+  if (state === 'cancelled' || state === 'expired') {
+    ledgerService.updateOrderStatus(merchantKey, EventData.OrderCode, state);
+  }
+
+  await webhookForwarderService.forwardEvent(
+    state === 'cancelled' ? WebhookEventType.ORDER_CANCELLED : WebhookEventType.ORDER_UPDATED,
+    {
+      orderCode: EventData.OrderCode,
+      state,
+      stateId: EventData.StateId,
+      amount: EventData.Amount,
+      currency: EventData.CurrencyCode,
+      merchantReference: EventData.MerchantTrns,
+      expirationDate: EventData.ExpirationDate,
+    },
+    payload,
+    merchantKey,
+  );
+
+  // A cancelled order will not be paid; drop its callback registration
+  if (state === 'cancelled') {
+    webhookForwarderService.removeCallback(EventData.OrderCode);
+  }
+}
+
+/**
+ * Handle POS ECR session created/failed events
+ */
+async function handlePosEcrSession(
+  payload: WebhookEnvelope<number, PosEcrSessionEventData>,
+  merchantKey: string,
+): Promise<void> {
+  const { EventData } = payload;
+  const failed = payload.EventTypeId === WebhookEventTypeId.PosEcrSessionFailed;
+
+  await webhookForwarderService.forwardEvent(
+    failed ? WebhookEventType.POS_SESSION_FAILED : WebhookEventType.POS_SESSION_CREATED,
+    {
+      orderCode: EventData.OrderCode,
+      sessionId: EventData.SessionId,
+      terminalId: EventData.TerminalId,
+      cashRegisterId: EventData.CashRegisterId,
+      transactionId: EventData.TransactionId,
+      amount: EventData.Amount,
+      currency: EventData.CurrencyCode,
+      merchantReference: EventData.MerchantReference,
+      message: EventData.Message,
+    },
+    payload,
+    merchantKey,
+  );
+}
+
+/**
+ * Handle transfer created event
+ */
+async function handleTransferCreated(
+  payload: WebhookEnvelope<number, TransferCreatedEventData>,
+  merchantKey: string,
+): Promise<void> {
+  const { EventData } = payload;
+
+  await webhookForwarderService.forwardEvent(
+    WebhookEventType.TRANSFER_CREATED,
+    {
+      transferId: EventData.TransferId,
+      amount: EventData.Amount,
+      currency: EventData.CurrencyCode,
+      sourceWalletId: EventData.SourceWalletId,
+      targetWalletId: EventData.TargetWalletId,
+      description: EventData.Description,
+    },
+    payload,
+    merchantKey,
+  );
+}
+
+/**
+ * Handle account transaction created event
+ */
+async function handleAccountTransactionCreated(
+  payload: WebhookEnvelope<number, AccountTransactionCreatedEventData>,
+  merchantKey: string,
+): Promise<void> {
+  const { EventData } = payload;
+
+  await webhookForwarderService.forwardEvent(
+    WebhookEventType.ACCOUNT_TRANSACTION_CREATED,
+    {
+      accountTransactionId: EventData.AccountTransactionId,
+      walletId: EventData.WalletId,
+      transactionId: EventData.TransactionId,
+      amount: EventData.Amount,
+      currency: EventData.CurrencyCode,
+      description: EventData.Description,
+    },
+    payload,
+    merchantKey,
+  );
+}
+
+/**
+ * Handle obligation created/captured events
+ */
+async function handleObligation(
+  payload: WebhookEnvelope<number, ObligationEventData>,
+  merchantKey: string,
+): Promise<void> {
+  const { EventData } = payload;
+  const captured = payload.EventTypeId === WebhookEventTypeId.ObligationCaptured;
+
+  await webhookForwarderService.forwardEvent(
+    captured ? WebhookEventType.OBLIGATION_CAPTURED : WebhookEventType.OBLIGATION_CREATED,
+    {
+      orderCode: EventData.OrderCode,
+      obligationId: EventData.ObligationId,
+      transactionId: EventData.TransactionId,
+      amount: EventData.Amount,
+      currency: EventData.CurrencyCode,
+      customer: {
+        email: EventData.CustomerEmail,
+        fullName: EventData.CustomerFullName,
+      },
+      merchantReference: EventData.MerchantTrns,
+      expirationDate: EventData.ExpirationDate,
+    },
+    payload,
+    merchantKey,
+  );
+}
+
+
+/**
+ * Viva Event Service
+ * Applies Viva events to the ledger and the other services and forwards
+ * them to the order's callback. Events come from webhooks, or are rebuilt
+ * from Viva's records by order reconciliation when a webhook was missed.
+ */
+class VivaEventService {
+  /**
+   * Process an event once. Returns false if the same event was already
+   * processed within the dedup retention window.
+   */
+  async process(merchantKey: string, payload: VivaWebhookEvent): Promise<boolean> {
+    if (!webhookDedupService.recordIfNew(merchantKey, payload)) {
+      return false;
+    }
+
+    try {
+      await this.dispatch(payload, merchantKey);
+    } catch (error) {
+      // Let a later delivery of the same event be processed
+      webhookDedupService.forget(merchantKey, payload);
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Run the handler for an event's type (no deduplication)
+   */
+  async dispatch(payload: VivaWebhookEvent, merchantKey: string): Promise<void> {
+    switch (payload.EventTypeId) {
+      case WebhookEventTypeId.TransactionPaymentCreated:
+        await handleTransactionPaymentCreated(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.TransactionFailed:
+        await handleTransactionFailed(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.TransactionReversalCreated: // Refund/Cancel
+        await handleTransactionReversalCreated(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.TransactionPriceCalculated:
+        await handleTransactionPriceCalculated(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.OrderUpdated:
+        await handleOrderUpdated(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.PosEcrSessionCreated:
+      case WebhookEventTypeId.PosEcrSessionFailed:
+        await handlePosEcrSession(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.TransferCreated:
+        await handleTransferCreated(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.AccountTransactionCreated:
+        await handleAccountTransactionCreated(payload, merchantKey);
+        break;
+
+      case WebhookEventTypeId.ObligationCreated:
+      case WebhookEventTypeId.ObligationCaptured:
+        await handleObligation(payload, merchantKey);
+        break;
+
+      default:
+        console.log(`Unhandled event type: ${(payload as { EventTypeId: number }).EventTypeId}`);
+    }
+  }
+}
+
+export const vivaEventService = new VivaEventService();
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import type { AxiosInstance, AxiosError } from 'axios';
 import type { VivaConfig } from '../config/viva.config.js';
+import { VivaApiError } from '../errors/viva-api.error.js';
 import type {
   VivaTokenResponse,
   CreatePaymentOrderRequest,
@@ -10,6 +11,9 @@ import type {
   CreateTransactionRequest,
   CreateTransactionResponse,
   CancelTransactionResponse,
+  LegacyTransaction,
+  ListTransactionsParams,
+  ListTransactionsResponse,
   CreateCardTokenRequest,
   CreateCardTokenResponse,
   UpdateOrderRequest,
@@ -92,8 +96,7 @@ export class VivaWalletService {
 
       return this.accessToken;
     } catch (error) {
-      this.handleError(error, 'Failed to get access token');
-      throw error;
+      throw this.handleError(error, 'Failed to get access token');
     }
   }
 
@@ -122,8 +125,7 @@ export class VivaWalletService {
 
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to create payment order');
-      throw error;
+      throw this.handleError(error, 'Failed to create payment order');
     }
   }
 
@@ -165,8 +167,7 @@ export class VivaWalletService {
 
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to retrieve order');
-      throw error;
+      throw this.handleError(error, 'Failed to retrieve order');
     }
   }
 
@@ -185,8 +186,7 @@ export class VivaWalletService {
         this.getBasicAuthConfig()
       );
     } catch (error) {
-      this.handleError(error, 'Failed to update order');
-      throw error;
+      throw this.handleError(error, 'Failed to update order');
     }
   }
 
@@ -201,8 +201,7 @@ export class VivaWalletService {
         this.getBasicAuthConfig()
       );
     } catch (error) {
-      this.handleError(error, 'Failed to cancel order');
-      throw error;
+      throw this.handleError(error, 'Failed to cancel order');
     }
   }
 
@@ -226,8 +225,30 @@ export class VivaWalletService {
 
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to retrieve transaction');
-      throw error;
+      throw this.handleError(error, 'Failed to retrieve transaction');
+    }
+  }
+
+  /**
+   * List the transactions of an order, or of a day
+   * Uses Basic Auth
+   */
+  async listTransactions(params: ListTransactionsParams): Promise<LegacyTransaction[]> {
+    try {
+      const response = await axios.get<ListTransactionsResponse>(
+        `${this.config.ordersApiUrl}/api/transactions`,
+        {
+          ...this.getBasicAuthConfig(),
+          params: {
+            ...(params.orderCode !== undefined ? { ordercode: params.orderCode } : {}),
+            ...(params.date ? { date: params.date } : {}),
+          },
+        }
+      );
+
+      return response.data.Transactions ?? [];
+    } catch (error) {
+      throw this.handleError(error, 'Failed to list transactions');
     }
   }
 
@@ -246,10 +267,15 @@ export class VivaWalletService {
         this.getBasicAuthConfig()
       );
 
+      // Declines can come back as 200 with Success: false
+      if (response.data.Success === false) {
+        console.error('Failed to create transaction:', response.data);
+        throw new VivaApiError('Failed to create transaction', response.status, response.data);
+      }
+
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to create transaction');
-      throw error;
+      throw this.handleError(error, 'Failed to create transaction');
     }
   }
 
@@ -279,10 +305,14 @@ export class VivaWalletService {
 
       const response = await axios.delete<CancelTransactionResponse>(url, this.getBasicAuthConfig());
 
+      if (response.data.Success === false) {
+        console.error('Failed to cancel transaction:', response.data);
+        throw new VivaApiError('Failed to cancel transaction', response.status, response.data);
+      }
+
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to cancel transaction');
-      throw error;
+      throw this.handleError(error, 'Failed to cancel transaction');
     }
   }
 
@@ -308,8 +338,7 @@ export class VivaWalletService {
 
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to create card token');
-      throw error;
+      throw this.handleError(error, 'Failed to create card token');
     }
   }
 
@@ -331,8 +360,7 @@ export class VivaWalletService {
 
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to retrieve wallets');
-      throw error;
+      throw this.handleError(error, 'Failed to retrieve wallets');
     }
   }
 
@@ -364,15 +392,15 @@ export class VivaWalletService {
 
       return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to process fast refund');
-      throw error;
+      throw this.handleError(error, 'Failed to process fast refund');
     }
   }
 
   /**
    * Error handler for API requests
+   * Logs the failure and converts it into a VivaApiError for the caller to throw
    */
-  private handleError(error: unknown, context: string): void {
+  private handleError(error: unknown, context: string): VivaApiError {
     if (axios.isAxiosError(error)) {
       const axiosError = error as AxiosError;
       console.error(`${context}:`, {
@@ -380,8 +408,9 @@ export class VivaWalletService {
         statusText: axiosError.response?.statusText,
         data: axiosError.response?.data,
       });
-    } else {
+    } else if (!(error instanceof VivaApiError)) {
       console.error(`${context}:`, error);
     }
+    return VivaApiError.fromError(error, context);
   }
 }
@@ -0,0 +1,104 @@
+import { createStore } from '../storage/store.factory.js';
+import { getEnvNumber } from '../config/env.config.js';
+import { WebhookEventTypeId } from '../types/viva.types.js';
+import type { VivaWebhookEvent } from '../types/viva.types.js';
+
+/**
+ * An inbound Viva event we have already accepted
+ */
+export interface InboundWebhookEvent {
+  merchantKey: string;
+  eventTypeId: number;
+  reference: string; // TransactionId, or the event's own ID for non-transaction events
+  orderCode?: number | undefined;
+  firstReceivedAt: string;
+  lastReceivedAt: string;
+  receivedCount: number; // 1 + number of duplicate deliveries
+}
+
+// Keyed by merchantKey:EventTypeId:reference
+const inboundEventStore = createStore<InboundWebhookEvent>('inbound-webhook-events');
+
+function getRetentionMs(): number {
+  return getEnvNumber('WEBHOOK_DEDUP_RETENTION_SECONDS', 3 * 24 * 60 * 60) * 1000;
+}
+
+/**
+ * The ID that identifies an event's subject: TransactionId for transaction
+ * events, the session/transfer/obligation ID or order state for the others
+ */
+function getReference(payload: VivaWebhookEvent): string | undefined {
+  switch (payload.EventTypeId) {
+    case WebhookEventTypeId.PosEcrSessionCreated:
+    case WebhookEventTypeId.PosEcrSessionFailed:
+      return payload.EventData?.SessionId;
+    case WebhookEventTypeId.TransferCreated:
+      return payload.EventData?.TransferId;
+    case WebhookEventTypeId.AccountTransactionCreated:
+      return payload.EventData?.AccountTransactionId;
+    case WebhookEventTypeId.ObligationCreated:
+    case WebhookEventTypeId.ObligationCaptured:
+      return payload.EventData?.ObligationId;
+    case WebhookEventTypeId.OrderUpdated:
+      return payload.EventData ? `${payload.EventData.OrderCode}:${payload.EventData.StateId}` : undefined;
+    default:
+      return payload.EventData?.TransactionId;
+  }
+}
+
+function getKey(merchantKey: string, payload: VivaWebhookEvent, reference: string): string {
+  return `${merchantKey}:${payload.EventTypeId}:${reference}`;
+}
+
+/**
+ * Inbound Webhook Deduplication
+ * Viva retries webhooks until it gets a 200, so the same event can arrive
+ * more than once. Only the first delivery is processed and forwarded.
+ */
+class WebhookDedupService {
+  /**
+   * Record an inbound event. Returns false if it was already seen
+   * within the retention window (the caller should acknowledge and stop).
+   */
+  recordIfNew(merchantKey: string, payload: VivaWebhookEvent): boolean {
+    const reference = getReference(payload);
+    // Events without a reference cannot be keyed; they are always processed
+    if (!reference) return true;
+
+    const key = getKey(merchantKey, payload, reference);
+    const now = new Date().toISOString();
+    const existing = inboundEventStore.get(key);
+
+    if (existing) {
+      inboundEventStore.set(key, {
+        ...existing,
+        lastReceivedAt: now,
+        receivedCount: existing.receivedCount + 1,
+      }, { ttlMs: getRetentionMs() });
+      return false;
+    }
+
+    inboundEventStore.set(key, {
+      merchantKey,
+      eventTypeId: payload.EventTypeId,
+      reference,
+      orderCode: 'OrderCode' in payload.EventData ? payload.EventData.OrderCode : undefined,
+      firstReceivedAt: now,
+      lastReceivedAt: now,
+      receivedCount: 1,
+    }, { ttlMs: getRetentionMs() });
+    return true;
+  }
+
+  /**
+   * Forget an event so a later retry is processed again (e.g. processing failed)
+   */
+  forget(merchantKey: string, payload: VivaWebhookEvent): void {
+    const reference = getReference(payload);
+    if (reference) {
+      inboundEventStore.delete(getKey(merchantKey, payload, reference));
+    }
+  }
+}
+
+export const webhookDedupService = new WebhookDedupService();
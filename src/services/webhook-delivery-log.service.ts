@@ -0,0 +1,59 @@
+import { createStore } from '../storage/store.factory.js';
+import { getEnvNumber } from '../config/env.config.js';
+import type { WebhookDelivery } from './webhook-delivery-queue.service.js';
+
+/**
+ * Filters for listing deliveries
+ */
+export interface DeliveryLogFilter {
+  merchantKey?: string | undefined;
+  orderCode?: string | undefined;
+  event?: string | undefined;
+  status?: WebhookDelivery['status'] | undefined;
+  limit?: number | undefined;
+}
+
+// Every outbound delivery with its full attempt history
+const deliveryLogStore = createStore<WebhookDelivery>('webhook-delivery-log');
+
+function getRetentionMs(): number {
+  return getEnvNumber('WEBHOOK_DELIVERY_LOG_RETENTION_SECONDS', 7 * 24 * 60 * 60) * 1000;
+}
+
+/**
+ * Webhook Delivery Log
+ * Keeps a record of what was sent, where, and how each attempt went
+ */
+class WebhookDeliveryLog {
+  /**
+   * Insert or update a delivery record
+   */
+  record(delivery: WebhookDelivery): void {
+    deliveryLogStore.set(delivery.id, delivery, { ttlMs: getRetentionMs() });
+  }
+
+  /**
+   * Get a single delivery by ID
+   */
+  get(deliveryId: string): WebhookDelivery | undefined {
+    return deliveryLogStore.get(deliveryId);
+  }
+
+  /**
+   * List deliveries matching a filter, newest first
+   */
+  list(filter: DeliveryLogFilter = {}): WebhookDelivery[] {
+    const deliveries = deliveryLogStore.values().filter((delivery) => {
+      if (filter.merchantKey && delivery.merchantKey !== filter.merchantKey) return false;
+      if (filter.orderCode && String(delivery.payload.data.orderCode) !== filter.orderCode) return false;
+      if (filter.event && delivery.payload.event !== filter.event) return false;
+      if (filter.status && delivery.status !== filter.status) return false;
+      return true;
+    });
+
+    deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return filter.limit ? deliveries.slice(0, filter.limit) : deliveries;
+  }
+}
+
+export const webhookDeliveryLog = new WebhookDeliveryLog();
@@ -0,0 +1,334 @@
+import axios from 'axios';
+import type { AxiosError } from 'axios';
+import crypto from 'crypto';
+import { createStore } from '../storage/store.factory.js';
+import { getEnvNumber } from '../config/env.config.js';
+import { webhookDeliveryLog } from './webhook-delivery-log.service.js';
+import type { WebhookForwardPayload } from './webhook-forwarder.service.js';
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  timestamp: string;
+  status?: number | undefined; // HTTP status, if a response was received
+  latencyMs: number;
+  success: boolean;
+  error?: string | undefined;
+}
+
+/**
+ * A single outbound webhook delivery (one payload to one URL)
+ */
+export interface WebhookDelivery {
+  id: string;
+  merchantKey?: string | undefined;
+  url: string;
+  payload: WebhookForwardPayload;
+  secret?: string | undefined;
+  status: 'pending' | 'delivered' | 'dead_lettered';
+  redeliveryOf?: string | undefined; // ID of the delivery this one re-sends
+  attempts: number; // Attempts made so far
+  attemptLog: WebhookDeliveryAttempt[];
+  createdAt: string;
+  nextAttemptAt: string;
+  lastAttemptAt?: string | undefined;
+  lastStatus?: number | undefined; // HTTP status of the last attempt, if a response was received
+  lastError?: string | undefined;
+  deadLetteredAt?: string | undefined;
+}
+
+/**
+ * Retry settings, read from env vars on each use
+ */
+interface RetryConfig {
+  windowMs: number; // Give up once a delivery is older than this
+  baseDelayMs: number; // Delay before the first retry
+  maxDelayMs: number; // Upper bound for a single backoff step
+  pollIntervalMs: number; // How often the queue looks for due deliveries
+  deadLetterRetentionMs: number; // How long exhausted deliveries are kept
+}
+
+function getRetryConfig(): RetryConfig {
+  return {
+    windowMs: getEnvNumber('WEBHOOK_RETRY_WINDOW_SECONDS', 24 * 60 * 60) * 1000,
+    baseDelayMs: getEnvNumber('WEBHOOK_RETRY_BASE_DELAY_SECONDS', 10) * 1000,
+    maxDelayMs: getEnvNumber('WEBHOOK_RETRY_MAX_DELAY_SECONDS', 60 * 60) * 1000,
+    pollIntervalMs: getEnvNumber('WEBHOOK_QUEUE_POLL_INTERVAL_SECONDS', 5) * 1000,
+    deadLetterRetentionMs: getEnvNumber('WEBHOOK_DEAD_LETTER_RETENTION_SECONDS', 30 * 24 * 60 * 60) * 1000,
+  };
+}
+
+// Deliveries waiting for a retry (persisted, so they survive restarts)
+const pendingStore = createStore<WebhookDelivery>('webhook-queue');
+// Deliveries that exhausted their retry window
+const deadLetterStore = createStore<WebhookDelivery>('webhook-dead-letters');
+
+/**
+ * Webhook Delivery Queue
+ * Sends signed webhook payloads and retries failed deliveries with
+ * exponential backoff and jitter until the retry window is exhausted.
+ */
+class WebhookDeliveryQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private inFlight = new Set<string>();
+
+  /**
+   * Generate HMAC signature for payload
+   */
+  private generateSignature(payload: string, secret: string): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(payload)
+      .digest('hex');
+  }
+
+  /**
+   * Deliver a payload now; on failure it is queued for retry.
+   * Returns the delivery record after the first attempt.
+   */
+  async deliver(
+    url: string,
+    payload: WebhookForwardPayload,
+    secret?: string,
+    merchantKey?: string,
+    redeliveryOf?: string
+  ): Promise<WebhookDelivery> {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      merchantKey,
+      url,
+      payload,
+      secret,
+      status: 'pending',
+      redeliveryOf,
+      attempts: 0,
+      attemptLog: [],
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+
+    await this.attempt(delivery);
+    return delivery;
+  }
+
+  /**
+   * Send a previously logged delivery again as a new delivery
+   */
+  async redeliver(original: WebhookDelivery): Promise<WebhookDelivery> {
+    return this.deliver(original.url, original.payload, original.secret, original.merchantKey, original.id);
+  }
+
+  /**
+   * Make one delivery attempt and schedule, complete or dead-letter the delivery
+   */
+  private async attempt(delivery: WebhookDelivery): Promise<boolean> {
+    this.inFlight.add(delivery.id);
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+    // Saved before sending, so a crash during the attempt does not lose the delivery
+    pendingStore.set(delivery.id, delivery);
+    const startedAt = Date.now();
+
+    try {
+      const payloadString = JSON.stringify(delivery.payload);
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.payload.event,
+        'X-Webhook-Timestamp': delivery.payload.timestamp,
+        'X-Webhook-Delivery-Id': delivery.id,
+        'X-Webhook-Attempt': String(delivery.attempts),
+      };
+
+      // Add signature if secret is provided
+      if (delivery.secret) {
+        const signature = this.generateSignature(payloadString, delivery.secret);
+        headers['X-Webhook-Signature'] = signature;
+        headers['X-Webhook-Signature-256'] = `sha256=${signature}`;
+      }
+
+      const response = await axios.post(delivery.url, payloadString, {
+        headers,
+        timeout: 10000, // 10 second timeout
+      });
+
+      console.log(`Webhook forwarded successfully to ${delivery.url}:`, {
+        status: response.status,
+        event: delivery.payload.event,
+        orderCode: delivery.payload.data.orderCode,
+        attempt: delivery.attempts,
+      });
+
+      delivery.status = 'delivered';
+      delivery.lastStatus = response.status;
+      delivery.lastError = undefined;
+      delivery.attemptLog.push({
+        attempt: delivery.attempts,
+        timestamp: delivery.lastAttemptAt,
+        status: response.status,
+        latencyMs: Date.now() - startedAt,
+        success: true,
+      });
+      pendingStore.delete(delivery.id);
+      webhookDeliveryLog.record(delivery);
+      return true;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      delivery.lastStatus = axiosError.response?.status;
+      delivery.lastError = axiosError.message;
+
+      console.error(`Failed to forward webhook to ${delivery.url}:`, {
+        event: delivery.payload.event,
+        orderCode: delivery.payload.data.orderCode,
+        attempt: delivery.attempts,
+        error: axiosError.message,
+        status: delivery.lastStatus,
+      });
+
+      delivery.attemptLog.push({
+        attempt: delivery.attempts,
+        timestamp: delivery.lastAttemptAt,
+        status: delivery.lastStatus,
+        latencyMs: Date.now() - startedAt,
+        success: false,
+        error: delivery.lastError,
+      });
+      this.scheduleRetry(delivery);
+      webhookDeliveryLog.record(delivery);
+      return false;
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  /**
+   * Queue the next attempt, or dead-letter the delivery if it can't be retried
+   */
+  private scheduleRetry(delivery: WebhookDelivery): void {
+    const config = getRetryConfig();
+    const nextAttemptAt = Date.now() + this.getBackoffDelay(delivery.attempts, config);
+    const deadline = new Date(delivery.createdAt).getTime() + config.windowMs;
+
+    if (!this.isRetryable(delivery.lastStatus) || nextAttemptAt > deadline) {
+      this.deadLetter(delivery, config);
+      return;
+    }
+
+    delivery.nextAttemptAt = new Date(nextAttemptAt).toISOString();
+    pendingStore.set(delivery.id, delivery);
+  }
+
+  /**
+   * Exponential backoff with jitter: a random delay between half and all of
+   * base * 2^(attempts - 1), capped at the max delay
+   */
+  private getBackoffDelay(attempts: number, config: RetryConfig): number {
+    const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempts - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Network errors, timeouts, 408, 429 and 5xx are worth retrying; other 4xx are not
+   */
+  private isRetryable(status: number | undefined): boolean {
+    if (status === undefined) return true;
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  private deadLetter(delivery: WebhookDelivery, config: RetryConfig): void {
+    delivery.status = 'dead_lettered';
+    delivery.deadLetteredAt = new Date().toISOString();
+    pendingStore.delete(delivery.id);
+    deadLetterStore.set(delivery.id, delivery, { ttlMs: config.deadLetterRetentionMs });
+
+    console.error(`Webhook delivery ${delivery.id} moved to dead-letter list:`, {
+      url: delivery.url,
+      event: delivery.payload.event,
+      orderCode: delivery.payload.data.orderCode,
+      attempts: delivery.attempts,
+      lastError: delivery.lastError,
+    });
+  }
+
+  /**
+   * Attempt every delivery whose retry time has come
+   */
+  async processDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const now = Date.now();
+      const due = pendingStore
+        .values()
+        .filter((delivery) => new Date(delivery.nextAttemptAt).getTime() <= now)
+        .map((delivery) => delivery.id);
+
+      for (const id of due) {
+        // Re-read: an earlier attempt in this run may have taken long, and the delivery
+        // may have been delivered, dead-lettered or rescheduled meanwhile
+        const delivery = pendingStore.get(id);
+        if (
+          !delivery ||
+          delivery.status !== 'pending' ||
+          this.inFlight.has(id) ||
+          new Date(delivery.nextAttemptAt).getTime() > Date.now()
+        ) {
+          continue;
+        }
+        await this.attempt(delivery);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * List deliveries waiting for a retry
+   */
+  getPending(): WebhookDelivery[] {
+    return pendingStore.values();
+  }
+
+  /**
+   * List deliveries that exhausted their retries
+   */
+  getDeadLetters(): WebhookDelivery[] {
+    return deadLetterStore.values();
+  }
+
+  /**
+   * Start polling for due retries (picks up deliveries persisted before a restart)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const pending = pendingStore.values().length;
+    if (pending > 0) {
+      console.log(`Resuming ${pending} pending webhook deliver${pending === 1 ? 'y' : 'ies'}`);
+    }
+
+    this.timer = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error('Error processing webhook delivery queue:', error);
+      });
+    }, getRetryConfig().pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling (used on shutdown and in tests)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const webhookDeliveryQueue = new WebhookDeliveryQueue();
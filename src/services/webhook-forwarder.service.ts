@@ -1,6 +1,6 @@
-import axios from 'axios';
-import type { AxiosError } from 'axios';
-import crypto from 'crypto';
+import { createStore } from '../storage/store.factory.js';
+import { getEnvNumber } from '../config/env.config.js';
+import { webhookDeliveryQueue } from './webhook-delivery-queue.service.js';
 
 /**
  * Webhook event types that can be forwarded
@@ -10,35 +10,184 @@ export enum WebhookEventType {
   PAYMENT_FAILED = 'payment.failed',
   PAYMENT_REFUNDED = 'payment.refunded',
   PAYMENT_PENDING = 'payment.pending',
+  PAYMENT_FEES_CALCULATED = 'payment.fees_calculated',
   ORDER_CREATED = 'order.created',
+  ORDER_UPDATED = 'order.updated',
   ORDER_CANCELLED = 'order.cancelled',
+  POS_SESSION_CREATED = 'pos.session_created',
+  POS_SESSION_FAILED = 'pos.session_failed',
+  TRANSFER_CREATED = 'transfer.created',
+  ACCOUNT_TRANSACTION_CREATED = 'account.transaction_created',
+  OBLIGATION_CREATED = 'obligation.created',
+  OBLIGATION_CAPTURED = 'obligation.captured',
+  SUBSCRIPTION_CREATED = 'subscription.created',
+  SUBSCRIPTION_ACTIVATED = 'subscription.activated',
+  SUBSCRIPTION_RENEWED = 'subscription.renewed',
+  SUBSCRIPTION_PAYMENT_FAILED = 'subscription.payment_failed',
+  SUBSCRIPTION_PAUSED = 'subscription.paused',
+  SUBSCRIPTION_RESUMED = 'subscription.resumed',
+  SUBSCRIPTION_CANCELLED = 'subscription.cancelled',
+  PREAUTH_CAPTURED = 'preauth.captured',
+  PREAUTH_VOIDED = 'preauth.voided',
+  PREAUTH_EXPIRING = 'preauth.expiring',
 }
 
+/**
+ * Fields present on every forwarded event
+ */
+interface BaseEventData {
+  orderCode?: number | string | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+/**
+ * payment.* and order.created
+ */
+export interface PaymentEventData extends BaseEventData {
+  transactionId?: string | undefined;
+  amount?: number | undefined;
+  currency?: string | undefined;
+  status?: string | undefined;
+  customer?: {
+    email?: string | undefined;
+    fullName?: string | undefined;
+    phone?: string | undefined;
+  } | undefined;
+  card?: {
+    lastFour?: string | undefined;
+    brand?: string | undefined;
+    expiryDate?: string | undefined;
+  } | undefined;
+  merchantReference?: string | undefined;
+}
+
+/**
+ * payment.fees_calculated
+ */
+export interface PaymentFeesEventData extends BaseEventData {
+  transactionId: string;
+  currency?: string | undefined;
+  interchange?: number | undefined;
+  isvFee?: number | undefined;
+  totalCommission?: number | undefined;
+}
+
+/**
+ * order.updated and order.cancelled
+ */
+export interface OrderEventData extends BaseEventData {
+  state: 'pending' | 'expired' | 'cancelled' | 'paid';
+  stateId: number;
+  amount?: number | undefined;
+  currency?: string | undefined;
+  merchantReference?: string | undefined;
+  expirationDate?: string | undefined;
+}
+
+/**
+ * pos.session_created and pos.session_failed
+ */
+export interface PosSessionEventData extends BaseEventData {
+  sessionId: string;
+  terminalId?: string | undefined;
+  cashRegisterId?: string | undefined;
+  transactionId?: string | undefined;
+  amount?: number | undefined;
+  currency?: string | undefined;
+  merchantReference?: string | undefined;
+  message?: string | undefined;
+}
+
+/**
+ * transfer.created
+ */
+export interface TransferEventData extends BaseEventData {
+  transferId: string;
+  amount?: number | undefined;
+  currency?: string | undefined;
+  sourceWalletId?: number | undefined;
+  targetWalletId?: number | undefined;
+  description?: string | undefined;
+}
+
+/**
+ * account.transaction_created
+ */
+export interface AccountTransactionEventData extends BaseEventData {
+  accountTransactionId: string;
+  walletId?: number | undefined;
+  transactionId?: string | undefined;
+  amount?: number | undefined;
+  currency?: string | undefined;
+  description?: string | undefined;
+}
+
+/**
+ * obligation.created and obligation.captured
+ */
+export interface ObligationEventData extends BaseEventData {
+  obligationId: string;
+  transactionId?: string | undefined;
+  amount?: number | undefined;
+  currency?: string | undefined;
+  customer?: {
+    email?: string | undefined;
+    fullName?: string | undefined;
+  } | undefined;
+  merchantReference?: string | undefined;
+  expirationDate?: string | undefined;
+}
+
+/**
+ * subscription.*
+ */
+export interface SubscriptionEventData extends BaseEventData {
+  subscriptionId: string;
+  planId: string;
+  status: string;
+  transactionId?: string | undefined; // Charge that triggered the event
+  amount?: number | undefined; // Cents
+  currency?: string | undefined;
+  currentPeriodEnd?: string | undefined;
+  nextBillingAt?: string | undefined;
+  failedAttempts?: number | undefined;
+  error?: string | undefined;
+}
+
+/**
+ * preauth.captured, preauth.voided and preauth.expiring (amounts in cents)
+ */
+export interface PreauthEventData extends BaseEventData {
+  transactionId: string; // Pre-authorization
+  status: string;
+  amount: number; // Authorized
+  capturedAmount: number;
+  remainingAmount: number;
+  currency?: string | undefined;
+  captureTransactionId?: string | undefined; // preauth.captured
+  captureAmount?: number | undefined; // preauth.captured
+  reason?: string | undefined; // preauth.voided: requested | expired | external
+  expiresAt: string;
+}
+
+export type WebhookForwardData =
+  | PaymentEventData
+  | PaymentFeesEventData
+  | OrderEventData
+  | PosSessionEventData
+  | TransferEventData
+  | AccountTransactionEventData
+  | ObligationEventData
+  | SubscriptionEventData
+  | PreauthEventData;
+
 /**
  * Standardized webhook payload sent to callback URLs
  */
 export interface WebhookForwardPayload {
   event: WebhookEventType;
   timestamp: string;
-  data: {
-    transactionId?: string | undefined;
-    orderCode?: number | string | undefined;
-    amount?: number | undefined;
-    currency?: string | undefined;
-    status?: string | undefined;
-    customer?: {
-      email?: string | undefined;
-      fullName?: string | undefined;
-      phone?: string | undefined;
-    } | undefined;
-    card?: {
-      lastFour?: string | undefined;
-      brand?: string | undefined;
-      expiryDate?: string | undefined;
-    } | undefined;
-    merchantReference?: string | undefined;
-    metadata?: Record<string, unknown> | undefined;
-  };
+  data: WebhookForwardData;
   raw?: unknown | undefined; // Original Viva payload (optional)
 }
 
@@ -57,9 +206,28 @@ export interface CallbackConfig {
   merchantKey?: string | undefined; // Merchant key for webhook routing
 }
 
-// In-memory store for callback configurations (per orderCode)
-// In production, use Redis or a database
-const callbackStore = new Map<string, CallbackConfig>();
+// Callback configurations (per orderCode), backed by the configured storage driver
+// so registrations survive restarts when STORAGE_DRIVER=file
+const callbackStore = createStore<CallbackConfig>('callbacks');
+
+/**
+ * Browser redirect settings of an order. Kept apart from the callback
+ * registration, which is dropped once the payment webhook is forwarded:
+ * the customer's browser usually returns after that.
+ */
+export interface RedirectConfig {
+  redirectSuccessUrl?: string | undefined;
+  redirectFailureUrl?: string | undefined;
+  secret?: string | undefined; // Signs the redirect query string
+  merchantKey?: string | undefined;
+}
+
+const redirectStore = createStore<RedirectConfig>('callback-redirects');
+
+// How long a callback registration is kept if the order never completes
+function getCallbackTtlSeconds(): number {
+  return getEnvNumber('CALLBACK_TTL_SECONDS', 24 * 60 * 60);
+}
 
 // Default callback URL from environment
 const DEFAULT_CALLBACK_URL = process.env.WEBHOOK_CALLBACK_URL || '';
@@ -72,9 +240,19 @@ const DEFAULT_CALLBACK_SECRET = process.env.WEBHOOK_CALLBACK_SECRET || '';
 class WebhookForwarderService {
   /**
    * Register callback URLs for an order
+   * Entries expire after CALLBACK_TTL_SECONDS, or the order's paymentTimeout if longer
    */
-  registerCallback(orderCode: string | number, config: CallbackConfig): void {
-    callbackStore.set(String(orderCode), config);
+  registerCallback(orderCode: string | number, config: CallbackConfig, paymentTimeout?: number): void {
+    const ttlSeconds = Math.max(getCallbackTtlSeconds(), paymentTimeout ?? 0);
+    callbackStore.set(String(orderCode), config, { ttlMs: ttlSeconds * 1000 });
+    if (config.redirectSuccessUrl || config.redirectFailureUrl) {
+      const { redirectSuccessUrl, redirectFailureUrl, secret, merchantKey } = config;
+      redirectStore.set(
+        String(orderCode),
+        { redirectSuccessUrl, redirectFailureUrl, secret, merchantKey },
+        { ttlMs: ttlSeconds * 1000 }
+      );
+    }
     console.log(`Registered callback for order ${orderCode}:`, {
       successUrl: config.successUrl ? '✓' : '✗',
       failureUrl: config.failureUrl ? '✓' : '✗',
@@ -90,68 +268,31 @@ class WebhookForwarderService {
   }
 
   /**
-   * Remove callback configuration after use
+   * Get the browser redirect settings of an order (still available after the callback is used)
    */
-  removeCallback(orderCode: string | number): void {
-    callbackStore.delete(String(orderCode));
+  getRedirectConfig(orderCode: string | number): RedirectConfig | undefined {
+    return redirectStore.get(String(orderCode));
   }
 
   /**
-   * Generate HMAC signature for payload
+   * Remove callback configuration after use
    */
-  private generateSignature(payload: string, secret: string): string {
-    return crypto
-      .createHmac('sha256', secret)
-      .update(payload)
-      .digest('hex');
+  removeCallback(orderCode: string | number): void {
+    callbackStore.delete(String(orderCode));
   }
 
   /**
    * Forward webhook to a URL
+   * Failed deliveries are retried in the background by the delivery queue
    */
   private async forwardToUrl(
     url: string,
     payload: WebhookForwardPayload,
-    secret?: string
+    secret?: string,
+    merchantKey?: string
   ): Promise<boolean> {
-    try {
-      const payloadString = JSON.stringify(payload);
-      
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'X-Webhook-Event': payload.event,
-        'X-Webhook-Timestamp': payload.timestamp,
-      };
-
-      // Add signature if secret is provided
-      if (secret) {
-        const signature = this.generateSignature(payloadString, secret);
-        headers['X-Webhook-Signature'] = signature;
-        headers['X-Webhook-Signature-256'] = `sha256=${signature}`;
-      }
-
-      const response = await axios.post(url, payload, {
-        headers,
-        timeout: 10000, // 10 second timeout
-      });
-
-      console.log(`Webhook forwarded successfully to ${url}:`, {
-        status: response.status,
-        event: payload.event,
-        orderCode: payload.data.orderCode,
-      });
-
-      return true;
-    } catch (error) {
-      const axiosError = error as AxiosError;
-      // console.error(`Failed to forward webhook to ${url}:`, {
-      //   event: payload.event,
-      //   orderCode: payload.data.orderCode,
-      //   error: axiosError.message,
-      //   status: axiosError.response?.status,
-      // });
-      return false;
-    }
+    const delivery = await webhookDeliveryQueue.deliver(url, payload, secret, merchantKey);
+    return delivery.status === 'delivered';
   }
 
   /**
@@ -159,10 +300,12 @@ class WebhookForwarderService {
    */
   async forwardPaymentSuccess(
     orderCode: string | number,
-    data: WebhookForwardPayload['data'],
-    rawPayload?: unknown
+    data: PaymentEventData,
+    rawPayload?: unknown,
+    merchantKey?: string
   ): Promise<void> {
     const config = this.getCallback(orderCode);
+    const deliveryMerchantKey = config?.merchantKey ?? merchantKey;
     const payload: WebhookForwardPayload = {
       event: WebhookEventType.PAYMENT_SUCCESS,
       timestamp: new Date().toISOString(),
@@ -176,17 +319,17 @@ class WebhookForwarderService {
 
     // Forward to registered success URL
     if (config?.successUrl) {
-      await this.forwardToUrl(config.successUrl, payload, config.secret);
+      await this.forwardToUrl(config.successUrl, payload, config.secret, deliveryMerchantKey);
     }
 
     // Forward to registered webhook URL
     if (config?.webhookUrl) {
-      await this.forwardToUrl(config.webhookUrl, payload, config.secret);
+      await this.forwardToUrl(config.webhookUrl, payload, config.secret, deliveryMerchantKey);
     }
 
     // Always forward to default callback URL (ensures delivery even if in-memory store was lost)
     if (DEFAULT_CALLBACK_URL) {
-      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET);
+      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET, deliveryMerchantKey);
     }
 
     // Clean up callback after successful payment
@@ -198,10 +341,12 @@ class WebhookForwarderService {
    */
   async forwardPaymentFailed(
     orderCode: string | number,
-    data: WebhookForwardPayload['data'],
-    rawPayload?: unknown
+    data: PaymentEventData,
+    rawPayload?: unknown,
+    merchantKey?: string
   ): Promise<void> {
     const config = this.getCallback(orderCode);
+    const deliveryMerchantKey = config?.merchantKey ?? merchantKey;
     const payload: WebhookForwardPayload = {
       event: WebhookEventType.PAYMENT_FAILED,
       timestamp: new Date().toISOString(),
@@ -215,17 +360,17 @@ class WebhookForwarderService {
 
     // Forward to registered failure URL
     if (config?.failureUrl) {
-      await this.forwardToUrl(config.failureUrl, payload, config.secret);
+      await this.forwardToUrl(config.failureUrl, payload, config.secret, deliveryMerchantKey);
     }
 
     // Forward to registered webhook URL
     if (config?.webhookUrl) {
-      await this.forwardToUrl(config.webhookUrl, payload, config.secret);
+      await this.forwardToUrl(config.webhookUrl, payload, config.secret, deliveryMerchantKey);
     }
 
     // Always forward to default callback URL (ensures delivery even if in-memory store was lost)
     if (DEFAULT_CALLBACK_URL) {
-      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET);
+      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET, deliveryMerchantKey);
     }
 
     // Keep callback for retry attempts (don't remove on failure)
@@ -236,10 +381,12 @@ class WebhookForwarderService {
    */
   async forwardPaymentRefunded(
     orderCode: string | number,
-    data: WebhookForwardPayload['data'],
-    rawPayload?: unknown
+    data: PaymentEventData,
+    rawPayload?: unknown,
+    merchantKey?: string
   ): Promise<void> {
     const config = this.getCallback(orderCode);
+    const deliveryMerchantKey = config?.merchantKey ?? merchantKey;
     const payload: WebhookForwardPayload = {
       event: WebhookEventType.PAYMENT_REFUNDED,
       timestamp: new Date().toISOString(),
@@ -253,12 +400,105 @@ class WebhookForwarderService {
 
     // Forward to registered webhook URL
     if (config?.webhookUrl) {
-      await this.forwardToUrl(config.webhookUrl, payload, config.secret);
+      await this.forwardToUrl(config.webhookUrl, payload, config.secret, deliveryMerchantKey);
+    }
+
+    // Forward to default callback URL
+    if (DEFAULT_CALLBACK_URL) {
+      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET, deliveryMerchantKey);
+    }
+  }
+
+  /**
+   * Forward any other Viva event
+   * Goes to the order's webhook URL when the event belongs to an order with a
+   * registered callback, and to the default callback URL
+   */
+  async forwardEvent(
+    event: WebhookEventType,
+    data: WebhookForwardData,
+    rawPayload?: unknown,
+    merchantKey?: string
+  ): Promise<void> {
+    const config = data.orderCode !== undefined ? this.getCallback(data.orderCode) : undefined;
+    const deliveryMerchantKey = config?.merchantKey ?? merchantKey;
+    const payload: WebhookForwardPayload = {
+      event,
+      timestamp: new Date().toISOString(),
+      data: {
+        ...data,
+        metadata: config?.metadata,
+      },
+      raw: config?.includeRawPayload ? rawPayload : undefined,
+    };
+
+    // Forward to registered webhook URL
+    if (config?.webhookUrl) {
+      await this.forwardToUrl(config.webhookUrl, payload, config.secret, deliveryMerchantKey);
     }
 
     // Forward to default callback URL
     if (DEFAULT_CALLBACK_URL) {
-      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET);
+      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET, deliveryMerchantKey);
+    }
+  }
+
+  /**
+   * Forward a subscription lifecycle event to the subscription's webhook URL
+   */
+  async forwardSubscriptionEvent(
+    event: WebhookEventType,
+    data: SubscriptionEventData,
+    config?: CallbackConfig
+  ): Promise<void> {
+    const deliveryMerchantKey = config?.merchantKey;
+    const payload: WebhookForwardPayload = {
+      event,
+      timestamp: new Date().toISOString(),
+      data: {
+        ...data,
+        metadata: config?.metadata,
+      },
+    };
+
+    // Forward to registered webhook URL
+    if (config?.webhookUrl) {
+      await this.forwardToUrl(config.webhookUrl, payload, config.secret, deliveryMerchantKey);
+    }
+
+    // Forward to default callback URL if configured
+    if (DEFAULT_CALLBACK_URL) {
+      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET, deliveryMerchantKey);
+    }
+  }
+
+  /**
+   * Forward a pre-authorization event to the webhook URL the order was created with
+   */
+  async forwardPreauthEvent(
+    event: WebhookEventType,
+    data: PreauthEventData,
+    config?: CallbackConfig,
+    merchantKey?: string
+  ): Promise<void> {
+    const deliveryMerchantKey = config?.merchantKey ?? merchantKey;
+    const payload: WebhookForwardPayload = {
+      event,
+      timestamp: new Date().toISOString(),
+      data: {
+        ...data,
+        metadata: config?.metadata,
+      },
+    };
+
+    // Forward to registered webhook URL
+    if (config?.webhookUrl) {
+      await this.forwardToUrl(config.webhookUrl, payload, config.secret, deliveryMerchantKey);
+    }
+
+    // Forward to default callback URL if configured
+    if (DEFAULT_CALLBACK_URL) {
+      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET, deliveryMerchantKey);
     }
   }
 
@@ -267,9 +507,10 @@ class WebhookForwarderService {
    */
   async forwardOrderCreated(
     orderCode: string | number,
-    data: WebhookForwardPayload['data'],
+    data: PaymentEventData,
     config?: CallbackConfig
   ): Promise<void> {
+    const deliveryMerchantKey = config?.merchantKey;
     const payload: WebhookForwardPayload = {
       event: WebhookEventType.ORDER_CREATED,
       timestamp: new Date().toISOString(),
@@ -282,12 +523,12 @@ class WebhookForwarderService {
 
     // Forward to registered webhook URL
     if (config?.webhookUrl) {
-      await this.forwardToUrl(config.webhookUrl, payload, config.secret);
+      await this.forwardToUrl(config.webhookUrl, payload, config.secret, deliveryMerchantKey);
     }
 
     // Forward to default callback URL if configured
     if (DEFAULT_CALLBACK_URL) {
-      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET);
+      await this.forwardToUrl(DEFAULT_CALLBACK_URL, payload, DEFAULT_CALLBACK_SECRET, deliveryMerchantKey);
     }
   }
 }
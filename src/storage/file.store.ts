@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import { MemoryStore } from './memory.store.js';
+import type { StoreOptions, StoredEntry } from '../types/store.types.js';
+
+/**
+ * File-backed key-value store.
+ * Keeps a full copy in memory for reads and rewrites a single JSON file
+ * atomically (write to temp file, then rename) after every mutation.
+ */
+export class FileStore<T> extends MemoryStore<T> {
+  private filePath: string;
+
+  constructor(dataDir: string, namespace: string, options: StoreOptions = {}) {
+    super(options);
+    this.filePath = path.resolve(dataDir, `${namespace}.json`);
+    this.load();
+    this.purgeExpired();
+  }
+
+  /**
+   * Load entries from disk, starting empty if the file is missing or unreadable
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const content = fs.readFileSync(this.filePath, 'utf8');
+      const data = JSON.parse(content) as Record<string, StoredEntry<T>>;
+      for (const [key, entry] of Object.entries(data)) {
+        this.entriesByKey.set(key, entry);
+      }
+    } catch (error) {
+      console.error(`Failed to load store file ${this.filePath}:`, error);
+    }
+  }
+
+  protected override persist(): void {
+    const data = Object.fromEntries(this.entriesByKey);
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(data));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to persist store file ${this.filePath}:`, error);
+    }
+  }
+}
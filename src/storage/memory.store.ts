@@ -0,0 +1,91 @@
+import type { KeyValueStore, StoreOptions, StoreSetOptions, StoredEntry } from '../types/store.types.js';
+
+/**
+ * In-memory key-value store with per-entry TTL.
+ * State is lost on restart — suitable for development and tests.
+ */
+export class MemoryStore<T> implements KeyValueStore<T> {
+  protected entriesByKey = new Map<string, StoredEntry<T>>();
+  protected defaultTtlMs: number | undefined;
+
+  constructor(options: StoreOptions = {}) {
+    this.defaultTtlMs = options.defaultTtlMs;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entriesByKey.get(key);
+    if (!entry) return undefined;
+
+    if (this.isExpired(entry)) {
+      this.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  set(key: string, value: T, options: StoreSetOptions = {}): void {
+    const ttlMs = options.ttlMs ?? this.defaultTtlMs;
+    this.entriesByKey.set(key, {
+      value,
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : null,
+    });
+    this.persist();
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.entriesByKey.delete(key);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  values(): T[] {
+    return this.entries().map(([, value]) => value);
+  }
+
+  entries(): Array<[string, T]> {
+    const now = Date.now();
+    const result: Array<[string, T]> = [];
+    for (const [key, entry] of this.entriesByKey) {
+      if (!this.isExpired(entry, now)) {
+        result.push([key, entry.value]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Remove all expired entries, returning how many were dropped
+   */
+  purgeExpired(): number {
+    const now = Date.now();
+    let purged = 0;
+    for (const [key, entry] of this.entriesByKey) {
+      if (this.isExpired(entry, now)) {
+        this.entriesByKey.delete(key);
+        purged++;
+      }
+    }
+    if (purged > 0) {
+      this.persist();
+    }
+    return purged;
+  }
+
+  /**
+   * Hook for durable subclasses, called after every mutation
+   */
+  protected persist(): void {
+    // Nothing to do for the in-memory store
+  }
+
+  private isExpired(entry: StoredEntry<T>, now = Date.now()): boolean {
+    return entry.expiresAt !== null && entry.expiresAt <= now;
+  }
+}
@@ -0,0 +1,97 @@
+import { getStorageConfig } from '../config/storage.config.js';
+import { MemoryStore } from './memory.store.js';
+import { FileStore } from './file.store.js';
+import type { KeyValueStore, StoreOptions, StoreSetOptions } from '../types/store.types.js';
+
+// All stores created so far, swept together for expired entries
+const stores: KeyValueStore<unknown>[] = [];
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Store that picks its backend on first use.
+ * Modules create their stores at import time, which runs before dotenv.config(),
+ * so the driver must not be resolved until the store is actually touched.
+ */
+class LazyStore<T> implements KeyValueStore<T> {
+  private backend: KeyValueStore<T> | null = null;
+  private namespace: string;
+  private options: StoreOptions;
+
+  constructor(namespace: string, options: StoreOptions) {
+    this.namespace = namespace;
+    this.options = options;
+  }
+
+  private getBackend(): KeyValueStore<T> {
+    if (!this.backend) {
+      const config = getStorageConfig();
+      this.backend = config.driver === 'file'
+        ? new FileStore<T>(config.dataDir, this.namespace, this.options)
+        : new MemoryStore<T>(this.options);
+    }
+    return this.backend;
+  }
+
+  get(key: string): T | undefined {
+    return this.getBackend().get(key);
+  }
+
+  set(key: string, value: T, options?: StoreSetOptions): void {
+    this.getBackend().set(key, value, options);
+  }
+
+  delete(key: string): boolean {
+    return this.getBackend().delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.getBackend().has(key);
+  }
+
+  values(): T[] {
+    return this.getBackend().values();
+  }
+
+  entries(): Array<[string, T]> {
+    return this.getBackend().entries();
+  }
+
+  purgeExpired(): number {
+    // Don't force a backend into existence just to sweep it
+    return this.backend ? this.backend.purgeExpired() : 0;
+  }
+}
+
+/**
+ * Create a named key-value store using the configured storage driver.
+ * The namespace becomes the file name for the file driver.
+ */
+export function createStore<T>(namespace: string, options: StoreOptions = {}): KeyValueStore<T> {
+  const store = new LazyStore<T>(namespace, options);
+  stores.push(store);
+  return store;
+}
+
+/**
+ * Start the periodic sweep of expired entries across all stores
+ */
+export function startStoreSweeper(): void {
+  if (sweepTimer) return;
+
+  sweepTimer = setInterval(() => {
+    for (const store of stores) {
+      store.purgeExpired();
+    }
+  }, getStorageConfig().sweepIntervalMs);
+  sweepTimer.unref();
+}
+
+/**
+ * Stop the periodic sweep (used on shutdown and in tests)
+ */
+export function stopStoreSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
@@ -0,0 +1,51 @@
+// API Key Types
+
+// What an X-Api-Key may do. Routers outside /api/payments and /api/wallets
+// use `<area>:read` for GET requests and `<area>:write` for the rest.
+export const API_KEY_SCOPES = [
+  'orders:read',
+  'orders:write',
+  'refunds:write',
+  'cards:read',
+  'cards:write',
+  'wallets:read',
+  'subscriptions:read',
+  'subscriptions:write',
+  'payment_links:read',
+  'payment_links:write',
+  'webhook_deliveries:read',
+  'webhook_deliveries:write',
+  'reconciliation:read',
+  'reconciliation:write',
+  'reports:read',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Part of the API a scope covers, e.g. 'orders'
+export type ApiKeyArea = ApiKeyScope extends `${infer Area}:${string}` ? Area : never;
+
+// Scopes granted to a key; '*' grants all of them
+export type ApiKeyGrant = ApiKeyScope | '*';
+
+// A key from env vars or MERCHANTS_FILE
+export interface ConfiguredApiKey {
+  id: string; // `config_<label>`
+  label: string;
+  keyHash: string; // SHA-256 hex of the key; the key itself is never kept
+  scopes: ApiKeyGrant[];
+}
+
+// A valid key in the registry, as seen by authentication
+export interface RegisteredApiKey {
+  merchantKey: string;
+  id: string;
+  label?: string | undefined;
+  scopes: ApiKeyGrant[];
+  expiresAt?: string | undefined;
+}
+
+// When a key was last used, per `${merchantKey}:${keyId}`
+export interface ApiKeyUsage {
+  lastUsedAt: string;
+}
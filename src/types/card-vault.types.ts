@@ -0,0 +1,19 @@
+// Card Token Vault Types
+
+// Card saved for a customer through POST /api/payments/card-tokens
+export interface SavedCard {
+  merchantKey: string;
+  customerRef: string; // Merchant's own customer ID
+  cardId: string;
+  token: string; // Viva card token, passed as cardTokens when creating orders
+  sourceTransactionId: string; // Transaction the token was created from
+  lastFour?: string | undefined;
+  brand?: string | undefined; // e.g. "visa", or the Viva CardTypeId when unknown
+  expiryMonth?: number | undefined;
+  expiryYear?: number | undefined;
+  cardUniqueReference?: string | undefined; // Same for every token of the same physical card
+  recurringSupport: boolean; // Source transaction can be charged again without the customer
+  createdAt: string;
+  updatedAt: string;
+  lastChargedAt?: string | undefined;
+}
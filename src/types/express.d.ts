@@ -1,5 +1,7 @@
 import type { VivaWalletService } from '../services/viva-wallet.service.js';
 import type { MerchantConfig } from '../config/merchant.config.js';
+import type { RegisteredApiKey } from './api-key.types.js';
+import type { PaymentLink } from './payment-link.types.js';
 
 declare global {
   namespace Express {
@@ -7,6 +9,9 @@ declare global {
       merchantKey?: string | undefined;
       merchantConfig?: MerchantConfig | undefined;
       vivaService?: VivaWalletService | undefined;
+      apiKey?: RegisteredApiKey | undefined; // The X-Api-Key used (ID, label and scopes; never the key)
+      rawBody?: Buffer | undefined; // Exact request bytes (webhook routes only)
+      paymentLink?: PaymentLink | undefined; // Link being opened (/pay/:slug only)
     }
   }
 }
@@ -0,0 +1,93 @@
+// Local Order & Transaction Ledger Types
+
+import type { VivaCustomer } from './viva.types.js';
+
+// Order lifecycle as seen by the middleware
+export type LedgerOrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'failed'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'expired'
+  | 'cancelled';
+
+// Order created through POST /api/payments/orders
+export interface LedgerOrder {
+  merchantKey: string;
+  orderCode: string; // Stored as string: Viva order codes can exceed Number.MAX_SAFE_INTEGER
+  amount: number;
+  currencyCode?: string | undefined;
+  merchantTrns?: string | undefined;
+  customerTrns?: string | undefined;
+  tags: string[];
+  customer?: VivaCustomer | undefined;
+  preauth: boolean;
+  allowRecurring: boolean;
+  status: LedgerOrderStatus;
+  paidAmount: number; // Sum of successful payments; a pre-auth counts for what is still held
+  refundedAmount: number; // Sum of reversals, except voids of a pre-auth
+  transactionIds: string[];
+  retainUntil?: string | undefined; // Forgotten after this unless a transaction is recorded (payment link orders)
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Kind of transaction reported by a Viva webhook
+export type LedgerTransactionKind = 'payment' | 'reversal';
+
+// Transaction reported by a Viva webhook (1796 / 1797 / 1798)
+export interface LedgerTransaction {
+  merchantKey: string;
+  transactionId: string;
+  orderCode: string;
+  kind: LedgerTransactionKind;
+  status: 'succeeded' | 'failed';
+  eventTypeId: number;
+  statusId?: string | undefined; // Viva transaction status (F, E, ...)
+  transactionTypeId?: number | undefined; // Viva TransactionTypeId (pre-auth, capture, ...)
+  parentId?: string | undefined; // Original transaction of a reversal/capture
+  amount?: number | undefined; // Cents (converted from Viva's major-unit webhook amount)
+  currencyCode?: string | undefined;
+  merchantTrns?: string | undefined;
+  tags: string[];
+  customer?: {
+    email?: string | undefined;
+    fullName?: string | undefined;
+  } | undefined;
+  card?: {
+    lastFour?: string | undefined;
+    cardTypeId?: number | undefined;
+  } | undefined;
+  createdAt: string; // Viva's InsDate when present, otherwise receipt time
+  recordedAt: string;
+}
+
+// Fees Viva calculated for a transaction (1799), in cents
+export interface LedgerTransactionFees {
+  merchantKey: string;
+  transactionId: string;
+  orderCode?: string | undefined;
+  currencyCode?: string | undefined;
+  interchange?: number | undefined;
+  isvFee?: number | undefined;
+  totalCommission?: number | undefined;
+  recordedAt: string;
+}
+
+// Common list filters
+export interface LedgerListFilter {
+  status?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  tag?: string | undefined;
+  merchantTrns?: string | undefined;
+  cursor?: string | undefined;
+  limit?: number | undefined;
+}
+
+// One page of results
+export interface LedgerPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
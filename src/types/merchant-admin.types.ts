@@ -0,0 +1,73 @@
+// Merchant Administration Types
+
+import type { VivaEnvironment } from '../config/merchant.config.js';
+import type { ApiKeyGrant } from './api-key.types.js';
+import type { MerchantRateLimits } from './rate-limit.types.js';
+
+// Where a merchant is defined
+export type MerchantSource =
+  | 'config' // MERCHANT_{key}_* env vars or MERCHANTS_FILE
+  | 'admin'; // Created through the admin API
+
+// Everything about a merchant except its key and API keys
+export interface MerchantSettings {
+  environment: VivaEnvironment;
+  webhookSecret: string;
+  webhookStrict: boolean;
+  redirectSecret: string;
+  rateLimits?: MerchantRateLimits | undefined; // Overrides of the default rate limits, per route group
+  viva: {
+    clientId: string;
+    clientSecret: string;
+    merchantId: string;
+    apiKey: string; // Viva Basic Auth key, not an X-Api-Key
+    sourceCode?: string | undefined;
+  };
+}
+
+// An X-Api-Key issued through the admin API
+export interface MerchantApiKey {
+  id: string; // Public identifier, used to revoke the key
+  keyHash: string; // SHA-256 hex; the key itself is only shown once, when issued
+  lastFour: string;
+  label?: string | undefined;
+  scopes: ApiKeyGrant[];
+  createdAt: string;
+  expiresAt?: string | undefined; // Rejected from then on (set on revocation, after the grace period)
+  revokedAt?: string | undefined;
+}
+
+// Admin API changes to a merchant, persisted and applied on top of the env / file config
+export interface MerchantRecord {
+  merchantKey: string;
+  settings?: MerchantSettings | undefined; // Replaces the configured settings once set
+  disabled: boolean;
+  apiKeys: MerchantApiKey[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A merchant as the admin API sees it: configured, created through the API, or both
+export interface ManagedMerchant {
+  merchantKey: string;
+  source: MerchantSource;
+  disabled: boolean;
+  settings: MerchantSettings; // In effect (the record's, else the configured ones)
+  overridden: boolean; // Settings changed through the admin API
+  apiKeys: ManagedApiKey[]; // Configured keys first, then issued ones
+  createdAt?: string | undefined;
+  updatedAt?: string | undefined;
+}
+
+// An API key as the admin API lists it: never the key or its hash
+export interface ManagedApiKey {
+  id: string;
+  source: MerchantSource;
+  label?: string | undefined;
+  scopes: ApiKeyGrant[];
+  lastFour?: string | undefined; // Issued keys only
+  createdAt?: string | undefined;
+  expiresAt?: string | undefined;
+  revokedAt?: string | undefined;
+  lastUsedAt?: string | undefined;
+}
@@ -0,0 +1,45 @@
+// Order Status Reconciliation Types
+
+import type { OrderState } from './viva.types.js';
+import type { LedgerOrderStatus, LedgerTransactionKind } from './ledger.types.js';
+
+// Order status derived from Viva's order and its transactions
+export type ReconciledOrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'expired'
+  | 'cancelled';
+
+// One of the order's transactions as listed by Viva
+export interface ReconciledTransaction {
+  transactionId: string;
+  parentId?: string | undefined;
+  transactionTypeId: number;
+  kind: LedgerTransactionKind;
+  statusId: string;
+  amount: number; // Cents
+  createdAt: string;
+  webhookReceived: boolean; // Already recorded from a webhook before this check
+}
+
+// A missed event that was processed and forwarded during reconciliation
+export interface RecoveredEvent {
+  event: string; // Forwarded event type (payment.success, order.updated, ...)
+  transactionId?: string | undefined;
+}
+
+// Result of GET /api/payments/orders/:orderCode/status
+export interface OrderStatusReport {
+  orderCode: string;
+  status: ReconciledOrderStatus;
+  stateId: OrderState; // Viva order StateId
+  amount: number; // Requested amount, cents
+  paidAmount: number;
+  refundedAmount: number;
+  ledgerStatus?: LedgerOrderStatus | undefined; // After reconciliation; unset for orders not created here
+  transactions: ReconciledTransaction[];
+  emittedEvents: RecoveredEvent[];
+  checkedAt: string;
+}
@@ -0,0 +1,58 @@
+// Payment Link Types
+
+import type { CallbackConfig } from '../services/webhook-forwarder.service.js';
+
+// Whether a link still opens a checkout (derived, never stored)
+export type PaymentLinkStatus =
+  | 'active' // Visits create orders
+  | 'inactive' // Deactivated by the merchant
+  | 'expired' // Past expiresAt
+  | 'exhausted'; // maxUses payments received
+
+// Usage of a link
+export interface PaymentLinkStats {
+  visits: number; // Orders created from /pay/:slug
+  payments: number; // Of those, orders paid
+  paidAmount: number; // Sum of payments, cents
+  lastVisitedAt?: string | undefined;
+  lastPaidAt?: string | undefined;
+}
+
+// Reusable link; every visit creates a new Viva order from these settings
+export interface PaymentLink {
+  merchantKey: string;
+  slug: string; // Unique across merchants: /pay/:slug carries no merchant
+  amount: number; // Cents; prefilled when disableExactAmount
+  disableExactAmount: boolean; // Customer enters the amount
+  description: string; // Sent as customerTrns
+  currencyCode?: string | undefined;
+  merchantTrns?: string | undefined;
+  sourceCode?: string | undefined;
+  tags?: string[] | undefined;
+  paymentTimeout?: number | undefined; // Seconds, per order
+  callback?: CallbackConfig | undefined; // Registered on every order
+  expiresAt?: string | undefined;
+  maxUses?: number | undefined; // Payments accepted before the link closes
+  active: boolean;
+  stats: PaymentLinkStats;
+  openOrders?: Record<string, string> | undefined; // Unpaid orders by code, with the end of their payment window
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Order created by a visit, kept to attribute its payment to the link
+export interface PaymentLinkOrder {
+  merchantKey: string;
+  orderCode: string;
+  slug: string;
+  paidAt?: string | undefined;
+  createdAt: string;
+}
+
+// Checkout opened by a visitor, reopened on their later visits while it can still be paid
+export interface PaymentLinkSession {
+  orderCode: string;
+  checkoutUrl: string;
+  amount: number; // Link settings the order was created with; a change opens a new order
+  description: string;
+}
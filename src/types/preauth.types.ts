@@ -0,0 +1,44 @@
+// Pre-Authorization Hold Types
+
+import type { CallbackConfig } from '../services/webhook-forwarder.service.js';
+
+// Hold lifecycle
+export type PreauthStatus =
+  | 'open' // Authorized, nothing captured yet
+  | 'partially_captured' // Some captured, the rest still held
+  | 'captured' // Fully captured
+  | 'voided' // Released (remaining amount)
+  | 'expired'; // Auto-voided at the capture deadline
+
+// Why a hold was released
+export type PreauthVoidReason =
+  | 'requested' // POST /api/payments/preauths/:id/void
+  | 'expired' // Capture deadline passed
+  | 'external'; // Voided outside the middleware (e.g. Viva dashboard)
+
+// One capture against a hold
+export interface PreauthCapture {
+  transactionId: string;
+  amount: number; // Cents
+  capturedAt: string;
+}
+
+// Pre-authorized transaction, recorded from the payment webhook
+export interface PreauthHold {
+  merchantKey: string;
+  transactionId: string;
+  orderCode: string;
+  amount: number; // Authorized, cents
+  capturedAmount: number; // Sum of captures, cents
+  currencyCode?: string | undefined;
+  callback?: CallbackConfig | undefined; // Order's callback; preauth.* events go to its webhookUrl
+  status: PreauthStatus;
+  captures: PreauthCapture[];
+  authorizedAt: string;
+  expiresAt: string; // Capture deadline; the hold is voided after it
+  expiringNotifiedAt?: string | undefined; // When preauth.expiring was sent
+  voidReason?: PreauthVoidReason | undefined;
+  voidedAt?: string | undefined;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,52 @@
+// Rate Limit Types
+
+// Groups of routes limited separately
+export const RATE_LIMIT_GROUPS = [
+  'orders', // Creating and changing orders, charges, and any other write
+  'refunds', // Refunds and transaction cancellations
+  'reads', // GET requests
+] as const;
+
+export type RateLimitGroup = typeof RATE_LIMIT_GROUPS[number];
+
+// Slowest refill rate: a bucket that never refills would have no reset time
+export const MIN_PER_MINUTE = 0.01;
+
+// Token bucket of one group: holds `burst` requests, refilled at `perMinute`
+export interface RateLimitPolicy {
+  perMinute: number;
+  burst: number;
+  dailyQuota?: number | undefined; // Requests per UTC day; unlimited when unset
+}
+
+// A merchant's overrides of the default policies, per group
+export type MerchantRateLimits = Partial<Record<RateLimitGroup, Partial<RateLimitPolicy>>>;
+
+// Bucket of one group, by `${merchantKey}:${group}` (in process memory)
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // Epoch millis of the last refill
+  fullAt: number; // Epoch millis when it is full again, and can be dropped
+}
+
+// Stored daily count, by `${merchantKey}:${group}:${YYYY-MM-DD}`
+export interface QuotaUsage {
+  count: number;
+}
+
+// Daily count being updated in process memory, until it is written to the store
+export interface QuotaCounter {
+  count: number;
+  expiresAt: number; // Epoch millis of the next UTC midnight
+}
+
+// Outcome of taking a token for a request
+export interface RateLimitResult {
+  allowed: boolean;
+  reason?: 'rate_limit' | 'daily_quota' | undefined; // Why it was refused
+  policy: RateLimitPolicy;
+  remaining: number; // Whole tokens left in the bucket
+  resetSeconds: number; // Until the bucket is full again
+  retryAfterSeconds?: number | undefined; // Refused requests only
+  quotaRemaining?: number | undefined; // With a daily quota only
+}
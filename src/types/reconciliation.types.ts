@@ -0,0 +1,45 @@
+// Scheduled Reconciliation Types
+
+import type { LedgerTransactionKind } from './ledger.types.js';
+import type { RecoveredEvent } from './order-status.types.js';
+
+// What started a reconciliation run
+export type ReconciliationTrigger = 'scheduled' | 'manual';
+
+// A transaction that Viva and the webhook router disagree about
+export interface ReconciliationItem {
+  transactionId: string;
+  orderCode: string;
+  kind: LedgerTransactionKind;
+  statusId?: string | undefined; // Viva transaction status (F, E, ...)
+  vivaAmount?: number | undefined; // Cents; unset for unknown transactions
+  recordedAmount?: number | undefined; // Cents; unset for missing transactions
+  createdAt: string;
+}
+
+export interface ReconciliationSummary {
+  vivaTransactions: number; // Completed or failed transactions listed by Viva
+  recordedTransactions: number; // Transactions recorded from webhooks
+  matched: number;
+  missing: number;
+  amountMismatches: number;
+  unknown: number;
+  reemitted: number;
+}
+
+// One merchant's reconciliation of one day (UTC)
+export interface ReconciliationReport {
+  merchantKey: string;
+  date: string; // YYYY-MM-DD
+  trigger: ReconciliationTrigger;
+  status: 'completed' | 'failed';
+  reemit: boolean; // Missed events were processed and forwarded
+  summary: ReconciliationSummary;
+  missing: ReconciliationItem[]; // Listed by Viva, never received as a webhook
+  amountMismatches: ReconciliationItem[]; // Recorded with a different amount than Viva's
+  unknown: ReconciliationItem[]; // Recorded from a webhook, not listed by Viva
+  reemitted: RecoveredEvent[];
+  error?: string | undefined; // Why a failed run failed
+  startedAt: string;
+  completedAt: string;
+}
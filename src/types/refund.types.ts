@@ -0,0 +1,29 @@
+// Refund Tracking Types
+
+// How a refund was issued
+export type RefundMethod =
+  | 'cancel' // DELETE /api/payments/transactions/:id
+  | 'fast_refund' // POST /api/payments/transactions/:id/refund
+  | 'external'; // Only seen in a 1797 webhook (e.g. issued from the Viva dashboard)
+
+// One refund of a transaction
+export interface Refund {
+  refundTransactionId: string;
+  amount: number; // Cents
+  method: RefundMethod;
+  reason?: string | undefined;
+  createdAt: string;
+}
+
+// Refund history of one original (charged) transaction
+export interface TransactionRefunds {
+  merchantKey: string;
+  transactionId: string; // Original transaction
+  orderCode?: string | undefined;
+  chargedAmount: number; // Cents
+  refundedAmount: number; // Sum of refunds, cents
+  currencyCode?: string | undefined;
+  refunds: Refund[];
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,31 @@
+// Key-Value Store Types
+
+// Options for a single write
+export interface StoreSetOptions {
+  ttlMs?: number | undefined; // Overrides the store's default TTL for this entry
+}
+
+// Options used when creating a store
+export interface StoreOptions {
+  defaultTtlMs?: number | undefined; // Entries without an explicit TTL never expire when unset
+}
+
+// Entry as held in memory and on disk
+export interface StoredEntry<T> {
+  value: T;
+  expiresAt: number | null; // Epoch millis, null = no expiry
+}
+
+/**
+ * Minimal synchronous key-value store used for all middleware state.
+ * Values must be JSON-serializable so that every backend can persist them.
+ */
+export interface KeyValueStore<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T, options?: StoreSetOptions): void;
+  delete(key: string): boolean;
+  has(key: string): boolean;
+  values(): T[];
+  entries(): Array<[string, T]>;
+  purgeExpired(): number;
+}
@@ -0,0 +1,68 @@
+// Recurring Billing Subscription Types
+
+import type { VivaCustomer } from './viva.types.js';
+import type { CallbackConfig } from '../services/webhook-forwarder.service.js';
+
+// Billing period unit
+export type SubscriptionInterval = 'day' | 'week' | 'month' | 'year';
+
+// What a subscriber is charged, and how often
+export interface SubscriptionPlan {
+  merchantKey: string;
+  planId: string;
+  name: string;
+  amount: number; // Cents, charged every period
+  currencyCode?: string | undefined;
+  interval: SubscriptionInterval;
+  intervalCount: number; // e.g. interval "month" + intervalCount 3 = quarterly
+  trialDays: number;
+  active: boolean; // Inactive plans accept no new subscribers
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Subscription lifecycle
+export type SubscriptionStatus =
+  | 'pending' // Waiting for the customer to complete the initial order
+  | 'trialing'
+  | 'active'
+  | 'past_due' // Last charge failed, retrying
+  | 'paused'
+  | 'cancelled';
+
+// One recurring charge attempt
+export interface SubscriptionCharge {
+  amount: number; // Cents
+  success: boolean;
+  transactionId?: string | undefined;
+  error?: string | undefined;
+  attemptedAt: string;
+}
+
+export interface Subscription {
+  merchantKey: string;
+  subscriptionId: string;
+  planId: string;
+  status: SubscriptionStatus;
+  orderCode: string; // Initial allowRecurring order
+  initialTransactionId?: string | undefined; // Charged again on every billing date
+  customer?: VivaCustomer | undefined;
+  merchantTrns?: string | undefined;
+  callback?: CallbackConfig | undefined; // subscription.* events go to callback.webhookUrl
+  trialEndsAt?: string | undefined;
+  billingAnchor?: string | undefined; // Billing dates are billingAnchor + n periods
+  billedPeriods: number; // Periods charged since billingAnchor
+  currentPeriodStart?: string | undefined;
+  currentPeriodEnd?: string | undefined;
+  nextBillingAt?: string | undefined; // Scheduled billing date
+  nextAttemptAt?: string | undefined; // When the scheduler next charges (later than nextBillingAt while retrying)
+  failedAttempts: number; // Consecutive failed charges
+  pendingChargeAt?: string | undefined; // Charge with an unknown outcome (timeout); looked up at Viva before charging again
+  charges: SubscriptionCharge[];
+  cancelAtPeriodEnd: boolean;
+  cancellationReason?: 'requested' | 'payment_failed' | undefined;
+  pausedAt?: string | undefined;
+  cancelledAt?: string | undefined;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,33 @@
+// Transaction Export Types
+
+import type { LedgerTransactionKind } from './ledger.types.js';
+
+export type TransactionReportFormat = 'csv' | 'json';
+
+// Where a report row's transaction data came from
+export type TransactionReportSource =
+  | 'viva' // Viva's transaction listing (enriched with recorded fees and refunds)
+  | 'webhook'; // Recorded from a webhook only; not in Viva's listing
+
+// One exported transaction; amounts in cents
+export interface TransactionReportRow {
+  createdAt: string;
+  transactionId: string;
+  orderCode: string;
+  parentId?: string | undefined; // Original transaction of a reversal
+  kind: LedgerTransactionKind;
+  transactionTypeId?: number | undefined;
+  statusId?: string | undefined; // Viva transaction status (F, E, ...)
+  amount?: number | undefined;
+  currencyCode?: string | undefined;
+  fees?: number | undefined; // Viva's total commission (Transaction Price Calculated webhook)
+  interchange?: number | undefined;
+  isvFee?: number | undefined;
+  cardBrand?: string | undefined; // e.g. "visa", or the Viva CardTypeId when unknown
+  cardLastFour?: string | undefined;
+  merchantTrns?: string | undefined;
+  tags: string[];
+  refundedAmount?: number | undefined; // Payments: sum of refunds issued so far
+  refundTransactionIds: string[];
+  source: TransactionReportSource;
+}
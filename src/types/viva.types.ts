@@ -250,6 +250,47 @@ export interface CancelTransactionResponse {
   Success: boolean;
 }
 
+// Transaction as listed by the legacy API (amounts in major units)
+export interface LegacyTransaction {
+  TransactionId: string;
+  ParentId: string | null; // Original transaction of a reversal/capture
+  StatusId: string;
+  Amount: number;
+  InsDate: string;
+  CurrencyCode: string;
+  SourceCode: string;
+  MerchantTrns: string | null;
+  CustomerTrns: string | null;
+  Email: string | null;
+  FullName: string | null;
+  CreditCard: {
+    Number: string;
+    CardType: { CardTypeId: number };
+  } | null;
+  TransactionType: { TransactionTypeId: number };
+  Order: {
+    OrderCode: number;
+    Tags: string[];
+  };
+}
+
+// List Transactions Request (one of orderCode or date is required)
+export interface ListTransactionsParams {
+  orderCode?: number | undefined;
+  date?: string | undefined; // YYYY-MM-DD
+}
+
+// List Transactions Response
+export interface ListTransactionsResponse {
+  Transactions: LegacyTransaction[];
+  ErrorCode: number;
+  ErrorText: string | null;
+  TimeStamp: string;
+  CorrelationId: string | null;
+  EventId: number;
+  Success: boolean;
+}
+
 // Create Card Token Request
 export interface CreateCardTokenRequest {
   transactionId: string;
@@ -300,33 +341,161 @@ export enum WebhookEventType {
   TransactionPaymentCreated = 'TransactionPaymentCreated',
   TransactionFailed = 'TransactionFailed',
   TransactionReversalCreated = 'TransactionReversalCreated',
+  TransactionPriceCalculated = 'TransactionPriceCalculated',
+  PosEcrSessionCreated = 'PosEcrSessionCreated',
+  PosEcrSessionFailed = 'PosEcrSessionFailed',
+  TransferCreated = 'TransferCreated',
+  AccountTransactionCreated = 'AccountTransactionCreated',
+  ObligationCreated = 'ObligationCreated',
+  ObligationCaptured = 'ObligationCaptured',
+  OrderUpdated = 'OrderUpdated',
 }
 
-// Webhook Payload
-export interface WebhookPayload {
-  EventTypeId: number;
-  EventData: {
-    TransactionId: string;
-    OrderCode: number;
-    StatusId?: string;
-    Amount?: number;
-    CurrencyCode?: string;
-    Email?: string;
-    FullName?: string;
-    Phone?: string;
-    InsDate?: string;
-    CardNumber?: string;
-    BankId?: string;
-    CardUniqueReference?: string;
-    CardTypeId?: number;
-    SourceCode?: string;
-    MerchantTrns?: string;
-    CustomerTrns?: string;
-    Tags?: string[];
-    Descriptor?: string;
-  };
+// Webhook Event Type IDs (EventTypeId)
+export enum WebhookEventTypeId {
+  TransactionPaymentCreated = 1796,
+  TransactionReversalCreated = 1797,
+  TransactionFailed = 1798,
+  TransactionPriceCalculated = 1799,
+  PosEcrSessionCreated = 1802,
+  PosEcrSessionFailed = 1803,
+  TransferCreated = 2052,
+  AccountTransactionCreated = 2054,
+  ObligationCreated = 5632,
+  ObligationCaptured = 5633,
+  OrderUpdated = 8448,
 }
 
+// Transaction event data (1796, 1797, 1798)
+export interface TransactionEventData {
+  TransactionId: string;
+  OrderCode: number;
+  ParentId?: string; // Original transaction of a reversal/capture
+  TransactionTypeId?: number;
+  StatusId?: string;
+  Amount?: number;
+  CurrencyCode?: string;
+  Email?: string;
+  FullName?: string;
+  Phone?: string;
+  InsDate?: string;
+  CardNumber?: string;
+  BankId?: string;
+  CardUniqueReference?: string;
+  CardTypeId?: number;
+  SourceCode?: string;
+  MerchantTrns?: string;
+  CustomerTrns?: string;
+  Tags?: string[];
+  Descriptor?: string;
+}
+
+// Transaction Price Calculated (1799): fees charged for a transaction
+export interface TransactionPriceCalculatedEventData {
+  TransactionId: string;
+  OrderCode?: number;
+  MerchantId?: string;
+  CurrencyCode?: string;
+  Interchange?: number;
+  IsvFee?: number;
+  TotalCommission?: number;
+}
+
+// POS ECR session created/failed (1802, 1803)
+export interface PosEcrSessionEventData {
+  SessionId: string;
+  TerminalId?: string;
+  CashRegisterId?: string;
+  TransactionId?: string;
+  OrderCode?: number;
+  Amount?: number;
+  CurrencyCode?: string;
+  MerchantReference?: string;
+  Success?: boolean;
+  Message?: string;
+}
+
+// Transfer Created (2052): money moved between wallets
+export interface TransferCreatedEventData {
+  TransferId: string;
+  Amount?: number;
+  CurrencyCode?: string;
+  SourceWalletId?: number;
+  TargetWalletId?: number;
+  Description?: string;
+  Created?: string;
+}
+
+// Account Transaction Created (2054): a wallet balance movement
+export interface AccountTransactionCreatedEventData {
+  AccountTransactionId: string;
+  WalletId?: number;
+  Amount?: number;
+  CurrencyCode?: string;
+  Description?: string;
+  TransactionId?: string; // Related card transaction, if any
+  Created?: string;
+}
+
+// Obligation created/captured (5632, 5633): a payment request owed by a customer
+export interface ObligationEventData {
+  ObligationId: string;
+  Amount?: number;
+  CurrencyCode?: string;
+  CustomerEmail?: string;
+  CustomerFullName?: string;
+  MerchantTrns?: string;
+  ExpirationDate?: string;
+  TransactionId?: string; // Set once captured
+  OrderCode?: number;
+}
+
+// Order Updated (8448): order state changed
+export interface OrderUpdatedEventData {
+  OrderCode: number;
+  StateId: OrderState;
+  Amount?: number;
+  CurrencyCode?: string;
+  MerchantTrns?: string;
+  ExpirationDate?: string;
+}
+
+// Webhook envelope fields common to every event
+export interface WebhookEnvelope<TEventTypeId extends number, TEventData> {
+  EventTypeId: TEventTypeId;
+  EventData: TEventData;
+  Url?: string;
+  Created?: string;
+  CorrelationId?: string;
+  MessageId?: string;
+  MessageTypeId?: number;
+  RecipientId?: string;
+}
+
+// Webhook Payload (transaction events)
+export type WebhookPayload = WebhookEnvelope<number, TransactionEventData>;
+
+// Any known webhook, discriminated by EventTypeId
+export type VivaWebhookEvent =
+  | WebhookEnvelope<
+      | WebhookEventTypeId.TransactionPaymentCreated
+      | WebhookEventTypeId.TransactionReversalCreated
+      | WebhookEventTypeId.TransactionFailed,
+      TransactionEventData
+    >
+  | WebhookEnvelope<WebhookEventTypeId.TransactionPriceCalculated, TransactionPriceCalculatedEventData>
+  | WebhookEnvelope<
+      WebhookEventTypeId.PosEcrSessionCreated | WebhookEventTypeId.PosEcrSessionFailed,
+      PosEcrSessionEventData
+    >
+  | WebhookEnvelope<WebhookEventTypeId.TransferCreated, TransferCreatedEventData>
+  | WebhookEnvelope<WebhookEventTypeId.AccountTransactionCreated, AccountTransactionCreatedEventData>
+  | WebhookEnvelope<
+      WebhookEventTypeId.ObligationCreated | WebhookEventTypeId.ObligationCaptured,
+      ObligationEventData
+    >
+  | WebhookEnvelope<WebhookEventTypeId.OrderUpdated, OrderUpdatedEventData>;
+
 // API Error Response
 export interface VivaErrorResponse {
   ErrorCode: number;
@@ -0,0 +1,161 @@
+// Schemas of the merchant registry file (MERCHANTS_FILE) and the admin API
+
+import crypto from 'crypto';
+import { array, boolean, number, object, oneOf, optional, string } from './schema.js';
+import { API_KEY_SCOPES } from '../types/api-key.types.js';
+import { MIN_PER_MINUTE } from '../types/rate-limit.types.js';
+
+// Used in webhook URLs, so kept URL-safe
+export const MERCHANT_KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Longest grace period of a revoked API key
+const MAX_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+const required = string({ min: 1 });
+
+const merchantKey = string({ min: 1, max: 64, pattern: MERCHANT_KEY_PATTERN, patternMessage: 'may only contain letters, digits, "_" and "-"' });
+const environment = oneOf(['demo', 'production', 'mock'] as const);
+
+// Overrides of the default rate limits; each field left out keeps its default
+const rateLimitPolicy = object({
+  perMinute: optional(number({ min: MIN_PER_MINUTE, max: 100_000 })),
+  burst: optional(number({ integer: true, min: 1, max: 100_000 })),
+  dailyQuota: optional(number({ integer: true, min: 1 })),
+});
+
+const rateLimits = object({
+  orders: optional(rateLimitPolicy),
+  refunds: optional(rateLimitPolicy),
+  reads: optional(rateLimitPolicy),
+});
+
+const merchantSettings = {
+  environment: optional(environment),
+  redirectSecret: optional(string()),
+  webhookSecret: optional(string()),
+  webhookStrict: optional(boolean()),
+  rateLimits: optional(rateLimits),
+};
+
+const vivaCredentials = {
+  clientId: required,
+  clientSecret: required,
+  merchantId: optional(string()),
+  apiKey: optional(string()),
+  sourceCode: optional(required),
+};
+
+// At least one scope; '*' grants all (the default)
+const scopes = array(oneOf([...API_KEY_SCOPES, '*'] as const), { min: 1 });
+
+const apiKeyLabel = string({ min: 1, max: 64, pattern: /^[A-Za-z0-9_.-]+$/, patternMessage: 'may only contain letters, digits, ".", "_" and "-"' });
+
+// A configured key: the key itself, or its SHA-256 hex so the file holds no secret
+const configuredApiKey = object({
+  label: apiKeyLabel,
+  key: optional(string({ min: 16 })),
+  keyHash: optional(string({ pattern: /^[a-f0-9]{64}$/, patternMessage: 'must be a SHA-256 hex digest' })),
+  scopes: optional(scopes),
+}, {
+  refine(apiKey, addIssue) {
+    if ((apiKey.key === undefined) === (apiKey.keyHash === undefined)) {
+      addIssue('key', 'exactly one of key and keyHash is required');
+    }
+  },
+});
+
+const merchant = object({
+  merchantKey,
+  apiKey: optional(required), // Full-access key; without any, only keys issued through the admin API work
+  apiKeys: optional(array(configuredApiKey)),
+  ...merchantSettings,
+  viva: object(vivaCredentials),
+}, {
+  refine(entry, addIssue) {
+    const labels = new Set<string>();
+    entry.apiKeys?.forEach((apiKey, index) => {
+      if (labels.has(apiKey.label)) addIssue(`apiKeys[${index}].label`, 'is used by another key');
+      labels.add(apiKey.label);
+    });
+  },
+});
+
+/**
+ * The whole registry file. Merchant keys and API keys must be unique.
+ */
+export const merchantRegistrySchema = object({
+  merchants: array(merchant),
+}, {
+  refine(registry, addIssue) {
+    const merchantKeys = new Set<string>();
+    const apiKeys = new Set<string>();
+
+    registry.merchants.forEach((entry, index) => {
+      if (merchantKeys.has(entry.merchantKey)) addIssue(`merchants[${index}].merchantKey`, 'is used by another merchant');
+      merchantKeys.add(entry.merchantKey);
+
+      // Compared by hash, so a key also listed by its hash elsewhere is caught
+      const sha256 = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+      const keys = [
+        { field: 'apiKey', value: entry.apiKey === undefined ? undefined : sha256(entry.apiKey) },
+        ...(entry.apiKeys ?? []).map((apiKey, keyIndex) => ({
+          field: `apiKeys[${keyIndex}]`,
+          value: apiKey.keyHash ?? sha256(apiKey.key!),
+        })),
+      ];
+      for (const { field, value } of keys) {
+        if (value === undefined) continue;
+        if (apiKeys.has(value)) addIssue(`merchants[${index}].${field}`, 'is used by another key');
+        apiKeys.add(value);
+      }
+    });
+  },
+});
+
+/**
+ * POST /api/admin/merchants
+ */
+export const createMerchantSchema = object({
+  merchantKey,
+  ...merchantSettings,
+  viva: object(vivaCredentials),
+  apiKeyLabel: optional(string({ min: 1, max: 100 })),
+  apiKeyScopes: optional(scopes),
+});
+
+/**
+ * PATCH /api/admin/merchants/:merchantKey
+ */
+export const updateMerchantSchema = object({
+  disabled: optional(boolean()),
+  ...merchantSettings,
+  viva: optional(object({
+    clientId: optional(required),
+    clientSecret: optional(required),
+    merchantId: optional(string()),
+    apiKey: optional(string()),
+    sourceCode: optional(required),
+  })),
+}, {
+  refine(update, addIssue) {
+    if (Object.keys(update).length === 0) {
+      addIssue('(root)', 'at least one of disabled, environment, redirectSecret, webhookSecret, webhookStrict, rateLimits, viva is required');
+    }
+  },
+});
+
+/**
+ * POST /api/admin/merchants/:merchantKey/api-keys
+ */
+export const issueApiKeySchema = object({
+  label: optional(string({ min: 1, max: 100 })),
+  scopes: optional(scopes),
+  expiresInSeconds: optional(number({ integer: true, min: 1 })),
+});
+
+/**
+ * DELETE /api/admin/merchants/:merchantKey/api-keys/:keyId (query)
+ */
+export const revokeApiKeyQuerySchema = object({
+  graceSeconds: optional(number({ integer: true, min: 0, max: MAX_GRACE_SECONDS, coerce: true })),
+});
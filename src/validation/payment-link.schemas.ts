@@ -0,0 +1,73 @@
+// Request schemas for /api/payment-links
+
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './schema.js';
+import { MERCHANT_TEXT_MAX, callbackSchema, currencyCode } from './payment.schemas.js';
+
+const PAYMENT_LINK_STATUSES = ['active', 'inactive', 'expired', 'exhausted'] as const;
+
+const slug = string({ pattern: /^[A-Za-z0-9_-]{3,64}$/, patternMessage: 'must be 3-64 letters, digits, "-" or "_"' });
+const expiresAt = string({ format: 'date-time' });
+
+/**
+ * Reject expiry dates that have already passed
+ */
+function checkExpiresAt(value: string | undefined, addIssue: (path: string, message: string) => void): void {
+  if (value !== undefined && new Date(value).getTime() <= Date.now()) {
+    addIssue('expiresAt', 'must be in the future');
+  }
+}
+
+/**
+ * POST /api/payment-links
+ */
+export const createPaymentLinkSchema = object({
+  slug: optional(slug),
+  amount: number({ integer: true, min: 30 }),
+  description: string({ min: 1, max: MERCHANT_TEXT_MAX }),
+  disableExactAmount: optional(boolean()),
+  currencyCode: optional(currencyCode),
+  merchantTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  sourceCode: optional(string({ min: 1 })),
+  tags: optional(array(string({ min: 1 }))),
+  paymentTimeout: optional(number({ integer: true, min: 1 })),
+  expiresAt: optional(expiresAt),
+  maxUses: optional(number({ integer: true, min: 1 })),
+  callback: optional(callbackSchema),
+}, {
+  refine(link, addIssue) {
+    checkExpiresAt(link.expiresAt, addIssue);
+  },
+});
+
+/**
+ * PATCH /api/payment-links/:slug
+ */
+export const updatePaymentLinkSchema = object({
+  amount: optional(number({ integer: true, min: 30 })),
+  description: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  expiresAt: optional(expiresAt),
+  maxUses: optional(number({ integer: true, min: 1 })),
+  active: optional(boolean()),
+}, {
+  refine(update, addIssue) {
+    if (Object.keys(update).length === 0) {
+      addIssue('(root)', 'at least one of amount, description, expiresAt, maxUses, active is required');
+    }
+    checkExpiresAt(update.expiresAt, addIssue);
+  },
+});
+
+/**
+ * GET /api/payment-links (query)
+ */
+export const listPaymentLinksQuerySchema = object({
+  status: optional(oneOf(PAYMENT_LINK_STATUSES)),
+});
@@ -0,0 +1,296 @@
+// Request schemas for /api/payments
+// Each schema is typed against the matching request type in viva.types.ts,
+// so the compiler flags any drift between the two.
+
+import {
+  array,
+  boolean,
+  date,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+} from './schema.js';
+import type { Schema } from './schema.js';
+import type {
+  CreatePaymentOrderRequest,
+  CreateTransactionRequest,
+  CreateCardTokenRequest,
+  KlarnaAddress,
+  KlarnaOrderLine,
+  KlarnaOrderOptions,
+  NbgLoanOrderOptions,
+  PaymentMethodFee,
+  UpdateOrderRequest,
+  VivaCustomer,
+} from '../types/viva.types.js';
+import type { CallbackConfig } from '../services/webhook-forwarder.service.js';
+
+// Max length of merchantTrns, customerTrns and other free text passed to Viva
+export const MERCHANT_TEXT_MAX = 2048;
+
+// Why a refund was issued, kept in the refund history
+const refundReason = string({ min: 1, max: 500 });
+
+// Merchant's own customer ID used to key saved cards (":" separates the parts of vault keys)
+export const customerRef = string({ min: 1, max: 100, pattern: /^[^:]+$/, patternMessage: 'must not contain ":"' });
+
+// Saved card ID, as returned when the card was saved
+const cardId = string({ min: 1, max: 100, pattern: /^[^:]+$/, patternMessage: 'must not contain ":"' });
+
+// Amounts are always integers in the smallest currency unit (cents)
+const cents = (min = 0) => number({ integer: true, min });
+
+export const currencyCode = string({ pattern: /^\d{3}$/, patternMessage: 'must be an ISO 4217 numeric code (e.g. "978")' });
+
+export const customerSchema: Schema<VivaCustomer> = object({
+  email: optional(string({ format: 'email', max: 50 })),
+  fullName: optional(string({ max: 50 })),
+  phone: optional(string({ max: 30 })),
+  countryCode: optional(string({ pattern: /^[A-Za-z]{2}$/, patternMessage: 'must be a 2-letter ISO 3166 code' })),
+  requestLang: optional(string({ pattern: /^[a-z]{2}(-[A-Z]{2})?$/, patternMessage: 'must be a language tag like "en-GB"' })),
+});
+
+const paymentMethodFeeSchema: Schema<PaymentMethodFee> = object({
+  paymentMethodId: string({ min: 1 }),
+  fee: cents(),
+});
+
+const klarnaAddressSchema: Schema<KlarnaAddress> = object({
+  givenName: optional(string()),
+  familyName: optional(string()),
+  email: optional(string({ format: 'email' })),
+  phone: optional(string()),
+  streetAddress: optional(string()),
+  streetAddress2: optional(string()),
+  postalCode: optional(string()),
+  city: optional(string()),
+  region: optional(string()),
+  country: optional(string({ pattern: /^[A-Za-z]{2}$/, patternMessage: 'must be a 2-letter ISO 3166 code' })),
+});
+
+const klarnaOrderLineSchema: Schema<KlarnaOrderLine> = object({
+  type: optional(string()),
+  reference: optional(string()),
+  name: string({ min: 1 }),
+  quantity: number({ integer: true, min: 1 }),
+  unitPrice: cents(),
+  taxRate: optional(number({ integer: true, min: 0 })),
+  totalAmount: cents(),
+  totalDiscountAmount: optional(cents()),
+  totalTaxAmount: optional(cents()),
+  imageUrl: optional(string({ format: 'url' })),
+  productUrl: optional(string({ format: 'url' })),
+});
+
+const klarnaOrderOptionsSchema: Schema<KlarnaOrderOptions> = object({
+  attachment: optional(object({
+    contentType: optional(string()),
+    body: optional(string()),
+  })),
+  billingAddress: optional(klarnaAddressSchema),
+  shippingAddress: optional(klarnaAddressSchema),
+  orderLines: optional(array(klarnaOrderLineSchema)),
+});
+
+const nbgLoanOrderOptionsSchema: Schema<NbgLoanOrderOptions> = object({
+  Code: optional(string()),
+  ReceiptType: optional(number({ integer: true, min: 0 })),
+});
+
+// merchantKey is set by the middleware, never by the client
+export const callbackSchema: Schema<Omit<CallbackConfig, 'merchantKey'>> = object({
+  successUrl: optional(string({ format: 'url' })),
+  failureUrl: optional(string({ format: 'url' })),
+  webhookUrl: optional(string({ format: 'url' })),
+  secret: optional(string({ min: 1 })),
+  includeRawPayload: optional(boolean()),
+  metadata: optional(record()),
+  redirectSuccessUrl: optional(string({ format: 'url' })),
+  redirectFailureUrl: optional(string({ format: 'url' })),
+});
+
+/**
+ * POST /api/payments/orders
+ */
+export const createOrderSchema: Schema<CreatePaymentOrderRequest & { customerRef?: string; callback?: Omit<CallbackConfig, 'merchantKey'> }> = object({
+  amount: cents(),
+  customerTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  customer: optional(customerSchema),
+  dynamicDescriptor: optional(string({ max: 13 })),
+  currencyCode: optional(currencyCode),
+  paymentTimeout: optional(number({ integer: true, min: 1 })),
+  preauth: optional(boolean()),
+  allowRecurring: optional(boolean()),
+  maxInstallments: optional(number({ integer: true, min: 1, max: 36 })),
+  forceMaxInstallments: optional(boolean()),
+  paymentNotification: optional(boolean()),
+  tipAmount: optional(cents()),
+  disableExactAmount: optional(boolean()),
+  disableCash: optional(boolean()),
+  disableWallet: optional(boolean()),
+  sourceCode: optional(string({ min: 1 })),
+  merchantTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  stateId: optional(number({ integer: true, min: 0 })),
+  urlFail: optional(string({ format: 'url' })),
+  tags: optional(array(string({ min: 1 }))),
+  cardTokens: optional(array(string({ min: 1 }), { max: 10 })),
+  paymentMethodFees: optional(array(paymentMethodFeeSchema)),
+  isCardVerification: optional(boolean()),
+  nbgLoanOrderOptions: optional(nbgLoanOrderOptionsSchema),
+  klarnaOrderOptions: optional(klarnaOrderOptionsSchema),
+  customerRef: optional(customerRef),
+  callback: optional(callbackSchema),
+}, {
+  refine(order, addIssue) {
+    if (order.isCardVerification) {
+      // Card verification requires amount to be 0
+      if (order.amount !== 0) {
+        addIssue('amount', 'must be 0 for card verification');
+      }
+    } else if (order.amount < 30) {
+      addIssue('amount', 'must be at least 30 (cents)');
+    }
+
+    if (order.tipAmount !== undefined && order.tipAmount > order.amount) {
+      addIssue('tipAmount', 'must not exceed amount');
+    }
+
+    // stateId and urlFail must be used together
+    if ((order.stateId !== undefined) !== (order.urlFail !== undefined)) {
+      addIssue(order.stateId !== undefined ? 'urlFail' : 'stateId', 'stateId and urlFail must be used together');
+    }
+  },
+});
+
+/**
+ * PATCH /api/payments/orders/:orderCode
+ */
+export const updateOrderSchema: Schema<UpdateOrderRequest> = object({
+  amount: optional(cents(30)),
+  disablePaidState: optional(boolean()),
+  expirationDate: optional(string({ format: 'date-time' })),
+  isCanceled: optional(boolean()),
+}, {
+  refine(update, addIssue) {
+    if (Object.keys(update).length === 0) {
+      addIssue('(root)', 'at least one of amount, disablePaidState, expirationDate, isCanceled is required');
+    }
+  },
+});
+
+/**
+ * POST /api/payments/transactions/:transactionId
+ */
+export const createTransactionSchema: Schema<CreateTransactionRequest> = object({
+  amount: cents(1),
+  installments: optional(number({ integer: true, min: 1, max: 36 })),
+  customerTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  merchantTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  sourceCode: optional(string({ min: 1 })),
+  tipAmount: optional(cents()),
+  currencyCode: optional(currencyCode),
+});
+
+/**
+ * DELETE /api/payments/transactions/:transactionId (query)
+ */
+export const cancelTransactionQuerySchema = object({
+  amount: optional(number({ integer: true, min: 1, coerce: true })),
+  sourceCode: optional(string({ min: 1 })),
+  reason: optional(refundReason),
+});
+
+/**
+ * POST /api/payments/transactions/:transactionId/refund
+ */
+export const fastRefundSchema = object({
+  amount: cents(1),
+  sourceCode: optional(string({ min: 1 })),
+  merchantTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  reason: optional(refundReason),
+});
+
+/**
+ * POST /api/payments/card-tokens
+ */
+export const createCardTokenSchema: Schema<CreateCardTokenRequest & { customerRef?: string }> = object({
+  transactionId: string({ min: 1 }),
+  groupId: optional(string({ min: 1 })),
+  customerRef: optional(customerRef),
+});
+
+/**
+ * GET /api/payments/customers/:customerRef/cards (path)
+ */
+export const customerParamsSchema = object({
+  customerRef,
+});
+
+/**
+ * /api/payments/customers/:customerRef/cards/:cardId (path)
+ */
+export const savedCardParamsSchema = object({
+  customerRef,
+  cardId,
+});
+
+/**
+ * GET /payment/success and /payment/failure (query set by Viva)
+ */
+export const paymentRedirectQuerySchema = object({
+  t: optional(string({ min: 1 })),
+  s: string({ pattern: /^\d+$/, patternMessage: 'must be an order code' }),
+  lang: optional(string()),
+});
+
+/**
+ * GET /api/payments/checkout-url/:orderCode (query)
+ */
+export const checkoutUrlQuerySchema = object({
+  color: optional(string({ pattern: /^#?[0-9A-Fa-f]{6}$/, patternMessage: 'must be a hex color like "ff0000"' })),
+  paymentMethod: optional(string({ min: 1 })),
+});
+
+// Shared ledger list parameters
+const ledgerListQuery = {
+  from: optional(date()),
+  to: optional(date()),
+  tag: optional(string({ min: 1 })),
+  merchantTrns: optional(string({ min: 1 })),
+  cursor: optional(string({ min: 1 })),
+  limit: optional(number({ integer: true, min: 1, max: 200, coerce: true })),
+};
+
+/**
+ * GET /api/payments/orders (query)
+ */
+export const listOrdersQuerySchema = object({
+  ...ledgerListQuery,
+  status: optional(oneOf(['pending', 'paid', 'failed', 'partially_refunded', 'refunded', 'expired', 'cancelled'])),
+});
+
+/**
+ * GET /api/payments/transactions (query)
+ */
+export const listTransactionsQuerySchema = object({
+  ...ledgerListQuery,
+  status: optional(oneOf(['succeeded', 'failed'])),
+  kind: optional(oneOf(['payment', 'reversal'])),
+});
+
+/**
+ * GET /api/payments/orders/:orderCode/status (query)
+ */
+export const orderStatusQuerySchema = object({
+  reemit: optional(boolean({ coerce: true })),
+});
+
+/**
+ * GET /api/payments/preauths (query)
+ */
+export const listPreauthsQuerySchema = object({
+  status: optional(oneOf(['open', 'partially_captured', 'captured', 'voided', 'expired'])),
+});
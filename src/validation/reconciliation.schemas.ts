@@ -0,0 +1,23 @@
+// Request schemas for /api/reconciliation
+
+import { boolean, object, optional, string } from './schema.js';
+
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/reconciliation/run
+ */
+export const runReconciliationSchema = object({
+  date: optional(string({ pattern: DAY_PATTERN, patternMessage: 'must be a date (YYYY-MM-DD)' })),
+  reemit: optional(boolean()),
+}, {
+  refine(run, addIssue) {
+    if (run.date === undefined) return;
+    const day = new Date(`${run.date}T00:00:00.000Z`);
+    if (isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== run.date) {
+      addIssue('date', 'must be a date (YYYY-MM-DD)');
+    } else if (day.getTime() > Date.now()) {
+      addIssue('date', 'must not be in the future');
+    }
+  },
+});
@@ -0,0 +1,42 @@
+// Request schemas for /api/reports
+
+import { object, oneOf, optional, string } from './schema.js';
+import { DAY_PATTERN } from './reconciliation.schemas.js';
+
+// Longest range one export may cover, in days (one Viva listing call per day)
+export const MAX_REPORT_RANGE_DAYS = 92;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const day = string({ pattern: DAY_PATTERN, patternMessage: 'must be a date (YYYY-MM-DD)' });
+
+/**
+ * Start of a YYYY-MM-DD day in ms, or undefined if it is not a calendar date
+ */
+function parseDay(value: string): number | undefined {
+  const time = new Date(`${value}T00:00:00.000Z`).getTime();
+  return !isNaN(time) && new Date(time).toISOString().slice(0, 10) === value ? time : undefined;
+}
+
+/**
+ * GET /api/reports/transactions (query)
+ */
+export const transactionReportQuerySchema = object({
+  from: day,
+  to: day,
+  format: optional(oneOf(['csv', 'json'] as const)),
+}, {
+  refine(query, addIssue) {
+    const from = parseDay(query.from);
+    const to = parseDay(query.to);
+    if (from === undefined) addIssue('from', 'must be a date (YYYY-MM-DD)');
+    if (to === undefined) addIssue('to', 'must be a date (YYYY-MM-DD)');
+    if (from === undefined || to === undefined) return;
+
+    if (to < from) {
+      addIssue('to', 'must not be before from');
+    } else if ((to - from) / DAY_MS + 1 > MAX_REPORT_RANGE_DAYS) {
+      addIssue('to', `must be less than ${MAX_REPORT_RANGE_DAYS} days after from`);
+    }
+  },
+});
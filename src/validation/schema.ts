@@ -0,0 +1,257 @@
+// Declarative request validation
+//
+// Small schema builders used to validate request bodies and query strings.
+// Every schema strips unknown object keys and collects all issues in one pass,
+// so a client gets every field error at once.
+
+/**
+ * A single field error
+ */
+export interface ValidationIssue {
+  field: string; // Dotted path, e.g. "customer.email" or "cardTokens[3]"
+  message: string;
+}
+
+export interface Schema<T> {
+  readonly isOptional: boolean;
+  validate(value: unknown, path: string, issues: ValidationIssue[]): T | undefined;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectType<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function issue(issues: ValidationIssue[], path: string, message: string): undefined {
+  issues.push({ field: path || '(root)', message });
+  return undefined;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a value against a schema
+ */
+export function parse<T>(schema: Schema<T>, value: unknown): ParseResult<T> {
+  const issues: ValidationIssue[] = [];
+  const data = schema.validate(value, '', issues);
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: data as T };
+}
+
+/**
+ * Make a schema optional: a missing (or null) value is accepted and dropped
+ */
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    isOptional: true,
+    validate(value, path, issues) {
+      if (isMissing(value)) return undefined;
+      return schema.validate(value, path, issues);
+    },
+  };
+}
+
+export interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  format?: 'email' | 'url' | 'date-time';
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      if (typeof value !== 'string') return issue(issues, path, 'must be a string');
+      if (options.min !== undefined && value.length < options.min) {
+        return issue(issues, path, `must be at least ${options.min} characters`);
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return issue(issues, path, `must be ${options.max} characters or less`);
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        return issue(issues, path, options.patternMessage ?? `must match ${options.pattern}`);
+      }
+      if (options.format === 'email' && !EMAIL_PATTERN.test(value)) {
+        return issue(issues, path, 'must be a valid email address');
+      }
+      if (options.format === 'url' && !isHttpUrl(value)) {
+        return issue(issues, path, 'must be an http(s) URL');
+      }
+      if (options.format === 'date-time' && isNaN(new Date(value).getTime())) {
+        return issue(issues, path, 'must be an ISO 8601 date');
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * One of a fixed set of string values
+ */
+export function oneOf<const V extends string>(values: readonly V[]): Schema<V> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      if (typeof value !== 'string' || !values.includes(value as V)) {
+        return issue(issues, path, `must be one of: ${values.join(', ')}`);
+      }
+      return value as V;
+    },
+  };
+}
+
+export interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  coerce?: boolean; // Accept numeric strings (query parameters)
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      const parsed = options.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return issue(issues, path, 'must be a number');
+      if (options.integer && !Number.isInteger(parsed)) return issue(issues, path, 'must be an integer');
+      if (options.min !== undefined && parsed < options.min) return issue(issues, path, `must be at least ${options.min}`);
+      if (options.max !== undefined && parsed > options.max) return issue(issues, path, `must be at most ${options.max}`);
+      return parsed;
+    },
+  };
+}
+
+export function boolean(options: { coerce?: boolean } = {}): Schema<boolean> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      if (options.coerce && (value === 'true' || value === 'false')) return value === 'true';
+      if (typeof value !== 'boolean') return issue(issues, path, 'must be a boolean');
+      return value;
+    },
+  };
+}
+
+/**
+ * ISO 8601 date string converted to a Date (query parameters)
+ */
+export function date(): Schema<Date> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      const parsed = typeof value === 'string' ? new Date(value) : undefined;
+      if (!parsed || isNaN(parsed.getTime())) return issue(issues, path, 'must be an ISO 8601 date');
+      return parsed;
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      if (!Array.isArray(value)) return issue(issues, path, 'must be an array');
+      if (options.min !== undefined && value.length < options.min) {
+        return issue(issues, path, `must contain at least ${options.min} item(s)`);
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return issue(issues, path, `must contain at most ${options.max} item(s)`);
+      }
+
+      const result: T[] = [];
+      value.forEach((element, index) => {
+        const parsed = item.validate(element, `${path}[${index}]`, issues);
+        if (parsed !== undefined) result.push(parsed);
+      });
+      return result;
+    },
+  };
+}
+
+/**
+ * Free-form JSON object (e.g. callback metadata), passed through as-is
+ */
+export function record(): Schema<Record<string, unknown>> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      if (typeof value !== 'object' || Array.isArray(value)) return issue(issues, path, 'must be an object');
+      return value as Record<string, unknown>;
+    },
+  };
+}
+
+export interface ObjectOptions<T> {
+  // Cross-field rules, run only when every field is individually valid
+  refine?: (value: T, addIssue: (field: string, message: string) => void) => void;
+}
+
+/**
+ * Object with a fixed set of fields; unknown fields are stripped
+ */
+export function object<S extends Shape>(shape: S, options: ObjectOptions<ObjectType<S>> = {}): Schema<ObjectType<S>> {
+  return {
+    isOptional: false,
+    validate(value, path, issues) {
+      if (isMissing(value)) return issue(issues, path, 'is required');
+      if (typeof value !== 'object' || Array.isArray(value)) return issue(issues, path, 'must be an object');
+
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const issueCount = issues.length;
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.validate(input[key], path ? `${path}.${key}` : key, issues);
+        if (parsed !== undefined) result[key] = parsed;
+      }
+
+      if (options.refine && issues.length === issueCount) {
+        options.refine(result as ObjectType<S>, (field, message) => {
+          issue(issues, path ? `${path}.${field}` : field, message);
+        });
+      }
+
+      return result as ObjectType<S>;
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// Request schemas for /api/subscriptions
+
+import {
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './schema.js';
+import { MERCHANT_TEXT_MAX, callbackSchema, currencyCode, customerSchema } from './payment.schemas.js';
+
+const SUBSCRIPTION_INTERVALS = ['day', 'week', 'month', 'year'] as const;
+const SUBSCRIPTION_STATUSES = ['pending', 'trialing', 'active', 'past_due', 'paused', 'cancelled'] as const;
+
+/**
+ * POST /api/subscriptions/plans
+ */
+export const createPlanSchema = object({
+  name: string({ min: 1, max: 100 }),
+  amount: number({ integer: true, min: 30 }),
+  currencyCode: optional(currencyCode),
+  interval: oneOf(SUBSCRIPTION_INTERVALS),
+  intervalCount: optional(number({ integer: true, min: 1, max: 365 })),
+  trialDays: optional(number({ integer: true, min: 0, max: 730 })),
+});
+
+/**
+ * PATCH /api/subscriptions/plans/:planId
+ */
+export const updatePlanSchema = object({
+  name: optional(string({ min: 1, max: 100 })),
+  active: optional(boolean()),
+}, {
+  refine(update, addIssue) {
+    if (Object.keys(update).length === 0) {
+      addIssue('(root)', 'at least one of name, active is required');
+    }
+  },
+});
+
+/**
+ * POST /api/subscriptions
+ */
+export const createSubscriptionSchema = object({
+  planId: string({ min: 1 }),
+  customer: optional(customerSchema),
+  customerTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  merchantTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  sourceCode: optional(string({ min: 1 })),
+  callback: optional(callbackSchema),
+});
+
+/**
+ * PATCH /api/subscriptions/:subscriptionId
+ */
+export const updateSubscriptionSchema = object({
+  planId: optional(string({ min: 1 })),
+  merchantTrns: optional(string({ min: 1, max: MERCHANT_TEXT_MAX })),
+  callback: optional(callbackSchema),
+}, {
+  refine(update, addIssue) {
+    if (Object.keys(update).length === 0) {
+      addIssue('(root)', 'at least one of planId, merchantTrns, callback is required');
+    }
+  },
+});
+
+/**
+ * POST /api/subscriptions/:subscriptionId/cancel
+ */
+export const cancelSubscriptionSchema = object({
+  atPeriodEnd: optional(boolean()),
+});
+
+/**
+ * GET /api/subscriptions (query)
+ */
+export const listSubscriptionsQuerySchema = object({
+  status: optional(oneOf(SUBSCRIPTION_STATUSES)),
+  planId: optional(string({ min: 1 })),
+});
@@ -0,0 +1,174 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { startTestEnvironment, TEST_MERCHANT } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const ADMIN_API_KEY = 'test-admin-key';
+
+describe('admin routes', () => {
+  let env: TestEnvironment;
+  let admin: AxiosInstance;
+  let storageDir: string;
+
+  // Client authenticated with a merchant API key
+  const withKey = (apiKey: string) => ({ headers: { 'X-Api-Key': apiKey } });
+
+  before(async () => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'admin-store-'));
+    env = await startTestEnvironment({ ADMIN_API_KEY, STORAGE_DRIVER: 'file', STORAGE_DIR: storageDir });
+    admin = axios.create({ baseURL: env.baseUrl, headers: { 'X-Admin-Key': ADMIN_API_KEY }, validateStatus: () => true });
+  });
+
+  after(async () => {
+    await env.close();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('requires the admin key', async () => {
+    assert.equal((await env.http.get('/api/admin/merchants')).status, 401);
+    assert.equal((await env.api.get('/api/admin/merchants')).status, 401);
+    const wrong = await env.http.get('/api/admin/merchants', { headers: { 'X-Admin-Key': 'nope' } });
+    assert.equal(wrong.status, 401);
+
+    delete process.env.ADMIN_API_KEY;
+    try {
+      assert.equal((await admin.get('/api/admin/merchants')).status, 404);
+    } finally {
+      process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+    }
+  });
+
+  it('lists configured merchants without their secrets', async () => {
+    const response = await admin.get('/api/admin/merchants');
+    assert.equal(response.status, 200);
+    const shop = response.data.merchants.find((m: { merchantKey: string }) => m.merchantKey === TEST_MERCHANT.merchantKey);
+    assert.equal(shop.source, 'config');
+    assert.equal(shop.disabled, false);
+    assert.deepEqual(shop.apiKeys.map((k: { source: string; scopes: string[] }) => [k.source, k.scopes]), [['config', ['*']]]);
+    assert.equal(shop.webhookSecretSet, true);
+    assert.equal(shop.viva.clientId, TEST_MERCHANT.clientId);
+    assert.ok(!JSON.stringify(response.data).includes(TEST_MERCHANT.clientSecret));
+    assert.ok(!JSON.stringify(response.data).includes(TEST_MERCHANT.apiKey));
+  });
+
+  it('onboards a merchant with a working API key, persisted', async () => {
+    const created = await admin.post('/api/admin/merchants', {
+      merchantKey: 'new_shop',
+      environment: 'mock',
+      viva: { clientId: TEST_MERCHANT.clientId, clientSecret: TEST_MERCHANT.clientSecret, merchantId: TEST_MERCHANT.merchantId, apiKey: TEST_MERCHANT.vivaApiKey },
+      apiKeyLabel: 'web',
+    });
+    assert.equal(created.status, 201);
+    assert.equal(created.data.merchant.source, 'admin');
+    assert.equal(created.data.apiKey.label, 'web');
+    const { key } = created.data.apiKey;
+    assert.match(key, /^sk_/);
+    assert.equal(created.data.merchant.apiKeys[0].key, undefined);
+
+    const order = await env.http.post('/api/payments/orders', { amount: 1000 }, withKey(key));
+    assert.equal(order.status, 201);
+
+    // Only the hash is kept
+    const persisted = fs.readFileSync(path.join(storageDir, 'merchant-records.json'), 'utf8');
+    assert.ok(persisted.includes('new_shop'));
+    assert.ok(!persisted.includes(key));
+    assert.ok(persisted.includes(crypto.createHash('sha256').update(key).digest('hex')));
+
+    const duplicate = await admin.post('/api/admin/merchants', {
+      merchantKey: TEST_MERCHANT.merchantKey,
+      viva: { clientId: 'x', clientSecret: 'y' },
+    });
+    assert.equal(duplicate.status, 409);
+
+    const invalid = await admin.post('/api/admin/merchants', { merchantKey: 'bad key', viva: {} });
+    assert.equal(invalid.status, 400);
+  });
+
+  it('rotates API keys with an overlap', async () => {
+    const issued = await admin.post(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys`, { label: 'rotated' });
+    assert.equal(issued.status, 201);
+    const { id, key } = issued.data.apiKey;
+
+    // Old and new keys both work
+    assert.equal((await env.api.get('/api/payments/orders')).status, 200);
+    assert.equal((await env.http.get('/api/payments/orders', withKey(key))).status, 200);
+
+    const second = (await admin.post(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys`, {})).data.apiKey;
+    const graced = await admin.delete(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys/${id}`, { params: { graceSeconds: 60 } });
+    assert.equal(graced.status, 200);
+    assert.equal(graced.data.apiKey.active, true);
+    assert.ok(graced.data.apiKey.revokedAt);
+    assert.equal((await env.http.get('/api/payments/orders', withKey(key))).status, 200);
+
+    const revoked = await admin.delete(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys/${id}`);
+    assert.equal(revoked.data.apiKey.active, false);
+    assert.equal((await env.http.get('/api/payments/orders', withKey(key))).status, 401);
+    assert.equal((await env.http.get('/api/payments/orders', withKey(second.key))).status, 200);
+
+    const missing = await admin.delete(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys/key_unknown`);
+    assert.equal(missing.status, 404);
+
+    const configured = await admin.delete(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys/config_env`);
+    assert.equal(configured.status, 409);
+    assert.equal((await env.api.get('/api/payments/orders')).status, 200);
+  });
+
+  it('enforces API key scopes per route and tracks last use', async () => {
+    const issued = await admin.post(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys`, {
+      label: 'reporting',
+      scopes: ['orders:read', 'reports:read'],
+    });
+    assert.equal(issued.status, 201);
+    const { id, key } = issued.data.apiKey;
+    assert.deepEqual(issued.data.apiKey.scopes, ['orders:read', 'reports:read']);
+
+    assert.equal((await env.http.get('/api/payments/orders', withKey(key))).status, 200);
+    const forbidden = await env.http.post('/api/payments/orders', { amount: 1000 }, withKey(key));
+    assert.equal(forbidden.status, 403);
+    assert.equal(forbidden.data.requiredScope, 'orders:write');
+    assert.equal((await env.http.post('/api/payments/transactions/abc/refund', { amount: 100 }, withKey(key))).status, 403);
+    assert.equal((await env.http.get('/api/wallets', withKey(key))).status, 403);
+    assert.equal((await env.http.get('/api/subscriptions', withKey(key))).status, 403);
+    // Re-emitting missed events from the status check is a write
+    const reemit = await env.http.get('/api/payments/orders/123/status', { ...withKey(key), params: { reemit: true } });
+    assert.equal(reemit.status, 403);
+    assert.equal(reemit.data.requiredScope, 'orders:write');
+
+    const merchant = (await admin.get(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}`)).data.merchant;
+    const listed = merchant.apiKeys.find((k: { id: string }) => k.id === id);
+    assert.ok(listed.lastUsedAt);
+    assert.equal(listed.lastFour, key.slice(-4));
+    assert.equal(listed.keyHash, undefined);
+
+    const invalid = await admin.post(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}/api-keys`, { scopes: ['orders:delete'] });
+    assert.equal(invalid.status, 400);
+  });
+
+  it('disables, updates and re-enables a merchant', async () => {
+    const disabled = await admin.patch(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}`, { disabled: true });
+    assert.equal(disabled.status, 200);
+    assert.equal(disabled.data.merchant.disabled, true);
+    assert.equal((await env.api.get('/api/payments/orders')).status, 401);
+    assert.equal((await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, {})).status, 404);
+
+    const { getServiceByMerchantKey } = await import('../src/services/merchant.service.js');
+    const updated = await admin.patch(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}`, {
+      disabled: false,
+      viva: { sourceCode: 'Shop2' },
+    });
+    assert.equal(updated.data.merchant.disabled, false);
+    assert.equal(updated.data.merchant.overridden, true);
+    assert.equal(updated.data.merchant.viva.sourceCode, 'Shop2');
+    assert.equal(getServiceByMerchantKey(TEST_MERCHANT.merchantKey)?.config.vivaConfig.sourceCode, 'Shop2');
+    assert.equal((await env.api.get('/api/payments/orders')).status, 200);
+
+    assert.equal((await admin.patch(`/api/admin/merchants/${TEST_MERCHANT.merchantKey}`, {})).status, 400);
+    assert.equal((await admin.patch('/api/admin/merchants/unknown', { disabled: true })).status, 404);
+  });
+});
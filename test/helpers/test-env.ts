@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import type { MockVivaServerOptions } from '../../src/mock/viva-mock.server.js';
+
+/**
+ * Merchant used by every test, served by the mock Viva server
+ */
+export const TEST_MERCHANT = {
+  merchantKey: 'shop',
+  apiKey: 'sk_test_shop',
+  clientId: 'shop-client',
+  clientSecret: 'shop-client-secret',
+  merchantId: 'shop-merchant-id',
+  vivaApiKey: 'shop-viva-api-key',
+  webhookSecret: 'shop-viva-webhook-secret',
+};
+
+/**
+ * A request received by the local callback receiver
+ */
+export interface ReceivedCallback {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  rawBody: string;
+  body: any;
+}
+
+export interface TestEnvironment {
+  baseUrl: string; // Middleware
+  mockUrl: string; // Mock Viva server
+  callbackUrl: string; // Local callback receiver
+  received: ReceivedCallback[];
+  api: AxiosInstance; // Authenticated client for the middleware (never throws on status)
+  http: AxiosInstance; // Unauthenticated client (never throws on status)
+  setCallbackStatus(status: number): void;
+  setVivaWebhooks(enabled: boolean): void; // Simulate lost Viva webhooks
+  close(): Promise<void>;
+}
+
+function listen(app: express.Express): Promise<{ server: http.Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}` });
+    });
+  });
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+}
+
+/**
+ * Silence the app's request and event logging unless TEST_VERBOSE is set
+ */
+function silenceConsole(): void {
+  if (process.env.TEST_VERBOSE) return;
+  console.log = () => {};
+  console.warn = () => {};
+  console.error = () => {};
+}
+
+/**
+ * Boot the middleware in-process against a local mock Viva server and a
+ * local callback receiver. Env vars are set before the app modules load.
+ */
+export async function startTestEnvironment(extraEnv: Record<string, string> = {}): Promise<TestEnvironment> {
+  silenceConsole();
+
+  const prefix = `MERCHANT_${TEST_MERCHANT.merchantKey}_`;
+  Object.assign(process.env, {
+    NODE_ENV: 'test',
+    STORAGE_DRIVER: 'memory',
+    [`${prefix}API_KEY`]: TEST_MERCHANT.apiKey,
+    [`${prefix}VIVA_ENVIRONMENT`]: 'mock',
+    [`${prefix}VIVA_CLIENT_ID`]: TEST_MERCHANT.clientId,
+    [`${prefix}VIVA_CLIENT_SECRET`]: TEST_MERCHANT.clientSecret,
+    [`${prefix}VIVA_MERCHANT_ID`]: TEST_MERCHANT.merchantId,
+    [`${prefix}VIVA_API_KEY`]: TEST_MERCHANT.vivaApiKey,
+    [`${prefix}VIVA_WEBHOOK_SECRET`]: TEST_MERCHANT.webhookSecret,
+    ...extraEnv,
+  });
+
+  // Callback receiver: records every request with its exact body bytes
+  const received: ReceivedCallback[] = [];
+  let callbackStatus = 200;
+  const receiverApp = express();
+  receiverApp.use(express.raw({ type: '*/*' }));
+  receiverApp.use((req, res) => {
+    const rawBody = (req.body as Buffer).toString('utf8');
+    received.push({ path: req.path, headers: req.headers, rawBody, body: rawBody ? JSON.parse(rawBody) : undefined });
+    res.status(callbackStatus).json({ received: true });
+  });
+  const receiver = await listen(receiverApp);
+
+  const { createApp } = await import('../../src/app.js');
+  const { createVivaMockServer } = await import('../../src/mock/viva-mock.server.js');
+  const { loadMerchantConfigs } = await import('../../src/config/merchant.config.js');
+
+  const middleware = await listen(createApp());
+  const mockOptions: MockVivaServerOptions = {
+    accounts: [{
+      merchantKey: TEST_MERCHANT.merchantKey,
+      clientId: TEST_MERCHANT.clientId,
+      clientSecret: TEST_MERCHANT.clientSecret,
+      merchantId: TEST_MERCHANT.merchantId,
+      apiKey: TEST_MERCHANT.vivaApiKey,
+      webhookSecret: TEST_MERCHANT.webhookSecret,
+    }],
+    webhookBaseUrl: middleware.url,
+    successUrl: `${middleware.url}/payment/success`,
+    failureUrl: `${middleware.url}/payment/failure`,
+  };
+  const mock = await listen(createVivaMockServer(mockOptions));
+
+  process.env.VIVA_MOCK_URL = mock.url;
+  loadMerchantConfigs();
+
+  return {
+    baseUrl: middleware.url,
+    mockUrl: mock.url,
+    callbackUrl: receiver.url,
+    received,
+    api: axios.create({
+      baseURL: middleware.url,
+      headers: { 'X-Api-Key': TEST_MERCHANT.apiKey },
+      validateStatus: () => true,
+    }),
+    http: axios.create({
+      baseURL: middleware.url,
+      validateStatus: () => true,
+    }),
+    setCallbackStatus(status: number) {
+      callbackStatus = status;
+    },
+    setVivaWebhooks(enabled: boolean) {
+      mockOptions.sendWebhooks = enabled;
+    },
+    async close() {
+      await Promise.all([close(middleware.server), close(mock.server), close(receiver.server)]);
+    },
+  };
+}
+
+/**
+ * Complete (or decline) an order on the mock hosted checkout page.
+ * Returns the browser redirect location.
+ */
+export async function payOrder(
+  env: TestEnvironment,
+  orderCode: number,
+  options: { cardNumber?: string; action?: 'pay' | 'cancel'; amount?: number } = {}
+): Promise<string> {
+  const form = new URLSearchParams({
+    ref: String(orderCode),
+    action: options.action ?? 'pay',
+    cardNumber: options.cardNumber ?? '4111111111111111',
+  });
+  if (options.amount !== undefined) {
+    form.set('amount', String(options.amount));
+  }
+
+  const response = await axios.post(`${env.mockUrl}/web/checkout/pay`, form.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    maxRedirects: 0,
+    validateStatus: () => true,
+  });
+
+  return response.headers['location'] as string;
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature of a body
+ */
+export function sign(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
@@ -0,0 +1,109 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startTestEnvironment, TEST_MERCHANT } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const OTHER_API_KEY = 'sk_test_other_shop_key';
+
+// Registry entry for a merchant served by the mock Viva server
+function yamlMerchant(merchantKey: string, apiKey: string, clientSecret = TEST_MERCHANT.clientSecret): string {
+  return [
+    `  - merchantKey: ${merchantKey}`,
+    '    environment: mock',
+    `    apiKey: ${apiKey}`,
+    `    webhookSecret: ${TEST_MERCHANT.webhookSecret}`,
+    '    viva:',
+    `      clientId: ${TEST_MERCHANT.clientId}`,
+    `      clientSecret: ${clientSecret}`,
+    `      merchantId: ${TEST_MERCHANT.merchantId}`,
+    `      apiKey: ${TEST_MERCHANT.vivaApiKey}`,
+  ].join('\n');
+}
+
+describe('merchant registry file', () => {
+  let env: TestEnvironment;
+  let dir: string;
+  let file: string;
+
+  before(async () => {
+    env = await startTestEnvironment();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merchants-'));
+    file = path.join(dir, 'merchants.yaml');
+  });
+
+  after(async () => {
+    const { unwatchMerchantsFile } = await import('../src/config/merchant.config.js');
+    unwatchMerchantsFile();
+    delete process.env.MERCHANTS_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+    await env.close();
+  });
+
+  function writeRegistry(...merchants: string[]): void {
+    fs.writeFileSync(file, `merchants:\n${merchants.join('\n')}\n`);
+  }
+
+  // Wait for the watcher to pick up a change
+  async function waitFor(check: () => boolean): Promise<void> {
+    for (let attempt = 0; attempt < 100 && !check(); attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assert.ok(check(), 'registry was not reloaded');
+  }
+
+  it('loads merchants from YAML, including keys with underscores', async () => {
+    const { loadMerchantConfigs } = await import('../src/config/merchant.config.js');
+    writeRegistry(yamlMerchant(TEST_MERCHANT.merchantKey, TEST_MERCHANT.apiKey), yamlMerchant('other_shop', OTHER_API_KEY));
+    process.env.MERCHANTS_FILE = file;
+    assert.equal(loadMerchantConfigs(), true);
+
+    const created = await env.http.post('/api/payments/orders', { amount: 1000 }, { headers: { 'X-Api-Key': OTHER_API_KEY } });
+    assert.equal(created.status, 201);
+    assert.equal((await env.api.get('/api/wallets')).status, 200);
+  });
+
+  it('keeps the current merchants when the file is invalid', async () => {
+    const { loadMerchantConfigs, getMerchantByKey, hashApiKey } = await import('../src/config/merchant.config.js');
+    writeRegistry(yamlMerchant('other_shop', OTHER_API_KEY), yamlMerchant('other_shop', 'sk_test_duplicate_key'));
+    assert.equal(loadMerchantConfigs(), false);
+
+    fs.writeFileSync(file, 'merchants:\n  - merchantKey: "bad key"\n');
+    assert.equal(loadMerchantConfigs(), false);
+
+    assert.equal(getMerchantByKey('other_shop')?.apiKeys[0]?.keyHash, hashApiKey(OTHER_API_KEY));
+  });
+
+  it('hot-reloads changes and replaces services whose credentials changed', async () => {
+    const { watchMerchantsFile, getMerchantByKey } = await import('../src/config/merchant.config.js');
+    const { getServiceByMerchantKey } = await import('../src/services/merchant.service.js');
+    writeRegistry(yamlMerchant(TEST_MERCHANT.merchantKey, TEST_MERCHANT.apiKey), yamlMerchant('other_shop', OTHER_API_KEY));
+    watchMerchantsFile();
+
+    const shopService = getServiceByMerchantKey(TEST_MERCHANT.merchantKey)?.service;
+    const otherService = getServiceByMerchantKey('other_shop')?.service;
+
+    // New API key for shop, new credentials for other_shop, a new merchant
+    writeRegistry(
+      yamlMerchant(TEST_MERCHANT.merchantKey, 'sk_test_rotated_shop_key'),
+      yamlMerchant('other_shop', OTHER_API_KEY, 'rotated-secret'),
+      yamlMerchant('third-shop', 'sk_test_third_shop_key'),
+    );
+    await waitFor(() => getMerchantByKey('third-shop') !== undefined);
+
+    assert.equal(getServiceByMerchantKey(TEST_MERCHANT.merchantKey)?.service, shopService);
+    assert.notEqual(getServiceByMerchantKey('other_shop')?.service, otherService);
+    assert.equal((await env.api.get('/api/wallets')).status, 401);
+    const rotated = await env.http.get('/api/wallets', { headers: { 'X-Api-Key': 'sk_test_rotated_shop_key' } });
+    assert.equal(rotated.status, 200);
+
+    // Removing a merchant takes effect too
+    writeRegistry(yamlMerchant(TEST_MERCHANT.merchantKey, TEST_MERCHANT.apiKey));
+    await waitFor(() => getMerchantByKey('third-shop') === undefined);
+    assert.equal((await env.api.get('/api/wallets')).status, 200);
+    const removed = await env.http.get('/api/wallets', { headers: { 'X-Api-Key': OTHER_API_KEY } });
+    assert.equal(removed.status, 401);
+  });
+});
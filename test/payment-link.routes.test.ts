@@ -0,0 +1,185 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, payOrder } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+describe('payment link routes', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment({ PUBLIC_BASE_URL: 'https://pay.example.com/' });
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  beforeEach(() => {
+    env.received.length = 0;
+  });
+
+  async function createLink(body: Record<string, unknown> = {}) {
+    const response = await env.api.post('/api/payment-links', {
+      amount: 2500,
+      description: 'Workshop ticket',
+      ...body,
+    });
+    assert.equal(response.status, 201);
+    return response.data.paymentLink;
+  }
+
+  // Open the link like a browser would; returns the order code of the checkout it redirects to
+  async function visit(slug: string): Promise<number> {
+    const response = await env.http.get(`/pay/${slug}`, { maxRedirects: 0 });
+    assert.equal(response.status, 302);
+    const location = new URL(response.headers['location'] as string);
+    assert.equal(location.pathname, '/web/checkout');
+    return Number(location.searchParams.get('ref'));
+  }
+
+  it('creates a link with a short URL', async () => {
+    const link = await createLink({
+      slug: 'spring-workshop',
+      callback: { webhookUrl: `${env.callbackUrl}/hooks`, secret: 'link-secret' },
+    });
+
+    assert.equal(link.url, 'https://pay.example.com/pay/spring-workshop');
+    assert.equal(link.status, 'active');
+    assert.equal(link.callback.secret, undefined);
+    assert.equal(link.callback.signed, true);
+    assert.deepEqual(link.stats, { visits: 0, payments: 0, paidAmount: 0, conversionRate: 0 });
+
+    const generated = await createLink();
+    assert.match(generated.slug, /^[A-Za-z0-9_-]{8}$/);
+
+    const taken = await env.api.post('/api/payment-links', { amount: 2500, description: 'Other', slug: 'spring-workshop' });
+    assert.equal(taken.status, 409);
+  });
+
+  it('opens a fresh order on every visit and counts payments', async () => {
+    const link = await createLink({
+      callback: { webhookUrl: `${env.callbackUrl}/hooks`, metadata: { campaign: 'spring' } },
+    });
+
+    const first = await visit(link.slug);
+    const second = await visit(link.slug);
+    assert.notEqual(first, second);
+
+    const order = await env.api.get(`/api/payments/orders/${first}`);
+    assert.equal(order.data.order.RequestAmount, 25);
+    assert.equal(order.data.order.CustomerTrns, 'Workshop ticket');
+
+    await payOrder(env, first);
+
+    const success = env.received.find((r) => r.body.event === 'payment.success');
+    assert.ok(success);
+    assert.deepEqual(success.body.data.metadata, { campaign: 'spring', paymentLink: link.slug });
+
+    const stats = (await env.api.get(`/api/payment-links/${link.slug}`)).data.paymentLink.stats;
+    assert.equal(stats.visits, 2);
+    assert.equal(stats.payments, 1);
+    assert.equal(stats.paidAmount, 2500);
+    assert.equal(stats.conversionRate, 0.5);
+  });
+
+  it('sends a returning visitor back to their open checkout', async () => {
+    const link = await createLink();
+
+    const response = await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0 });
+    const cookie = (response.headers['set-cookie'] ?? [])[0]?.split(';')[0];
+    assert.ok(cookie?.startsWith('pay_session='));
+    const opened = Number(new URL(response.headers['location'] as string).searchParams.get('ref'));
+
+    const again = await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0, headers: { Cookie: cookie } });
+    assert.equal(Number(new URL(again.headers['location'] as string).searchParams.get('ref')), opened);
+
+    // Once paid, the next visit opens a new order
+    await payOrder(env, opened);
+    const afterPayment = await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0, headers: { Cookie: cookie } });
+    assert.notEqual(Number(new URL(afterPayment.headers['location'] as string).searchParams.get('ref')), opened);
+
+    const stats = (await env.api.get(`/api/payment-links/${link.slug}`)).data.paymentLink.stats;
+    assert.equal(stats.visits, 2);
+  });
+
+  it('limits the checkouts one client opens through a link', async () => {
+    const link = await createLink();
+
+    for (let i = 0; i < 5; i++) {
+      await visit(link.slug);
+    }
+
+    const limited = await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0 });
+    assert.equal(limited.status, 429);
+    assert.equal(limited.data.group, 'pay_link');
+    assert.ok(Number(limited.headers['retry-after']) > 0);
+
+    // Other links are limited separately
+    await visit((await createLink()).slug);
+  });
+
+  it('lets the customer choose the amount', async () => {
+    const link = await createLink({ disableExactAmount: true, amount: 1000 });
+
+    const orderCode = await visit(link.slug);
+    await payOrder(env, orderCode, { amount: 4200 });
+
+    const stats = (await env.api.get(`/api/payment-links/${link.slug}`)).data.paymentLink.stats;
+    assert.equal(stats.paidAmount, 4200);
+  });
+
+  it('closes the link after maxUses payments', async () => {
+    const link = await createLink({ maxUses: 1 });
+
+    await payOrder(env, await visit(link.slug));
+
+    const closed = await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0 });
+    assert.equal(closed.status, 410);
+    assert.equal(closed.data.status, 'exhausted');
+
+    const list = await env.api.get('/api/payment-links', { params: { status: 'exhausted' } });
+    assert.ok(list.data.paymentLinks.some((l: { slug: string }) => l.slug === link.slug));
+  });
+
+  it('counts orders that can still be paid towards maxUses', async () => {
+    const link = await createLink({ maxUses: 2 });
+
+    const first = await visit(link.slug);
+    await visit(link.slug);
+
+    const full = await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0 });
+    assert.equal(full.status, 409);
+    assert.equal(full.data.status, 'active');
+
+    // A payment uses one of the two uses for good
+    await payOrder(env, first);
+    assert.equal((await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0 })).status, 409);
+
+    const fetched = await env.api.get(`/api/payment-links/${link.slug}`);
+    assert.equal(fetched.data.paymentLink.status, 'active');
+    assert.equal(fetched.data.paymentLink.openOrders, undefined);
+  });
+
+  it('stops opening orders once deactivated or expired', async () => {
+    const link = await createLink();
+
+    const deleted = await env.api.delete(`/api/payment-links/${link.slug}`);
+    assert.equal(deleted.data.paymentLink.status, 'inactive');
+    assert.equal((await env.http.get(`/pay/${link.slug}`, { maxRedirects: 0 })).status, 410);
+
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const reopened = await env.api.patch(`/api/payment-links/${link.slug}`, { active: true, expiresAt });
+    assert.equal(reopened.data.paymentLink.status, 'active');
+    assert.equal(reopened.data.paymentLink.expiresAt, expiresAt);
+
+    const past = await env.api.patch(`/api/payment-links/${link.slug}`, { expiresAt: '2020-01-01T00:00:00Z' });
+    assert.equal(past.status, 400);
+    assert.equal(past.data.details[0].field, 'expiresAt');
+  });
+
+  it('returns 404 for unknown links and requires auth to manage them', async () => {
+    assert.equal((await env.http.get('/pay/no-such-link', { maxRedirects: 0 })).status, 404);
+    assert.equal((await env.api.get('/api/payment-links/no-such-link')).status, 404);
+    assert.equal((await env.http.get('/api/payment-links')).status, 401);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { startTestEnvironment, payOrder } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const SHOP_SUCCESS_URL = 'https://shop.example.com/thanks?cart=7';
+const SHOP_FAILURE_URL = 'https://shop.example.com/oops';
+
+describe('payment redirect routes', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  async function createOrder(callback?: Record<string, unknown>): Promise<number> {
+    const response = await env.api.post('/api/payments/orders', { amount: 2500, ...(callback ? { callback } : {}) });
+    assert.equal(response.status, 201);
+    return response.data.orderCode;
+  }
+
+  // Follow Viva's browser redirect back to the middleware, without following the next one
+  async function returnFromCheckout(location: string) {
+    const url = new URL(location);
+    return env.http.get(`${url.pathname}${url.search}`, { maxRedirects: 0 });
+  }
+
+  // Recompute the signature the way a merchant would
+  function verifySignature(url: URL, secret: string): boolean {
+    const params = new URLSearchParams();
+    for (const name of ['orderCode', 'transactionId', 'status', 'amount', 'timestamp']) {
+      const value = url.searchParams.get(name);
+      if (value !== null) params.set(name, value);
+    }
+    params.sort();
+    const expected = crypto.createHmac('sha256', secret).update(params.toString()).digest('hex');
+    return url.searchParams.get('signature') === expected;
+  }
+
+  it('redirects a verified payment to the merchant page with a signed query string', async () => {
+    const orderCode = await createOrder({
+      redirectSuccessUrl: SHOP_SUCCESS_URL,
+      redirectFailureUrl: SHOP_FAILURE_URL,
+      secret: 'redirect-secret',
+    });
+    const location = await payOrder(env, orderCode);
+    const transactionId = new URL(location).searchParams.get('t');
+
+    const response = await returnFromCheckout(location);
+    assert.equal(response.status, 302);
+
+    const target = new URL(response.headers['location'] as string);
+    assert.equal(`${target.origin}${target.pathname}`, 'https://shop.example.com/thanks');
+    assert.equal(target.searchParams.get('cart'), '7');
+    assert.equal(target.searchParams.get('orderCode'), String(orderCode));
+    assert.equal(target.searchParams.get('transactionId'), transactionId);
+    assert.equal(target.searchParams.get('status'), 'success');
+    assert.equal(target.searchParams.get('amount'), '2500');
+    assert.ok(verifySignature(target, 'redirect-secret'));
+
+    target.searchParams.set('amount', '1');
+    assert.ok(!verifySignature(target, 'redirect-secret'));
+  });
+
+  it('sends declined payments to the failure page', async () => {
+    const orderCode = await createOrder({
+      redirectSuccessUrl: SHOP_SUCCESS_URL,
+      redirectFailureUrl: SHOP_FAILURE_URL,
+      secret: 'redirect-secret',
+    });
+    const location = await payOrder(env, orderCode, { cardNumber: '4000000000000002' });
+
+    const target = new URL((await returnFromCheckout(location)).headers['location'] as string);
+    assert.equal(`${target.origin}${target.pathname}`, SHOP_FAILURE_URL);
+    assert.equal(target.searchParams.get('status'), 'failed');
+    assert.ok(verifySignature(target, 'redirect-secret'));
+  });
+
+  it('does not trust the landing page or a transaction of another order', async () => {
+    const callback = { redirectSuccessUrl: SHOP_SUCCESS_URL, redirectFailureUrl: SHOP_FAILURE_URL, secret: 'redirect-secret' };
+    const declined = await createOrder(callback);
+    const declinedLocation = new URL(await payOrder(env, declined, { cardNumber: '4000000000000002' }));
+
+    // A declined payment sent to /payment/success
+    const forged = await env.http.get(`/payment/success${declinedLocation.search}`, { maxRedirects: 0 });
+    assert.equal(new URL(forged.headers['location'] as string).searchParams.get('status'), 'failed');
+
+    // Another order's successful transaction
+    const paid = await createOrder();
+    const paidTransactionId = new URL(await payOrder(env, paid)).searchParams.get('t');
+    const swapped = await env.http.get('/payment/success', { params: { t: paidTransactionId, s: declined }, maxRedirects: 0 });
+    const target = new URL(swapped.headers['location'] as string);
+    assert.equal(target.searchParams.get('status'), 'failed');
+    assert.equal(target.searchParams.get('transactionId'), null);
+  });
+
+  it('shows the verified result when the order has no redirect URL', async () => {
+    const orderCode = await createOrder();
+    const response = await returnFromCheckout(await payOrder(env, orderCode));
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data.success, true);
+    assert.equal(response.data.status, 'success');
+    assert.equal(response.data.orderCode, String(orderCode));
+  });
+
+  it('falls back to the configured result page', async () => {
+    process.env.PAYMENT_RESULT_PAGE_URL = 'https://pay.example.com/result';
+    try {
+      const orderCode = await createOrder();
+      const response = await returnFromCheckout(await payOrder(env, orderCode, { cardNumber: '4000000000000002' }));
+
+      assert.equal(response.status, 302);
+      const target = new URL(response.headers['location'] as string);
+      assert.equal(`${target.origin}${target.pathname}`, 'https://pay.example.com/result');
+      assert.equal(target.searchParams.get('status'), 'failed');
+    } finally {
+      delete process.env.PAYMENT_RESULT_PAGE_URL;
+    }
+  });
+
+  it('rejects unknown orders and missing order codes', async () => {
+    assert.equal((await env.http.get('/payment/success', { params: { s: '999999999' } })).status, 404);
+    assert.equal((await env.http.get('/payment/success')).status, 400);
+  });
+});
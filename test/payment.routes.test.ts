@@ -0,0 +1,713 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, payOrder } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+describe('payment routes', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    // This suite sends more writes than the default orders burst
+    env = await startTestEnvironment({ RATE_LIMIT_ORDERS_BURST: '500' });
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  describe('authentication', () => {
+    it('rejects requests without X-Api-Key', async () => {
+      const response = await env.http.post('/api/payments/orders', { amount: 1000 });
+      assert.equal(response.status, 401);
+      assert.equal(response.data.error, 'Missing X-Api-Key header');
+    });
+
+    it('rejects an unknown API key', async () => {
+      const response = await env.http.get('/api/wallets', { headers: { 'X-Api-Key': 'sk_wrong' } });
+      assert.equal(response.status, 401);
+      assert.equal(response.data.error, 'Invalid API key');
+    });
+
+    it('accepts a valid API key', async () => {
+      const response = await env.api.get('/api/wallets');
+      assert.equal(response.status, 200);
+      assert.equal(response.data.success, true);
+      assert.equal(response.data.wallets.length, 1);
+    });
+  });
+
+  describe('POST /api/payments/orders validation', () => {
+    const cases: Array<[string, Record<string, unknown>]> = [
+      ['a missing amount', {}],
+      ['an amount below 30 cents', { amount: 29 }],
+      ['a non-zero amount for card verification', { amount: 100, isCardVerification: true }],
+      ['a dynamicDescriptor over 13 characters', { amount: 1000, dynamicDescriptor: 'ABCDEFGHIJKLMN' }],
+      ['more than 10 card tokens', { amount: 1000, cardTokens: Array.from({ length: 11 }, (_, i) => `tok${i}`) }],
+      ['maxInstallments above 36', { amount: 1000, maxInstallments: 37 }],
+      ['stateId without urlFail', { amount: 1000, stateId: 1 }],
+      ['urlFail without stateId', { amount: 1000, urlFail: 'https://shop.example/expired' }],
+    ];
+
+    for (const [description, body] of cases) {
+      it(`rejects ${description}`, async () => {
+        const response = await env.api.post('/api/payments/orders', body);
+        assert.equal(response.status, 400);
+      });
+    }
+
+    it('accepts a card verification with amount 0', async () => {
+      const response = await env.api.post('/api/payments/orders', { amount: 0, isCardVerification: true });
+      assert.equal(response.status, 201);
+    });
+
+    it('reports every invalid field at once', async () => {
+      const response = await env.api.post('/api/payments/orders', {
+        amount: '1000',
+        customer: { email: 'not-an-email' },
+        callback: { webhookUrl: 'ftp://shop.example/hook' },
+      });
+      assert.equal(response.status, 400);
+      assert.equal(response.data.error, 'Validation failed');
+      assert.deepEqual(
+        response.data.details.map((detail: { field: string }) => detail.field),
+        ['amount', 'customer.email', 'callback.webhookUrl'],
+      );
+    });
+  });
+
+  describe('query validation', () => {
+    it('rejects an out-of-range list limit', async () => {
+      const response = await env.api.get('/api/payments/orders?limit=500');
+      assert.equal(response.status, 400);
+      assert.equal(response.data.details[0].field, 'limit');
+    });
+
+    it('rejects an unknown transaction kind', async () => {
+      const response = await env.api.get('/api/payments/transactions?kind=chargeback');
+      assert.equal(response.status, 400);
+      assert.equal(response.data.details[0].field, 'kind');
+    });
+  });
+
+  describe('order lifecycle', () => {
+    it('creates an order with a checkout URL and retrieves it', async () => {
+      const created = await env.api.post('/api/payments/orders', {
+        amount: 2500,
+        merchantTrns: 'ORD-1',
+        tags: ['web'],
+      });
+      assert.equal(created.status, 201);
+      assert.ok(created.data.orderCode);
+      assert.equal(created.data.checkoutUrl, `${env.mockUrl}/web/checkout?ref=${created.data.orderCode}`);
+
+      const order = await env.api.get(`/api/payments/orders/${created.data.orderCode}`);
+      assert.equal(order.status, 200);
+      assert.equal(order.data.order.RequestAmount, 25);
+      assert.equal(order.data.order.MerchantTrns, 'ORD-1');
+    });
+
+    it('cancels an order', async () => {
+      const created = await env.api.post('/api/payments/orders', { amount: 1000 });
+      const cancelled = await env.api.delete(`/api/payments/orders/${created.data.orderCode}`);
+      assert.equal(cancelled.status, 200);
+
+      const listed = await env.api.get('/api/payments/orders', { params: { status: 'cancelled' } });
+      assert.ok(listed.data.orders.some((o: { orderCode: string }) => o.orderCode === String(created.data.orderCode)));
+    });
+
+    it('rejects an invalid order code', async () => {
+      const response = await env.api.get('/api/payments/orders/not-a-number');
+      assert.equal(response.status, 400);
+    });
+  });
+
+  describe('refunds', () => {
+    async function paidTransaction(amount: number): Promise<{ orderCode: number; transactionId: string }> {
+      const created = await env.api.post('/api/payments/orders', { amount });
+      const location = await payOrder(env, created.data.orderCode);
+      const transactionId = new URL(location).searchParams.get('t');
+      assert.ok(transactionId);
+      return { orderCode: created.data.orderCode, transactionId };
+    }
+
+    it('issues a partial refund and marks the order partially refunded', async () => {
+      const { orderCode, transactionId } = await paidTransaction(5000);
+
+      const refund = await env.api.delete(`/api/payments/transactions/${transactionId}`, { params: { amount: 2000 } });
+      assert.equal(refund.status, 200);
+      assert.equal(refund.data.transaction.Success, true);
+      assert.equal(refund.data.transaction.Amount, 20);
+
+      const orders = await env.api.get('/api/payments/orders');
+      const order = orders.data.orders.find((o: { orderCode: string }) => o.orderCode === String(orderCode));
+      assert.equal(order.status, 'partially_refunded');
+      assert.equal(order.refundedAmount, 2000);
+    });
+
+    it('issues a fast refund', async () => {
+      const { transactionId } = await paidTransaction(3000);
+
+      const refund = await env.api.post(`/api/payments/transactions/${transactionId}/refund`, { amount: 3000 });
+      assert.equal(refund.status, 200);
+      assert.ok(refund.data.refundTransactionId);
+    });
+
+    it('tracks partial refunds and rejects refunding more than was charged', async () => {
+      const { transactionId } = await paidTransaction(5000);
+
+      const first = await env.api.delete(`/api/payments/transactions/${transactionId}`, {
+        params: { amount: 2000, reason: 'damaged item' },
+      });
+      assert.equal(first.status, 200);
+      assert.equal(first.data.refunds.refundableAmount, 3000);
+
+      const second = await env.api.post(`/api/payments/transactions/${transactionId}/refund`, { amount: 2500, reason: 'late delivery' });
+      assert.equal(second.status, 200);
+
+      const overRefund = await env.api.post(`/api/payments/transactions/${transactionId}/refund`, { amount: 1000 });
+      assert.equal(overRefund.status, 409);
+      assert.equal(overRefund.data.refundableAmount, 500);
+
+      const history = await env.api.get(`/api/payments/transactions/${transactionId}/refunds`);
+      assert.equal(history.status, 200);
+      assert.equal(history.data.refunds.chargedAmount, 5000);
+      assert.equal(history.data.refunds.refundedAmount, 4500);
+      assert.deepEqual(
+        history.data.refunds.refunds.map((r: { amount: number; method: string; reason?: string }) => [r.amount, r.method, r.reason]),
+        [[2000, 'cancel', 'damaged item'], [2500, 'fast_refund', 'late delivery']]
+      );
+
+      // No amount refunds what is left
+      const rest = await env.api.delete(`/api/payments/transactions/${transactionId}`);
+      assert.equal(rest.status, 200);
+      assert.equal(rest.data.refunds.refundableAmount, 0);
+
+      const again = await env.api.delete(`/api/payments/transactions/${transactionId}`);
+      assert.equal(again.status, 409);
+    });
+
+    it('keeps both of two refunds recorded while the history is first loaded', async () => {
+      const { refundService } = await import('../src/services/refund.service.js');
+      const { ledgerService } = await import('../src/services/ledger.service.js');
+      const { transactionId } = await paidTransaction(5000);
+
+      // Not in the ledger: the first load asks Viva for the charged amount
+      const getTransaction = ledgerService.getTransaction;
+      ledgerService.getTransaction = () => undefined;
+      try {
+        await Promise.all([
+          refundService.recordRefund('shop', transactionId, { refundTransactionId: 'refund-a', amount: 1000, method: 'external' }),
+          refundService.recordRefund('shop', transactionId, { refundTransactionId: 'refund-b', amount: 1500, method: 'external' }),
+        ]);
+      } finally {
+        ledgerService.getTransaction = getTransaction;
+      }
+
+      const history = refundService.getRefunds('shop', transactionId)!;
+      assert.equal(history.chargedAmount, 5000);
+      assert.equal(history.refundedAmount, 2500);
+      assert.equal(history.refunds.length, 2);
+    });
+
+    it('starts the history of an untracked payment with the refunds Viva already has', async () => {
+      const { ledgerService } = await import('../src/services/ledger.service.js');
+      const { getServiceByMerchantKey } = await import('../src/services/merchant.service.js');
+      const { transactionId } = await paidTransaction(5000);
+      const viva = getServiceByMerchantKey('shop')!.service;
+
+      // Refunded on Viva before tracking: no webhook reaches the middleware
+      env.setVivaWebhooks(false);
+      const getTransaction = ledgerService.getTransaction;
+      ledgerService.getTransaction = () => undefined;
+      try {
+        const earlier = await viva.cancelTransaction(transactionId, 2000);
+
+        const history = await env.api.get(`/api/payments/transactions/${transactionId}/refunds`);
+        assert.equal(history.status, 200);
+        assert.equal(history.data.refunds.refundedAmount, 2000);
+        assert.equal(history.data.refunds.refundableAmount, 3000);
+        assert.deepEqual(
+          history.data.refunds.refunds.map((r: { refundTransactionId: string; method: string }) => [r.refundTransactionId, r.method]),
+          [[earlier.TransactionId, 'external']]
+        );
+
+        const overRefund = await env.api.post(`/api/payments/transactions/${transactionId}/refund`, { amount: 4000 });
+        assert.equal(overRefund.status, 409);
+      } finally {
+        ledgerService.getTransaction = getTransaction;
+        env.setVivaWebhooks(true);
+      }
+    });
+
+    it('refuses to refund an untracked payment whose earlier refunds cannot be read', async () => {
+      const { ledgerService } = await import('../src/services/ledger.service.js');
+      const { getServiceByMerchantKey } = await import('../src/services/merchant.service.js');
+      const { VivaApiError } = await import('../src/errors/viva-api.error.js');
+      const { transactionId } = await paidTransaction(5000);
+      const viva = getServiceByMerchantKey('shop')!.service;
+
+      const getTransaction = ledgerService.getTransaction;
+      const listTransactions = viva.listTransactions;
+      ledgerService.getTransaction = () => undefined;
+      viva.listTransactions = async () => {
+        throw new VivaApiError('Failed to list transactions', 503);
+      };
+      try {
+        const refund = await env.api.post(`/api/payments/transactions/${transactionId}/refund`, { amount: 1000 });
+        assert.equal(refund.status, 409);
+
+        const history = await env.api.get(`/api/payments/transactions/${transactionId}/refunds`);
+        assert.equal(history.status, 409);
+      } finally {
+        ledgerService.getTransaction = getTransaction;
+        viva.listTransactions = listTransactions;
+      }
+    });
+
+    it('requires an amount for fast refunds', async () => {
+      const { transactionId } = await paidTransaction(3000);
+
+      const refund = await env.api.post(`/api/payments/transactions/${transactionId}/refund`, {});
+      assert.equal(refund.status, 400);
+    });
+
+    it('maps Viva errors to typed responses', async () => {
+      const { transactionId } = await paidTransaction(3000);
+
+      // The order was not created with allowRecurring
+      const recurring = await env.api.post(`/api/payments/transactions/${transactionId}`, { amount: 1000 });
+      assert.equal(recurring.status, 409);
+      assert.equal(recurring.data.code, 'viva_conflict');
+      assert.equal(recurring.data.vivaError.status, 403);
+      assert.ok(recurring.data.correlationId);
+
+      const missing = await env.api.get('/api/payments/transactions/00000000-0000-0000-0000-000000000000');
+      assert.equal(missing.status, 404);
+      assert.equal(missing.data.code, 'viva_not_found');
+      assert.equal(missing.data.error, 'Failed to retrieve transaction');
+    });
+  });
+
+  describe('card vault', () => {
+    async function savedCard(customerRef: string, options: { allowRecurring?: boolean; cardNumber?: string } = {}) {
+      const created = await env.api.post('/api/payments/orders', { amount: 2500, allowRecurring: options.allowRecurring ?? true });
+      const location = await payOrder(env, created.data.orderCode, options.cardNumber ? { cardNumber: options.cardNumber } : {});
+      const transactionId = new URL(location).searchParams.get('t');
+
+      const response = await env.api.post('/api/payments/card-tokens', { transactionId, customerRef });
+      assert.equal(response.status, 201);
+      return response.data.card;
+    }
+
+    it('saves a card with its metadata for the customer', async () => {
+      const card = await savedCard('cust-1', { cardNumber: '5555555555554444' });
+
+      assert.equal(card.lastFour, '4444');
+      assert.equal(card.brand, 'mastercard');
+      assert.equal(card.expiryMonth, 12);
+      assert.equal(card.expiryYear, 2030);
+      assert.ok(card.token);
+
+      const cards = await env.api.get('/api/payments/customers/cust-1/cards');
+      assert.equal(cards.status, 200);
+      assert.deepEqual(cards.data.cards, [{ cardId: card.cardId, brand: 'mastercard', lastFour: '4444' }]);
+
+      const otherCustomer = await env.api.get('/api/payments/customers/cust-2/cards');
+      assert.deepEqual(otherCustomer.data.cards, []);
+    });
+
+    it('rejects ":" in customer references and card IDs', async () => {
+      const saved = await env.api.post('/api/payments/card-tokens', { transactionId: 'any', customerRef: 'cust:1' });
+      assert.equal(saved.status, 400);
+      assert.equal(saved.data.details[0].field, 'customerRef');
+
+      const listed = await env.api.get('/api/payments/customers/shop:cust-1/cards');
+      assert.equal(listed.status, 400);
+
+      const deleted = await env.api.delete('/api/payments/customers/cust-1/cards/cust-1:card');
+      assert.equal(deleted.status, 400);
+      assert.equal(deleted.data.details[0].field, 'cardId');
+    });
+
+    it('keeps one entry when the same card is saved again', async () => {
+      const first = await savedCard('cust-3');
+      const second = await savedCard('cust-3');
+
+      assert.equal(second.cardId, first.cardId);
+      assert.notEqual(second.token, first.token);
+      const cards = await env.api.get('/api/payments/customers/cust-3/cards');
+      assert.equal(cards.data.cards.length, 1);
+    });
+
+    it("offers the customer's saved cards on new orders", async () => {
+      await savedCard('cust-4');
+
+      const created = await env.api.post('/api/payments/orders', { amount: 1000, customerRef: 'cust-4' });
+      assert.equal(created.status, 201);
+
+      const checkout = await env.http.get(created.data.checkoutUrl);
+      assert.match(checkout.data, /class="saved-card">411111\*+1111</);
+    });
+
+    it('charges a saved card', async () => {
+      const { cardVaultService } = await import('../src/services/card-vault.service.js');
+      const card = await savedCard('cust-5');
+
+      const charge = await env.api.post(`/api/payments/customers/cust-5/cards/${card.cardId}/charge`, { amount: 1500 });
+      assert.equal(charge.status, 201);
+      assert.equal(charge.data.transaction.Success, true);
+      assert.equal(charge.data.transaction.Amount, 15);
+
+      assert.ok(cardVaultService.getCard('shop', 'cust-5', card.cardId)?.lastChargedAt);
+    });
+
+    it('refuses to charge a card saved from a one-off payment', async () => {
+      const card = await savedCard('cust-6', { allowRecurring: false });
+
+      const charge = await env.api.post(`/api/payments/customers/cust-6/cards/${card.cardId}/charge`, { amount: 1500 });
+      assert.equal(charge.status, 409);
+    });
+
+    it('deletes a saved card', async () => {
+      const card = await savedCard('cust-7');
+
+      const deleted = await env.api.delete(`/api/payments/customers/cust-7/cards/${card.cardId}`);
+      assert.equal(deleted.status, 200);
+
+      const again = await env.api.delete(`/api/payments/customers/cust-7/cards/${card.cardId}`);
+      assert.equal(again.status, 404);
+    });
+  });
+
+  describe('pre-authorizations', () => {
+    async function openHold(amount: number): Promise<string> {
+      const created = await env.api.post('/api/payments/orders', {
+        amount,
+        preauth: true,
+        callback: { webhookUrl: `${env.callbackUrl}/hooks` },
+      });
+      const location = await payOrder(env, created.data.orderCode);
+      const transactionId = new URL(location).searchParams.get('t');
+      assert.ok(transactionId);
+      return transactionId;
+    }
+
+    function preauthEvents(transactionId: string): string[] {
+      return env.received
+        .filter((r) => r.body.event.startsWith('preauth.') && r.body.data.transactionId === transactionId)
+        .map((r) => r.body.event);
+    }
+
+    it('tracks an open hold from the payment webhook', async () => {
+      const transactionId = await openHold(8000);
+
+      const holds = await env.api.get('/api/payments/preauths');
+      assert.equal(holds.status, 200);
+      const hold = holds.data.preauths.find((h: { transactionId: string }) => h.transactionId === transactionId);
+      assert.equal(hold.status, 'open');
+      assert.equal(hold.amount, 8000);
+      assert.equal(hold.remainingAmount, 8000);
+      assert.equal(new Date(hold.expiresAt).getTime() - new Date(hold.authorizedAt).getTime(), 6 * 24 * 60 * 60 * 1000);
+      assert.equal(hold.callback, undefined);
+    });
+
+    it('captures a hold in several parts up to the authorized amount', async () => {
+      const transactionId = await openHold(8000);
+
+      const first = await env.api.post(`/api/payments/preauths/${transactionId}/capture`, { amount: 3000 });
+      assert.equal(first.status, 201);
+      assert.equal(first.data.preauth.status, 'partially_captured');
+      assert.equal(first.data.preauth.remainingAmount, 5000);
+
+      const tooMuch = await env.api.post(`/api/payments/preauths/${transactionId}/capture`, { amount: 6000 });
+      assert.equal(tooMuch.status, 409);
+      assert.equal(tooMuch.data.remainingAmount, 5000);
+
+      // The generic capture path applies the same check
+      const viaTransactions = await env.api.post(`/api/payments/transactions/${transactionId}`, { amount: 5000 });
+      assert.equal(viaTransactions.status, 201);
+
+      const hold = await env.api.get(`/api/payments/preauths/${transactionId}`);
+      assert.equal(hold.data.preauth.status, 'captured');
+      assert.equal(hold.data.preauth.captures.length, 2);
+      assert.equal(hold.data.preauth.capturedAmount, 8000);
+      assert.deepEqual(preauthEvents(transactionId), ['preauth.captured', 'preauth.captured']);
+    });
+
+    it('reserves a capture while it is sent to Viva', async () => {
+      const transactionId = await openHold(8000);
+
+      const results = await Promise.all([
+        env.api.post(`/api/payments/preauths/${transactionId}/capture`, { amount: 5000 }),
+        env.api.post(`/api/payments/transactions/${transactionId}`, { amount: 5000 }),
+      ]);
+      assert.deepEqual(results.map((r) => r.status).sort(), [201, 409]);
+
+      const hold = await env.api.get(`/api/payments/preauths/${transactionId}`);
+      assert.equal(hold.data.preauth.capturedAmount, 5000);
+      assert.equal(hold.data.preauth.remainingAmount, 3000);
+    });
+
+    it('counts the captured amount of a hold once in the ledger', async () => {
+      const { preauthService } = await import('../src/services/preauth.service.js');
+      const transactionId = await openHold(6000);
+      const { orderCode } = preauthService.getHold('shop', transactionId)!;
+
+      await env.api.post(`/api/payments/preauths/${transactionId}/capture`, { amount: 2000 });
+      await env.api.post(`/api/payments/preauths/${transactionId}/void`);
+
+      const listed = await env.api.get('/api/payments/orders', { params: { status: 'paid' } });
+      const order = listed.data.orders.find((o: { orderCode: string }) => o.orderCode === orderCode);
+      assert.equal(order.paidAmount, 2000);
+      assert.equal(order.refundedAmount, 0);
+    });
+
+    it('voids the remaining amount of a hold', async () => {
+      const transactionId = await openHold(6000);
+      await env.api.post(`/api/payments/preauths/${transactionId}/capture`, { amount: 2000 });
+
+      const voided = await env.api.post(`/api/payments/preauths/${transactionId}/void`);
+      assert.equal(voided.status, 200);
+      assert.equal(voided.data.preauth.status, 'voided');
+      assert.equal(voided.data.preauth.voidReason, 'requested');
+
+      const again = await env.api.post(`/api/payments/preauths/${transactionId}/void`);
+      assert.equal(again.status, 409);
+      assert.deepEqual(preauthEvents(transactionId), ['preauth.captured', 'preauth.voided']);
+    });
+
+    it('voids a hold cancelled through DELETE /transactions', async () => {
+      const transactionId = await openHold(5000);
+
+      const partial = await env.api.delete(`/api/payments/transactions/${transactionId}`, { params: { amount: 1000 } });
+      assert.equal(partial.status, 409);
+      assert.equal(partial.data.remainingAmount, 5000);
+
+      const cancelled = await env.api.delete(`/api/payments/transactions/${transactionId}`);
+      assert.equal(cancelled.status, 200);
+      assert.equal(cancelled.data.preauth.status, 'voided');
+      assert.equal(cancelled.data.preauth.voidReason, 'requested');
+      assert.deepEqual(preauthEvents(transactionId), ['preauth.voided']);
+    });
+
+    it('refuses to void a hold while a capture is in flight', async () => {
+      const { preauthService } = await import('../src/services/preauth.service.js');
+      const transactionId = await openHold(5000);
+      const release = preauthService.reserve(preauthService.getHold('shop', transactionId)!, 2000)!;
+
+      try {
+        const voided = await env.api.post(`/api/payments/preauths/${transactionId}/void`);
+        assert.equal(voided.status, 409);
+        const cancelled = await env.api.delete(`/api/payments/transactions/${transactionId}`);
+        assert.equal(cancelled.status, 409);
+      } finally {
+        release();
+      }
+
+      const hold = await env.api.get(`/api/payments/preauths/${transactionId}`);
+      assert.equal(hold.data.preauth.status, 'open');
+      assert.equal(hold.data.preauth.voidReason, undefined);
+    });
+
+    it('warns before the capture deadline and voids the hold after it', async () => {
+      const { preauthService } = await import('../src/services/preauth.service.js');
+      const transactionId = await openHold(4000);
+      const hold = preauthService.getHold('shop', transactionId)!;
+      const expiresAt = new Date(hold.expiresAt).getTime();
+
+      await preauthService.processDue(new Date(expiresAt - 60 * 60 * 1000));
+      await preauthService.processDue(new Date(expiresAt - 30 * 60 * 1000));
+      assert.deepEqual(preauthEvents(transactionId), ['preauth.expiring']);
+
+      await preauthService.processDue(new Date(expiresAt + 1000));
+
+      const expired = await env.api.get(`/api/payments/preauths/${transactionId}`);
+      assert.equal(expired.data.preauth.status, 'expired');
+      assert.equal(expired.data.preauth.voidReason, 'expired');
+      assert.deepEqual(preauthEvents(transactionId), ['preauth.expiring', 'preauth.voided']);
+    });
+  });
+
+  describe('order status reconciliation', () => {
+    async function createOrder(body: Record<string, unknown> = {}): Promise<number> {
+      const created = await env.api.post('/api/payments/orders', {
+        amount: 5000,
+        callback: { webhookUrl: `${env.callbackUrl}/status-hooks` },
+        ...body,
+      });
+      assert.equal(created.status, 201);
+      return created.data.orderCode;
+    }
+
+    // Payment events forwarded for the order (order.created is sent on creation)
+    function paymentEvents(orderCode: number): string[] {
+      return env.received
+        .filter((r) => r.path === '/status-hooks' && String(r.body.data.orderCode) === String(orderCode))
+        .map((r) => r.body.event)
+        .filter((event) => event.startsWith('payment.'));
+    }
+
+    it('reports a paid order whose webhooks all arrived', async () => {
+      const orderCode = await createOrder();
+      await payOrder(env, orderCode);
+
+      const response = await env.api.get(`/api/payments/orders/${orderCode}/status`);
+      assert.equal(response.status, 200);
+      assert.equal(response.data.status, 'paid');
+      assert.equal(response.data.amount, 5000);
+      assert.equal(response.data.paidAmount, 5000);
+      assert.equal(response.data.ledgerStatus, 'paid');
+      assert.equal(response.data.transactions.length, 1);
+      assert.equal(response.data.transactions[0].webhookReceived, true);
+      assert.deepEqual(response.data.emittedEvents, []);
+    });
+
+    it('forwards a payment and refund whose webhooks were lost, once', async () => {
+      const orderCode = await createOrder();
+      env.setVivaWebhooks(false);
+      try {
+        const transactionId = new URL(await payOrder(env, orderCode)).searchParams.get('t');
+        const refund = await env.api.delete(`/api/payments/transactions/${transactionId}`, { params: { amount: 2000 } });
+        assert.equal(refund.status, 200);
+      } finally {
+        env.setVivaWebhooks(true);
+      }
+      assert.deepEqual(paymentEvents(orderCode), []);
+
+      // A plain status check only reports
+      const reported = await env.api.get(`/api/payments/orders/${orderCode}/status`);
+      assert.equal(reported.data.status, 'partially_refunded');
+      assert.deepEqual(reported.data.emittedEvents, []);
+      assert.ok(reported.data.transactions.every((t: { webhookReceived: boolean }) => !t.webhookReceived));
+      assert.deepEqual(paymentEvents(orderCode), []);
+
+      const response = await env.api.get(`/api/payments/orders/${orderCode}/status`, { params: { reemit: true } });
+      assert.equal(response.data.status, 'partially_refunded');
+      assert.equal(response.data.paidAmount, 5000);
+      assert.equal(response.data.refundedAmount, 2000);
+      assert.equal(response.data.ledgerStatus, 'partially_refunded');
+      assert.deepEqual(response.data.emittedEvents.map((e: { event: string }) => e.event), ['payment.success', 'payment.refunded']);
+      assert.deepEqual(paymentEvents(orderCode), ['payment.success']);
+
+      const again = await env.api.get(`/api/payments/orders/${orderCode}/status`, { params: { reemit: true } });
+      assert.deepEqual(again.data.emittedEvents, []);
+      assert.ok(again.data.transactions.every((t: { webhookReceived: boolean }) => t.webhookReceived));
+    });
+
+    it('forwards a missed expiry as order.updated', async () => {
+      const orderCode = await createOrder();
+      env.setVivaWebhooks(false);
+      try {
+        const updated = await env.api.patch(`/api/payments/orders/${orderCode}`, { expirationDate: '2020-01-01T00:00:00Z' });
+        assert.equal(updated.status, 200);
+      } finally {
+        env.setVivaWebhooks(true);
+      }
+
+      const response = await env.api.get(`/api/payments/orders/${orderCode}/status`, { params: { reemit: true } });
+      assert.equal(response.data.status, 'expired');
+      assert.equal(response.data.ledgerStatus, 'expired');
+      assert.deepEqual(response.data.emittedEvents, [{ event: 'order.updated' }]);
+
+      const callback = env.received.find((r) => r.body.event === 'order.updated' && String(r.body.data.orderCode) === String(orderCode));
+      assert.equal(callback?.body.data.state, 'expired');
+
+      const again = await env.api.get(`/api/payments/orders/${orderCode}/status`, { params: { reemit: true } });
+      assert.deepEqual(again.data.emittedEvents, []);
+    });
+
+    it('does not re-emit events of orders missing from the ledger', async () => {
+      const { ledgerService } = await import('../src/services/ledger.service.js');
+      const orderCode = await createOrder();
+      env.setVivaWebhooks(false);
+      try {
+        await payOrder(env, orderCode);
+      } finally {
+        env.setVivaWebhooks(true);
+      }
+
+      // As after a restart with in-memory stores
+      const getOrder = ledgerService.getOrder;
+      ledgerService.getOrder = () => undefined;
+      try {
+        const response = await env.api.get(`/api/payments/orders/${orderCode}/status`, { params: { reemit: true } });
+        assert.equal(response.data.status, 'paid');
+        assert.deepEqual(response.data.emittedEvents, []);
+      } finally {
+        ledgerService.getOrder = getOrder;
+      }
+      assert.deepEqual(paymentEvents(orderCode), []);
+    });
+
+    it('rejects an invalid order code', async () => {
+      assert.equal((await env.api.get('/api/payments/orders/abc/status')).status, 400);
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    it('replays the first response for a repeated request', async () => {
+      const headers = { 'Idempotency-Key': 'order-attempt-1' };
+      const first = await env.api.post('/api/payments/orders', { amount: 1200 }, { headers });
+      const second = await env.api.post('/api/payments/orders', { amount: 1200 }, { headers });
+
+      assert.equal(first.status, 201);
+      assert.equal(second.status, 201);
+      assert.equal(second.headers['idempotent-replayed'], 'true');
+      assert.equal(second.data.orderCode, first.data.orderCode);
+    });
+
+    it('rejects a different body with the same key', async () => {
+      const headers = { 'Idempotency-Key': 'order-attempt-2' };
+      await env.api.post('/api/payments/orders', { amount: 1200 }, { headers });
+      const conflicting = await env.api.post('/api/payments/orders', { amount: 1300 }, { headers });
+
+      assert.equal(conflicting.status, 409);
+    });
+
+    it('rejects a repeat while the first request is in flight', async () => {
+      const { getServiceByMerchantKey } = await import('../src/services/merchant.service.js');
+      const { service } = getServiceByMerchantKey('shop')!;
+      const headers = { 'Idempotency-Key': 'order-attempt-3' };
+
+      // Hold the first request at Viva until the repeat has been answered
+      let resume!: () => void;
+      const paused = new Promise<void>((resolve) => { resume = resolve; });
+      const createPaymentOrder = service.createPaymentOrder;
+      service.createPaymentOrder = async (...args) => {
+        await paused;
+        return createPaymentOrder.apply(service, args);
+      };
+      try {
+        const first = env.api.post('/api/payments/orders', { amount: 1200 }, { headers });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const repeat = await env.api.post('/api/payments/orders', { amount: 1200 }, { headers });
+        assert.equal(repeat.status, 409);
+        assert.equal(repeat.data.error, 'A request with this Idempotency-Key is still being processed');
+
+        resume();
+        assert.equal((await first).status, 201);
+      } finally {
+        resume();
+        service.createPaymentOrder = createPaymentOrder;
+      }
+
+      const replayed = await env.api.post('/api/payments/orders', { amount: 1200 }, { headers });
+      assert.equal(replayed.headers['idempotent-replayed'], 'true');
+    });
+
+    it('does not store a rejected request', async () => {
+      const headers = { 'Idempotency-Key': 'order-attempt-4' };
+      const invalid = await env.api.post('/api/payments/orders', { amount: 29 }, { headers });
+      assert.equal(invalid.status, 400);
+
+      const again = await env.api.post('/api/payments/orders', { amount: 29 }, { headers });
+      assert.equal(again.status, 400);
+      assert.equal(again.headers['idempotent-replayed'], undefined);
+
+      const corrected = await env.api.post('/api/payments/orders', { amount: 1200 }, { headers });
+      assert.equal(corrected.status, 201);
+      assert.equal(corrected.headers['idempotent-replayed'], undefined);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, TEST_MERCHANT } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+describe('rate limits', () => {
+  let env: TestEnvironment;
+  const prefix = `MERCHANT_${TEST_MERCHANT.merchantKey}_RATE_LIMIT_`;
+
+  before(async () => {
+    env = await startTestEnvironment({
+      [`${prefix}ORDERS_PER_MINUTE`]: '1',
+      [`${prefix}ORDERS_BURST`]: '2',
+      [`${prefix}REFUNDS_DAILY_QUOTA`]: '1',
+      RATE_LIMIT_PAYMENT_REDIRECT_BURST: '2',
+    });
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  it('limits a route group with a token bucket and 429 + Retry-After', async () => {
+    const first = await env.api.post('/api/payments/orders', { amount: 1000 });
+    assert.equal(first.status, 201);
+    assert.equal(first.headers['ratelimit-limit'], '2');
+    assert.equal(first.headers['ratelimit-remaining'], '1');
+    assert.equal(first.headers['ratelimit-policy'], '1;w=60;burst=2');
+
+    assert.equal((await env.api.post('/api/payments/orders', { amount: 1000 })).status, 201);
+
+    const limited = await env.api.post('/api/payments/orders', { amount: 1000 });
+    assert.equal(limited.status, 429);
+    assert.equal(limited.data.error, 'Rate limit exceeded');
+    assert.equal(limited.data.group, 'orders');
+    assert.equal(limited.headers['ratelimit-remaining'], '0');
+    const retryAfter = Number(limited.headers['retry-after']);
+    assert.ok(retryAfter > 0 && retryAfter <= 60);
+
+    // Other groups have their own buckets
+    const reads = await env.api.get('/api/payments/orders');
+    assert.equal(reads.status, 200);
+    assert.equal(reads.headers['ratelimit-limit'], '200');
+  });
+
+  it('refills the bucket over time', async () => {
+    const { rateLimitService } = await import('../src/services/rate-limit.service.js');
+    const { getMerchantByKey } = await import('../src/config/merchant.config.js');
+    const config = getMerchantByKey(TEST_MERCHANT.merchantKey)!;
+
+    assert.equal(rateLimitService.consume(config, 'orders').allowed, false);
+    const refilled = rateLimitService.consume(config, 'orders', Date.now() + 60_000);
+    assert.equal(refilled.allowed, true);
+    assert.equal(refilled.remaining, 0);
+  });
+
+  it('refills at the slowest rate when a policy has none', async () => {
+    const { rateLimitService } = await import('../src/services/rate-limit.service.js');
+    const { getMerchantByKey } = await import('../src/config/merchant.config.js');
+    const config = { ...getMerchantByKey(TEST_MERCHANT.merchantKey)!, merchantKey: 'no-refill', rateLimits: { reads: { perMinute: 0, burst: 1 } } };
+
+    rateLimitService.consume(config, 'reads');
+    const limited = rateLimitService.consume(config, 'reads');
+    assert.equal(limited.allowed, false);
+    assert.equal(limited.resetSeconds, 6000);
+    assert.equal(limited.retryAfterSeconds, 6000);
+  });
+
+  it('enforces daily quotas until the next UTC day', async () => {
+    const first = await env.api.post('/api/payments/transactions/unknown/refund', { amount: 100 });
+    assert.notEqual(first.status, 429);
+    assert.equal(first.headers['x-daily-quota-remaining'], '0');
+
+    const exhausted = await env.api.post('/api/payments/transactions/unknown/refund', { amount: 100 });
+    assert.equal(exhausted.status, 429);
+    assert.equal(exhausted.data.error, 'Daily quota exceeded');
+    assert.equal(exhausted.data.group, 'refunds');
+    const retryAfter = Number(exhausted.headers['retry-after']);
+    assert.ok(retryAfter > 0 && retryAfter <= 24 * 60 * 60);
+    assert.match(exhausted.headers['ratelimit-policy'], /, 1;w=86400$/);
+  });
+
+  it('limits returns from checkout per client IP', async () => {
+    const statuses = [];
+    for (const landing of ['success', 'failure', 'success']) {
+      statuses.push((await env.http.get(`/payment/${landing}`, { params: { s: '1234567890123456' } })).status);
+    }
+    assert.deepEqual(statuses, [404, 404, 429]);
+  });
+});
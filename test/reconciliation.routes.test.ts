@@ -0,0 +1,133 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, payOrder, TEST_MERCHANT } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('reconciliation routes', () => {
+  let env: TestEnvironment;
+  const today = new Date().toISOString().slice(0, 10);
+
+  before(async () => {
+    env = await startTestEnvironment({ WEBHOOK_TEST_SIMULATE_ENABLED: 'true' });
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  beforeEach(() => {
+    env.received.length = 0;
+  });
+
+  // Pay an order and return its transaction ID
+  async function pay(amount = 2500): Promise<{ orderCode: number; transactionId: string }> {
+    const created = await env.api.post('/api/payments/orders', {
+      amount,
+      callback: { webhookUrl: `${env.callbackUrl}/hooks` },
+    });
+    assert.equal(created.status, 201);
+    const transactionId = new URL(await payOrder(env, created.data.orderCode)).searchParams.get('t');
+    assert.ok(transactionId);
+    return { orderCode: created.data.orderCode, transactionId };
+  }
+
+  it('reconciles the previous day on schedule, once', async () => {
+    await pay();
+
+    const { reconciliationService } = await import('../src/services/reconciliation.service.js');
+    const tomorrow = new Date(Date.now() + DAY_MS);
+    await reconciliationService.processDue(tomorrow);
+
+    const list = await env.api.get('/api/reconciliation/reports');
+    assert.equal(list.status, 200);
+    const [summary] = list.data.reports;
+    assert.equal(summary.date, today);
+    assert.equal(summary.trigger, 'scheduled');
+    assert.equal(summary.status, 'completed');
+    assert.equal(summary.summary.missing, 0);
+    assert.ok(summary.summary.matched >= 1);
+    assert.equal(summary.missing, undefined);
+
+    await reconciliationService.processDue(tomorrow);
+    const again = await env.api.get(`/api/reconciliation/reports/${today}`);
+    assert.equal(again.data.report.startedAt, summary.startedAt);
+  });
+
+  it('reports a payment whose webhook was missed and re-emits it on request', async () => {
+    env.setVivaWebhooks(false);
+    let missed: { orderCode: number; transactionId: string };
+    try {
+      missed = await pay(4200);
+    } finally {
+      env.setVivaWebhooks(true);
+    }
+
+    const report = (await env.api.post('/api/reconciliation/run', { date: today })).data.report;
+    assert.equal(report.trigger, 'manual');
+    assert.equal(report.reemit, false);
+    const item = report.missing.find((m: { transactionId: string }) => m.transactionId === missed.transactionId);
+    assert.equal(item.orderCode, String(missed.orderCode));
+    assert.equal(item.vivaAmount, 4200);
+    assert.equal(item.kind, 'payment');
+    assert.deepEqual(report.reemitted, []);
+    assert.ok(!env.received.some((r) => r.body.event === 'payment.success'));
+
+    const reemitted = (await env.api.post('/api/reconciliation/run', { date: today, reemit: true })).data.report;
+    assert.deepEqual(reemitted.reemitted, [{ event: 'payment.success', transactionId: missed.transactionId }]);
+    const forwarded = env.received.find((r) => r.body.event === 'payment.success');
+    assert.equal(forwarded?.body.data.transactionId, missed.transactionId);
+
+    const after = (await env.api.post('/api/reconciliation/run', { date: today })).data.report;
+    assert.ok(!after.missing.some((m: { transactionId: string }) => m.transactionId === missed.transactionId));
+  });
+
+  it('reports amount mismatches and transactions Viva does not know', async () => {
+    const { orderCode, transactionId } = await pay(3000);
+
+    // Webhooks that disagree with Viva's records
+    const simulate = (body: Record<string, unknown>) =>
+      env.api.post('/api/webhooks/test-simulate', { orderCode, eventType: 'success', ...body });
+    assert.equal((await simulate({ transactionId, amount: 2999 })).status, 200);
+    assert.equal((await simulate({ transactionId: 'not-at-viva', amount: 500 })).status, 200);
+
+    const report = (await env.api.post('/api/reconciliation/run', { date: today })).data.report;
+    const mismatch = report.amountMismatches.find((m: { transactionId: string }) => m.transactionId === transactionId);
+    assert.equal(mismatch.vivaAmount, 3000);
+    assert.equal(mismatch.recordedAmount, 2999);
+
+    const unknown = report.unknown.find((u: { transactionId: string }) => u.transactionId === 'not-at-viva');
+    assert.equal(unknown.recordedAmount, 500);
+    assert.equal(unknown.vivaAmount, undefined);
+    assert.equal(report.summary.unknown, report.unknown.length);
+  });
+
+  it('does not report a transaction Viva lists on the neighbouring day as unknown', async () => {
+    const { reconciliationService } = await import('../src/services/reconciliation.service.js');
+    const { ledgerService } = await import('../src/services/ledger.service.js');
+    const { transactionId } = await pay();
+    const tomorrow = new Date(Date.now() + DAY_MS).toISOString().slice(0, 10);
+
+    // As if its webhook, without an InsDate, had been recorded just after midnight
+    ledgerService.getTransaction(TEST_MERCHANT.merchantKey, transactionId)!.createdAt = `${tomorrow}T00:30:00.000Z`;
+
+    const report = await reconciliationService.run(TEST_MERCHANT.merchantKey, tomorrow);
+    assert.equal(report.status, 'completed');
+    assert.equal(report.summary.recordedTransactions, 1);
+    assert.deepEqual(report.unknown, []);
+  });
+
+  it('validates dates and scopes reports to the merchant', async () => {
+    const invalid = await env.api.post('/api/reconciliation/run', { date: '2026-02-30' });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.data.details[0].field, 'date');
+
+    const future = new Date(Date.now() + 2 * DAY_MS).toISOString().slice(0, 10);
+    assert.equal((await env.api.post('/api/reconciliation/run', { date: future })).status, 400);
+
+    assert.equal((await env.api.get('/api/reconciliation/reports/yesterday')).status, 400);
+    assert.equal((await env.api.get('/api/reconciliation/reports/1999-01-01')).status, 404);
+    assert.equal((await env.http.get('/api/reconciliation/reports')).status, 401);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, payOrder, sign, TEST_MERCHANT } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ExportedRow {
+  transactionId: string;
+  orderCode: string;
+  parentId?: string;
+  kind: string;
+  statusId?: string;
+  amount?: number;
+  fees?: number;
+  interchange?: number;
+  cardBrand?: string;
+  cardLastFour?: string;
+  merchantTrns?: string;
+  tags: string[];
+  refundedAmount?: number;
+  refundTransactionIds: string[];
+  source: string;
+}
+
+describe('report routes', () => {
+  let env: TestEnvironment;
+  const today = new Date().toISOString().slice(0, 10);
+  const yesterday = new Date(Date.now() - DAY_MS).toISOString().slice(0, 10);
+
+  before(async () => {
+    env = await startTestEnvironment({ WEBHOOK_TEST_SIMULATE_ENABLED: 'true' });
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  // Pay an order and return its transaction ID
+  async function pay(amount: number, extra: Record<string, unknown> = {}): Promise<{ orderCode: number; transactionId: string }> {
+    const created = await env.api.post('/api/payments/orders', { amount, ...extra });
+    assert.equal(created.status, 201);
+    const transactionId = new URL(await payOrder(env, created.data.orderCode)).searchParams.get('t');
+    assert.ok(transactionId);
+    return { orderCode: created.data.orderCode, transactionId };
+  }
+
+  async function sendFees(orderCode: number, transactionId: string): Promise<void> {
+    const body = JSON.stringify({
+      EventTypeId: 1799,
+      EventData: { TransactionId: transactionId, OrderCode: orderCode, CurrencyCode: '978', Interchange: 0.05, IsvFee: 0, TotalCommission: 0.31 },
+    });
+    const response = await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+      headers: { 'Content-Type': 'application/json', 'Viva-Signature-256': sign(body, TEST_MERCHANT.webhookSecret) },
+    });
+    assert.equal(response.status, 200);
+  }
+
+  it('exports Viva transactions with recorded fees and refunds as JSON', async () => {
+    const { orderCode, transactionId } = await pay(5000, { merchantTrns: 'INV-1001', tags: ['web'] });
+    await sendFees(orderCode, transactionId);
+    const refund = await env.api.delete(`/api/payments/transactions/${transactionId}`, { params: { amount: 2000 } });
+    assert.equal(refund.status, 200);
+
+    // Only known from a webhook
+    const simulated = await env.api.post('/api/webhooks/test-simulate', {
+      orderCode, eventType: 'success', amount: 700, transactionId: 'webhook-only',
+    });
+    assert.equal(simulated.status, 200);
+
+    const response = await env.api.get('/api/reports/transactions', { params: { from: yesterday, to: today } });
+    assert.equal(response.status, 200);
+    assert.match(response.headers['content-type'] as string, /application\/json/);
+    assert.equal(response.data.success, true);
+    const rows: ExportedRow[] = response.data.transactions;
+
+    const payment = rows.find((r) => r.transactionId === transactionId);
+    assert.ok(payment);
+    assert.equal(payment.source, 'viva');
+    assert.equal(payment.kind, 'payment');
+    assert.equal(payment.amount, 5000);
+    assert.equal(payment.fees, 31);
+    assert.equal(payment.interchange, 5);
+    assert.equal(payment.cardBrand, 'visa');
+    assert.equal(payment.cardLastFour, '1111');
+    assert.equal(payment.merchantTrns, 'INV-1001');
+    assert.deepEqual(payment.tags, ['web']);
+    assert.equal(payment.refundedAmount, 2000);
+    assert.equal(payment.refundTransactionIds.length, 1);
+
+    const reversal = rows.find((r) => r.transactionId === payment.refundTransactionIds[0]);
+    assert.equal(reversal?.kind, 'reversal');
+    assert.equal(reversal?.parentId, transactionId);
+    assert.equal(reversal?.amount, 2000);
+    assert.equal(reversal?.refundedAmount, undefined);
+
+    const webhookOnly = rows.find((r) => r.transactionId === 'webhook-only');
+    assert.equal(webhookOnly?.source, 'webhook');
+    assert.equal(webhookOnly?.amount, 700);
+  });
+
+  it('exports CSV with spreadsheet-safe fields', async () => {
+    const { transactionId } = await pay(1500, { merchantTrns: '=SUM(A1), "quoted"' });
+
+    const response = await env.api.get('/api/reports/transactions', {
+      params: { from: today, to: today, format: 'csv' },
+      responseType: 'text',
+    });
+    assert.equal(response.status, 200);
+    assert.match(response.headers['content-type'] as string, /text\/csv/);
+    assert.equal(response.headers['content-disposition'], `attachment; filename="transactions-${today}-${today}.csv"`);
+
+    const [header, ...lines] = (response.data as string).trim().split('\r\n');
+    assert.ok(header?.startsWith('createdAt,transactionId,orderCode,'));
+    const line = lines.find((l) => l.includes(transactionId));
+    assert.ok(line);
+    assert.ok(line.includes(`"'=SUM(A1), ""quoted"""`));
+    assert.ok(line.includes(',1500,'));
+  });
+
+  it('returns an empty export for days without transactions', async () => {
+    const response = await env.api.get('/api/reports/transactions', { params: { from: '2020-01-01', to: '2020-01-03' } });
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.data.transactions, []);
+  });
+
+  it('validates the range and requires authentication', async () => {
+    const reversed = await env.api.get('/api/reports/transactions', { params: { from: today, to: yesterday } });
+    assert.equal(reversed.status, 400);
+    assert.equal(reversed.data.details[0].field, 'to');
+
+    const tooLong = await env.api.get('/api/reports/transactions', { params: { from: '2026-01-01', to: '2026-06-30' } });
+    assert.equal(tooLong.status, 400);
+
+    const invalid = await env.api.get('/api/reports/transactions', { params: { from: '2026-02-30', to: today, format: 'xml' } });
+    assert.equal(invalid.status, 400);
+    assert.deepEqual(invalid.data.details.map((d: { field: string }) => d.field).sort(), ['format']);
+
+    assert.equal((await env.http.get('/api/reports/transactions', { params: { from: today, to: today } })).status, 401);
+  });
+});
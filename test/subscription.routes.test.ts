@@ -0,0 +1,295 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, payOrder } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('subscription routes', () => {
+  let env: TestEnvironment;
+  let subscriptionService: typeof import('../src/services/subscription.service.js').subscriptionService;
+
+  before(async () => {
+    env = await startTestEnvironment({
+      SUBSCRIPTION_MAX_FAILED_ATTEMPTS: '2',
+    });
+    ({ subscriptionService } = await import('../src/services/subscription.service.js'));
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  beforeEach(() => {
+    env.received.length = 0;
+  });
+
+  async function createPlan(body: Record<string, unknown> = {}): Promise<string> {
+    const response = await env.api.post('/api/subscriptions/plans', {
+      name: 'Pro monthly',
+      amount: 1500,
+      interval: 'month',
+      ...body,
+    });
+    assert.equal(response.status, 201);
+    return response.data.plan.planId;
+  }
+
+  async function subscribe(planId: string): Promise<{ subscriptionId: string; orderCode: number }> {
+    const response = await env.api.post('/api/subscriptions', {
+      planId,
+      customer: { email: 'subscriber@example.com' },
+      merchantTrns: 'SUB-1',
+      callback: { webhookUrl: `${env.callbackUrl}/hooks`, secret: 'subscription-secret' },
+    });
+    assert.equal(response.status, 201);
+    assert.equal(response.data.subscription.status, 'pending');
+    assert.equal(response.data.subscription.callback.secret, undefined);
+    assert.equal(response.data.subscription.callback.signed, true);
+    assert.ok(response.data.checkoutUrl);
+    return {
+      subscriptionId: response.data.subscription.subscriptionId,
+      orderCode: Number(response.data.subscription.orderCode),
+    };
+  }
+
+  async function getSubscription(subscriptionId: string) {
+    const response = await env.api.get(`/api/subscriptions/${subscriptionId}`);
+    assert.equal(response.status, 200);
+    return response.data.subscription;
+  }
+
+  // subscription.* events sent for one subscription (processDue bills every due subscription)
+  function events(subscriptionId: string): string[] {
+    return env.received
+      .filter((r) => r.body.event.startsWith('subscription.') && r.body.data.subscriptionId === subscriptionId)
+      .map((r) => r.body.event);
+  }
+
+  it('rejects a plan with an unknown interval', async () => {
+    const response = await env.api.post('/api/subscriptions/plans', { name: 'Bad', amount: 1500, interval: 'fortnight' });
+    assert.equal(response.status, 400);
+    assert.equal(response.data.details[0].field, 'interval');
+  });
+
+  it('activates the subscription when the initial order is paid', async () => {
+    const planId = await createPlan();
+    const { subscriptionId, orderCode } = await subscribe(planId);
+
+    await payOrder(env, orderCode);
+
+    const subscription = await getSubscription(subscriptionId);
+    assert.equal(subscription.status, 'active');
+    assert.ok(subscription.initialTransactionId);
+    assert.equal(subscription.billedPeriods, 1);
+    assert.ok(subscription.nextBillingAt > new Date(Date.now() + 27 * DAY_MS).toISOString());
+    assert.deepEqual(events(subscriptionId), ['subscription.created', 'subscription.activated']);
+  });
+
+  it('charges the initial transaction again on the billing date', async () => {
+    const planId = await createPlan();
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+    const activated = await getSubscription(subscriptionId);
+    env.received.length = 0;
+
+    await subscriptionService.processDue(new Date(new Date(activated.nextBillingAt).getTime() + 1000));
+
+    const renewed = await getSubscription(subscriptionId);
+    assert.equal(renewed.status, 'active');
+    assert.equal(renewed.billedPeriods, 2);
+    assert.equal(renewed.currentPeriodStart, activated.nextBillingAt);
+    assert.ok(renewed.nextBillingAt > activated.nextBillingAt);
+    assert.equal(renewed.charges.length, 2);
+    assert.equal(renewed.charges[1].success, true);
+
+    const event = env.received.find((r) => r.body.event === 'subscription.renewed' && r.body.data.subscriptionId === subscriptionId);
+    assert.ok(event);
+    assert.equal(event.body.data.transactionId, renewed.charges[1].transactionId);
+    assert.equal(event.body.data.amount, 1500);
+  });
+
+  it('starts with a trial and bills at its end', async () => {
+    const planId = await createPlan({ trialDays: 14 });
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+
+    const trialing = await getSubscription(subscriptionId);
+    assert.equal(trialing.status, 'trialing');
+    assert.equal(trialing.billedPeriods, 0);
+    assert.equal(trialing.nextBillingAt, trialing.trialEndsAt);
+
+    await subscriptionService.processDue(new Date(Date.now() + 15 * DAY_MS));
+
+    const billed = await getSubscription(subscriptionId);
+    assert.equal(billed.status, 'active');
+    assert.equal(billed.billedPeriods, 1);
+  });
+
+  it('does not bill a paused subscription', async () => {
+    const planId = await createPlan({ interval: 'day' });
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+
+    const paused = await env.api.post(`/api/subscriptions/${subscriptionId}/pause`);
+    assert.equal(paused.status, 200);
+    assert.equal(paused.data.subscription.status, 'paused');
+
+    await subscriptionService.processDue(new Date(Date.now() + 2 * DAY_MS));
+    assert.equal((await getSubscription(subscriptionId)).billedPeriods, 1);
+
+    const resumed = await env.api.post(`/api/subscriptions/${subscriptionId}/resume`);
+    assert.equal(resumed.status, 200);
+    assert.equal(resumed.data.subscription.status, 'active');
+
+    const pausedAgain = await env.api.post(`/api/subscriptions/${subscriptionId}/resume`);
+    assert.equal(pausedAgain.status, 409);
+  });
+
+  it('cancels at period end without charging again', async () => {
+    const planId = await createPlan();
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+
+    const response = await env.api.post(`/api/subscriptions/${subscriptionId}/cancel`, { atPeriodEnd: true });
+    assert.equal(response.status, 200);
+    assert.equal(response.data.subscription.status, 'active');
+    assert.equal(response.data.subscription.cancelAtPeriodEnd, true);
+
+    await subscriptionService.processDue(new Date(Date.now() + 40 * DAY_MS));
+
+    const cancelled = await getSubscription(subscriptionId);
+    assert.equal(cancelled.status, 'cancelled');
+    assert.equal(cancelled.billedPeriods, 1);
+    assert.ok(events(subscriptionId).includes('subscription.cancelled'));
+  });
+
+  it('cancels after repeated failed charges', async () => {
+    const planId = await createPlan();
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+    // Point the subscription at a transaction the mock Viva does not know, so every charge fails
+    const active = subscriptionService.getSubscription('shop', subscriptionId)!;
+    active.initialTransactionId = 'unknown-transaction';
+    subscriptionService.updateSubscription(active, {});
+    env.received.length = 0;
+
+    await subscriptionService.processDue(new Date(Date.now() + 40 * DAY_MS));
+    const pastDue = await getSubscription(subscriptionId);
+    assert.equal(pastDue.status, 'past_due');
+    assert.equal(pastDue.failedAttempts, 1);
+
+    await subscriptionService.processDue(new Date(Date.now() + 42 * DAY_MS));
+    const cancelled = await getSubscription(subscriptionId);
+    assert.equal(cancelled.status, 'cancelled');
+    assert.equal(cancelled.cancellationReason, 'payment_failed');
+    assert.deepEqual(events(subscriptionId), ['subscription.payment_failed', 'subscription.payment_failed', 'subscription.cancelled']);
+  });
+
+  it('keeps a pause made while a charge is running', async () => {
+    const planId = await createPlan();
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+
+    const billing = subscriptionService.processDue(new Date(Date.now() + 40 * DAY_MS));
+    await subscriptionService.pause(subscriptionService.getSubscription('shop', subscriptionId)!);
+    await billing;
+
+    const paused = await getSubscription(subscriptionId);
+    assert.equal(paused.status, 'paused');
+    assert.equal(paused.billedPeriods, 2);
+  });
+
+  it('checks a charge that timed out with Viva instead of charging again', async () => {
+    const { getServiceByMerchantKey } = await import('../src/services/merchant.service.js');
+    const { VivaApiError } = await import('../src/errors/viva-api.error.js');
+    const planId = await createPlan();
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+
+    // Viva charges the card, but the response never arrives
+    const { service } = getServiceByMerchantKey('shop')!;
+    const createTransaction = service.createTransaction;
+    service.createTransaction = async (...args) => {
+      await createTransaction.apply(service, args);
+      throw new VivaApiError('Failed to create transaction', undefined);
+    };
+    try {
+      await subscriptionService.processDue(new Date(Date.now() + 40 * DAY_MS));
+    } finally {
+      service.createTransaction = createTransaction;
+    }
+
+    const unknown = await getSubscription(subscriptionId);
+    assert.equal(unknown.status, 'active');
+    assert.equal(unknown.failedAttempts, 0);
+    assert.equal(unknown.billedPeriods, 1);
+    assert.ok(unknown.pendingChargeAt);
+
+    await subscriptionService.processDue(new Date(Date.now() + 42 * DAY_MS));
+    const renewed = await getSubscription(subscriptionId);
+    assert.equal(renewed.billedPeriods, 2);
+    assert.equal(renewed.pendingChargeAt, undefined);
+
+    // Charged once: the initial payment and the recovered renewal
+    const transactions = await service.listTransactions({ orderCode });
+    assert.equal(transactions.filter((t) => t.StatusId === 'F').length, 2);
+    assert.equal(renewed.charges[1].transactionId, transactions.find((t) => t.ParentId)?.TransactionId);
+  });
+
+  it('finds a charge filed under an order of its own after a server error', async () => {
+    const { getServiceByMerchantKey } = await import('../src/services/merchant.service.js');
+    const { VivaApiError } = await import('../src/errors/viva-api.error.js');
+    const planId = await createPlan();
+    const { subscriptionId, orderCode } = await subscribe(planId);
+    await payOrder(env, orderCode);
+
+    // Viva charges the card but answers 500, and lists the charge under another order
+    const { service } = getServiceByMerchantKey('shop')!;
+    const createTransaction = service.createTransaction;
+    const listTransactions = service.listTransactions;
+    service.createTransaction = async (...args) => {
+      await createTransaction.apply(service, args);
+      throw new VivaApiError('Failed to create transaction', 500);
+    };
+    service.listTransactions = async (params) => {
+      const transactions = await listTransactions.call(service, params);
+      return params.orderCode === undefined ? transactions : transactions.filter((t) => !t.ParentId);
+    };
+    try {
+      await subscriptionService.processDue(new Date(Date.now() + 40 * DAY_MS));
+      const unknown = await getSubscription(subscriptionId);
+      assert.equal(unknown.failedAttempts, 0);
+      assert.ok(unknown.pendingChargeAt);
+
+      service.createTransaction = createTransaction;
+      await subscriptionService.processDue(new Date(Date.now() + 42 * DAY_MS));
+    } finally {
+      service.createTransaction = createTransaction;
+      service.listTransactions = listTransactions;
+    }
+
+    const renewed = await getSubscription(subscriptionId);
+    assert.equal(renewed.billedPeriods, 2);
+    assert.equal(renewed.pendingChargeAt, undefined);
+
+    // Charged once: the initial payment and the recovered renewal
+    const transactions = await service.listTransactions({ orderCode });
+    assert.equal(transactions.filter((t) => t.StatusId === 'F').length, 2);
+  });
+
+  it('refuses new subscribers on a deactivated plan', async () => {
+    const planId = await createPlan();
+    const deactivated = await env.api.delete(`/api/subscriptions/plans/${planId}`);
+    assert.equal(deactivated.status, 200);
+    assert.equal(deactivated.data.plan.active, false);
+
+    const response = await env.api.post('/api/subscriptions', { planId });
+    assert.equal(response.status, 409);
+  });
+
+  it('returns 404 for an unknown subscription', async () => {
+    const response = await env.api.get('/api/subscriptions/does-not-exist');
+    assert.equal(response.status, 404);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const SECOND_MS = 1000;
+const OTHER_MERCHANT = 'othershop';
+const OTHER_API_KEY = 'sk_test_other';
+
+describe('webhook deliveries', () => {
+  let env: TestEnvironment;
+  let webhookDeliveryQueue: typeof import('../src/services/webhook-delivery-queue.service.js').webhookDeliveryQueue;
+
+  before(async () => {
+    env = await startTestEnvironment({
+      WEBHOOK_RETRY_WINDOW_SECONDS: '120',
+      WEBHOOK_RETRY_BASE_DELAY_SECONDS: '10',
+      WEBHOOK_RETRY_MAX_DELAY_SECONDS: '30',
+      [`MERCHANT_${OTHER_MERCHANT}_API_KEY`]: OTHER_API_KEY,
+      [`MERCHANT_${OTHER_MERCHANT}_VIVA_ENVIRONMENT`]: 'mock',
+      [`MERCHANT_${OTHER_MERCHANT}_VIVA_CLIENT_ID`]: 'other-client',
+      [`MERCHANT_${OTHER_MERCHANT}_VIVA_CLIENT_SECRET`]: 'other-client-secret',
+    });
+    ({ webhookDeliveryQueue } = await import('../src/services/webhook-delivery-queue.service.js'));
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  beforeEach(() => {
+    env.received.length = 0;
+    env.setCallbackStatus(200);
+  });
+
+  // Register an order with a callback; its order.created delivery is attempted right away
+  async function createOrderWithCallback(): Promise<number> {
+    const created = await env.api.post('/api/payments/orders', {
+      amount: 1500,
+      callback: { webhookUrl: `${env.callbackUrl}/hooks`, secret: 'delivery-secret' },
+    });
+    assert.equal(created.status, 201);
+    return created.data.orderCode;
+  }
+
+  function findPending(orderCode: number) {
+    return webhookDeliveryQueue.getPending().find((d) => d.payload.data.orderCode === orderCode);
+  }
+
+  // Make a queued delivery due and run the queue (the memory store keeps the same object)
+  async function retryNow(delivery: { nextAttemptAt: string }): Promise<void> {
+    delivery.nextAttemptAt = new Date(Date.now() - SECOND_MS).toISOString();
+    await webhookDeliveryQueue.processDue();
+  }
+
+  it('retries with exponential backoff and jitter, capped at the max delay', async () => {
+    env.setCallbackStatus(503);
+    const orderCode = await createOrderWithCallback();
+    const delivery = findPending(orderCode);
+    assert.ok(delivery);
+
+    // Base 10s doubling per attempt, capped at 30s; jitter keeps between half and all of it
+    for (const [index, step] of [10, 20, 30, 30].entries()) {
+      assert.equal(delivery.attempts, index + 1);
+      assert.equal(delivery.status, 'pending');
+      const delay = new Date(delivery.nextAttemptAt).getTime() - new Date(delivery.lastAttemptAt!).getTime();
+      assert.ok(delay >= (step * SECOND_MS) / 2, `retry ${index + 1} after ${delay}ms`);
+      assert.ok(delay <= step * SECOND_MS + SECOND_MS, `retry ${index + 1} after ${delay}ms`);
+      await retryNow(delivery);
+    }
+
+    env.setCallbackStatus(200);
+    await retryNow(delivery);
+
+    assert.equal(delivery.status, 'delivered');
+    assert.equal(delivery.attemptLog.length, 6);
+    assert.deepEqual(delivery.attemptLog.map((a) => a.status), [503, 503, 503, 503, 503, 200]);
+    assert.equal(findPending(orderCode), undefined);
+
+    // Every attempt is the same delivery, numbered
+    const attempts = env.received.filter((r) => r.body.data.orderCode === orderCode);
+    assert.deepEqual(attempts.map((r) => r.headers['x-webhook-attempt']), ['1', '2', '3', '4', '5', '6']);
+    assert.ok(attempts.every((r) => r.headers['x-webhook-delivery-id'] === delivery.id));
+  });
+
+  it('moves a delivery to the dead-letter list once its retry window is over', async () => {
+    env.setCallbackStatus(503);
+    const orderCode = await createOrderWithCallback();
+    const delivery = findPending(orderCode);
+    assert.ok(delivery);
+
+    // Next retry would fall after the 120s window
+    delivery.createdAt = new Date(Date.now() - 115 * SECOND_MS).toISOString();
+    await retryNow(delivery);
+
+    assert.equal(delivery.status, 'dead_lettered');
+    assert.equal(delivery.attempts, 2);
+    assert.ok(delivery.deadLetteredAt);
+    assert.equal(findPending(orderCode), undefined);
+    assert.ok(webhookDeliveryQueue.getDeadLetters().some((d) => d.id === delivery.id));
+  });
+
+  it('dead-letters a delivery rejected with a 4xx without retrying', async () => {
+    env.setCallbackStatus(400);
+    const orderCode = await createOrderWithCallback();
+
+    assert.equal(findPending(orderCode), undefined);
+    const dead = webhookDeliveryQueue.getDeadLetters().find((d) => d.payload.data.orderCode === orderCode);
+    assert.ok(dead);
+    assert.equal(dead.attempts, 1);
+    assert.equal(dead.lastStatus, 400);
+  });
+
+  it('keeps retrying after 429 and network errors', async () => {
+    env.setCallbackStatus(429);
+    const orderCode = await createOrderWithCallback();
+    const delivery = findPending(orderCode);
+    assert.ok(delivery);
+    assert.equal(delivery.lastStatus, 429);
+
+    // Nothing listens on this port any more
+    delivery.url = 'http://127.0.0.1:1/hooks';
+    await retryNow(delivery);
+
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.lastStatus, undefined);
+    assert.ok(delivery.lastError);
+    assert.equal(findPending(orderCode), delivery);
+  });
+
+  describe('delivery log', () => {
+    it('lists the merchant\'s deliveries newest first, with filters', async () => {
+      const first = await createOrderWithCallback();
+      const second = await createOrderWithCallback();
+
+      const listed = await env.api.get('/api/webhook-deliveries', { params: { event: 'order.created', limit: 2 } });
+      assert.equal(listed.status, 200);
+      assert.deepEqual(listed.data.deliveries.map((d: { payload: { data: { orderCode: number } } }) => d.payload.data.orderCode), [second, first]);
+
+      const byOrder = await env.api.get('/api/webhook-deliveries', { params: { orderCode: first } });
+      assert.equal(byOrder.data.deliveries.length, 1);
+      assert.equal(byOrder.data.deliveries[0].status, 'delivered');
+
+      const pending = await env.api.get('/api/webhook-deliveries', { params: { orderCode: first, status: 'pending' } });
+      assert.deepEqual(pending.data.deliveries, []);
+
+      const invalid = await env.api.get('/api/webhook-deliveries', { params: { status: 'lost' } });
+      assert.equal(invalid.status, 400);
+    });
+
+    it('returns a delivery with each attempt, to its own merchant only', async () => {
+      env.setCallbackStatus(503);
+      const orderCode = await createOrderWithCallback();
+      env.setCallbackStatus(200);
+      await retryNow(findPending(orderCode)!);
+
+      const listed = await env.api.get('/api/webhook-deliveries', { params: { orderCode } });
+      const id = listed.data.deliveries[0].id;
+
+      const fetched = await env.api.get(`/api/webhook-deliveries/${id}`);
+      assert.equal(fetched.status, 200);
+      const { delivery } = fetched.data;
+      assert.equal(delivery.status, 'delivered');
+      assert.equal(delivery.url, `${env.callbackUrl}/hooks`);
+      assert.equal(delivery.signed, true);
+      assert.equal(delivery.secret, undefined);
+      assert.deepEqual(delivery.attemptLog.map((a: { attempt: number; status: number; success: boolean }) => [a.attempt, a.status, a.success]), [[1, 503, false], [2, 200, true]]);
+      assert.ok(delivery.attemptLog.every((a: { latencyMs: number }) => a.latencyMs >= 0));
+
+      const other = { headers: { 'X-Api-Key': OTHER_API_KEY } };
+      assert.equal((await env.http.get(`/api/webhook-deliveries/${id}`, other)).status, 404);
+      assert.equal((await env.http.post(`/api/webhook-deliveries/${id}/redeliver`, undefined, other)).status, 404);
+      assert.deepEqual((await env.http.get('/api/webhook-deliveries', { ...other, params: { orderCode } })).data.deliveries, []);
+
+      assert.equal((await env.api.get('/api/webhook-deliveries/no-such-delivery')).status, 404);
+      assert.equal((await env.http.get('/api/webhook-deliveries')).status, 401);
+    });
+
+    it('redelivers the same payload as a new delivery linked to the original', async () => {
+      const orderCode = await createOrderWithCallback();
+      const [original] = (await env.api.get('/api/webhook-deliveries', { params: { orderCode } })).data.deliveries;
+      env.received.length = 0;
+
+      const redelivered = await env.api.post(`/api/webhook-deliveries/${original.id}/redeliver`);
+      assert.equal(redelivered.status, 202);
+      assert.equal(redelivered.data.delivered, true);
+      assert.notEqual(redelivered.data.delivery.id, original.id);
+      assert.equal(redelivered.data.delivery.redeliveryOf, original.id);
+
+      assert.equal(env.received.length, 1);
+      assert.deepEqual(env.received[0]?.body, original.payload);
+      assert.equal(env.received[0]?.headers['x-webhook-delivery-id'], redelivered.data.delivery.id);
+
+      const logged = await env.api.get('/api/webhook-deliveries', { params: { orderCode } });
+      assert.equal(logged.data.deliveries.length, 2);
+    });
+  });
+});
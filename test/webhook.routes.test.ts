@@ -0,0 +1,310 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, payOrder, sign, TEST_MERCHANT } from './helpers/test-env.js';
+import type { TestEnvironment } from './helpers/test-env.js';
+
+const CALLBACK_SECRET = 'merchant-callback-secret';
+const STRICT_MERCHANT = 'strictshop';
+
+describe('webhook routes', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment({
+      [`MERCHANT_${STRICT_MERCHANT}_API_KEY`]: 'sk_test_strict',
+      [`MERCHANT_${STRICT_MERCHANT}_VIVA_ENVIRONMENT`]: 'mock',
+      [`MERCHANT_${STRICT_MERCHANT}_VIVA_CLIENT_ID`]: 'strict-client',
+      [`MERCHANT_${STRICT_MERCHANT}_VIVA_CLIENT_SECRET`]: 'strict-client-secret',
+      [`MERCHANT_${STRICT_MERCHANT}_VIVA_WEBHOOK_SECRET`]: TEST_MERCHANT.webhookSecret,
+      [`MERCHANT_${STRICT_MERCHANT}_VIVA_WEBHOOK_STRICT`]: 'true',
+    });
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  beforeEach(() => {
+    env.received.length = 0;
+    env.setCallbackStatus(200);
+  });
+
+  async function createOrderWithCallback(amount = 4200): Promise<number> {
+    const created = await env.api.post('/api/payments/orders', {
+      amount,
+      merchantTrns: 'ORD-CB',
+      callback: {
+        webhookUrl: `${env.callbackUrl}/hooks`,
+        successUrl: `${env.callbackUrl}/success`,
+        failureUrl: `${env.callbackUrl}/failure`,
+        secret: CALLBACK_SECRET,
+        metadata: { cartId: 'cart-7' },
+      },
+    });
+    assert.equal(created.status, 201);
+    return created.data.orderCode;
+  }
+
+  function webhookBody(orderCode: number, eventTypeId = 1796): string {
+    return JSON.stringify({
+      EventTypeId: eventTypeId,
+      EventData: {
+        TransactionId: `txn-${orderCode}-${eventTypeId}`,
+        OrderCode: orderCode,
+        StatusId: 'F',
+        Amount: 10,
+        CurrencyCode: '978',
+      },
+    });
+  }
+
+  describe('Viva webhook signature', () => {
+    it('returns 404 for an unknown merchant', async () => {
+      const response = await env.http.post('/api/webhooks/viva/unknown', { EventTypeId: 1796, EventData: {} });
+      assert.equal(response.status, 404);
+    });
+
+    it('rejects a webhook with an invalid signature', async () => {
+      const body = webhookBody(1000000000000001);
+      const response = await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Viva-Signature-256': sign(body, 'not-the-secret'),
+        },
+      });
+      assert.equal(response.status, 401);
+    });
+
+    it('accepts a webhook signed with the merchant secret', async () => {
+      const body = webhookBody(1000000000000002);
+      const response = await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Viva-Signature-256': sign(body, TEST_MERCHANT.webhookSecret),
+        },
+      });
+      assert.equal(response.status, 200);
+      assert.equal(response.data.received, true);
+    });
+
+    it('verifies the exact request bytes, not the re-serialized JSON', async () => {
+      const body = JSON.stringify(JSON.parse(webhookBody(1000000000000003)), null, 2);
+      const response = await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Viva-Signature-256': sign(body, TEST_MERCHANT.webhookSecret),
+        },
+      });
+      assert.equal(response.status, 200);
+      assert.equal(response.data.error, undefined);
+    });
+
+    it('rejects a signature of the wrong length without throwing', async () => {
+      const body = webhookBody(1000000000000004);
+      const response = await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+        headers: { 'Content-Type': 'application/json', 'Viva-Signature-256': 'abc123' },
+      });
+      assert.equal(response.status, 401);
+      assert.equal(response.data.error, 'Invalid signature');
+    });
+
+    it('accepts an unsigned webhook outside strict mode', async () => {
+      const response = await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, JSON.parse(webhookBody(1000000000000005)));
+      assert.equal(response.status, 200);
+    });
+
+    it('rejects an unsigned webhook in strict mode', async () => {
+      const response = await env.http.post(`/api/webhooks/viva/${STRICT_MERCHANT}`, JSON.parse(webhookBody(1000000000000006)));
+      assert.equal(response.status, 401);
+      assert.equal(response.data.error, 'Missing signature');
+    });
+
+    it('accepts a signed webhook in strict mode', async () => {
+      const body = webhookBody(1000000000000007);
+      const response = await env.http.post(`/api/webhooks/viva/${STRICT_MERCHANT}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Viva-Signature-256': sign(body, TEST_MERCHANT.webhookSecret),
+        },
+      });
+      assert.equal(response.status, 200);
+    });
+
+    it('answers the webhook verification request with the Viva token', async () => {
+      const response = await env.http.get(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`);
+      assert.equal(response.status, 200);
+      assert.ok(response.data.Key);
+    });
+  });
+
+  describe('callback forwarding', () => {
+    it('forwards a signed payment.success event after checkout', async () => {
+      const orderCode = await createOrderWithCallback();
+      env.received.length = 0; // Ignore order.created
+
+      await payOrder(env, orderCode);
+
+      const paths = env.received.map((r) => r.path).sort();
+      assert.deepEqual(paths, ['/hooks', '/success']);
+
+      for (const callback of env.received) {
+        assert.equal(callback.headers['x-webhook-event'], 'payment.success');
+        assert.equal(callback.headers['x-webhook-signature'], sign(callback.rawBody, CALLBACK_SECRET));
+        assert.equal(callback.headers['x-webhook-signature-256'], `sha256=${sign(callback.rawBody, CALLBACK_SECRET)}`);
+        assert.equal(callback.body.data.orderCode, orderCode);
+        assert.equal(callback.body.data.amount, 42);
+        assert.deepEqual(callback.body.data.metadata, { cartId: 'cart-7' });
+      }
+    });
+
+    it('forwards payment.failed to the failure and webhook URLs for a declined card', async () => {
+      const orderCode = await createOrderWithCallback();
+      env.received.length = 0;
+
+      const location = await payOrder(env, orderCode, { cardNumber: '4000000000000002' });
+
+      assert.match(location, /\/payment\/failure\?/);
+      const paths = env.received.map((r) => r.path).sort();
+      assert.deepEqual(paths, ['/failure', '/hooks']);
+      assert.ok(env.received.every((r) => r.body.event === 'payment.failed'));
+    });
+
+    it('forwards a retried Viva webhook only once', async () => {
+      const orderCode = await createOrderWithCallback();
+      env.received.length = 0;
+
+      const body = webhookBody(orderCode);
+      const send = () => env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Viva-Signature-256': sign(body, TEST_MERCHANT.webhookSecret),
+        },
+      });
+
+      const first = await send();
+      assert.equal(first.status, 200);
+      assert.equal(first.data.duplicate, undefined);
+      assert.equal(env.received.length, 2);
+
+      const retry = await send();
+      assert.equal(retry.status, 200);
+      assert.equal(retry.data.duplicate, true);
+      assert.equal(env.received.length, 2);
+    });
+
+    it('answers 500 when processing fails, so the redelivery is processed', async () => {
+      const { ledgerService } = await import('../src/services/ledger.service.js');
+      const orderCode = await createOrderWithCallback();
+      env.received.length = 0;
+
+      const body = webhookBody(orderCode);
+      const send = () => env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Viva-Signature-256': sign(body, TEST_MERCHANT.webhookSecret),
+        },
+      });
+
+      const recordWebhookTransaction = ledgerService.recordWebhookTransaction;
+      ledgerService.recordWebhookTransaction = () => {
+        throw new Error('Storage unavailable');
+      };
+      try {
+        const failed = await send();
+        assert.equal(failed.status, 500);
+        assert.equal(env.received.length, 0);
+      } finally {
+        ledgerService.recordWebhookTransaction = recordWebhookTransaction;
+      }
+
+      const redelivered = await send();
+      assert.equal(redelivered.status, 200);
+      assert.equal(redelivered.data.duplicate, undefined);
+      assert.equal(env.received.length, 2);
+    });
+
+    it('forwards order.cancelled when Viva reports a cancelled order', async () => {
+      const orderCode = await createOrderWithCallback();
+      env.received.length = 0;
+
+      const cancelled = await env.api.delete(`/api/payments/orders/${orderCode}`);
+      assert.equal(cancelled.status, 200);
+
+      const event = env.received.find((r) => r.body.event === 'order.cancelled');
+      assert.ok(event);
+      assert.equal(event.path, '/hooks');
+      assert.equal(event.body.data.orderCode, orderCode);
+      assert.equal(event.body.data.state, 'cancelled');
+      assert.deepEqual(event.body.data.metadata, { cartId: 'cart-7' });
+    });
+
+    it('forwards transaction fees as payment.fees_calculated', async () => {
+      const orderCode = await createOrderWithCallback();
+      env.received.length = 0;
+
+      const body = JSON.stringify({
+        EventTypeId: 1799,
+        EventData: {
+          TransactionId: `txn-${orderCode}-fees`,
+          OrderCode: orderCode,
+          CurrencyCode: '978',
+          Interchange: 0.05,
+          IsvFee: 0,
+          TotalCommission: 0.31,
+        },
+      });
+      const response = await env.http.post(`/api/webhooks/viva/${TEST_MERCHANT.merchantKey}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Viva-Signature-256': sign(body, TEST_MERCHANT.webhookSecret),
+        },
+      });
+      assert.equal(response.status, 200);
+
+      assert.equal(env.received.length, 1);
+      assert.equal(env.received[0]?.body.event, 'payment.fees_calculated');
+      assert.equal(env.received[0]?.body.data.totalCommission, 0.31);
+      assert.equal(env.received[0]?.body.data.transactionId, `txn-${orderCode}-fees`);
+    });
+
+    it('sends order.created when an order is registered with a callback', async () => {
+      const orderCode = await createOrderWithCallback();
+
+      const created = env.received.find((r) => r.body.event === 'order.created');
+      assert.ok(created);
+      assert.equal(created.body.data.orderCode, orderCode);
+      assert.equal(created.headers['x-webhook-signature'], sign(created.rawBody, CALLBACK_SECRET));
+    });
+
+    it('logs failed deliveries and queues them for retry', async () => {
+      env.setCallbackStatus(503);
+      const orderCode = await createOrderWithCallback();
+
+      const deliveries = await env.api.get('/api/webhook-deliveries', { params: { orderCode } });
+      assert.equal(deliveries.status, 200);
+      const [delivery] = deliveries.data.deliveries;
+      assert.equal(delivery.status, 'pending');
+      assert.equal(delivery.attemptLog[0].status, 503);
+      assert.equal(delivery.signed, true);
+      assert.equal(delivery.secret, undefined);
+
+      env.setCallbackStatus(200);
+      const redelivered = await env.api.post(`/api/webhook-deliveries/${delivery.id}/redeliver`);
+      assert.equal(redelivered.status, 202);
+      assert.equal(redelivered.data.delivered, true);
+    });
+  });
+
+  it('only simulates webhooks when enabled, for the authenticated merchant', async () => {
+    const body = { orderCode: 1234567890123456, eventType: 'success' };
+    assert.equal((await env.api.post('/api/webhooks/test-simulate', body)).status, 404);
+
+    process.env.WEBHOOK_TEST_SIMULATE_ENABLED = 'true';
+    try {
+      assert.equal((await env.http.post('/api/webhooks/test-simulate', body)).status, 401);
+      assert.equal((await env.api.post('/api/webhooks/test-simulate', body)).status, 200);
+    } finally {
+      delete process.env.WEBHOOK_TEST_SIMULATE_ENABLED;
+    }
+  });
+});